@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import "./lib/BatchLib.sol";
+import "./lib/FraudProofLib.sol";
+
+// OptimisticRollup's fraud proof, batch & state proof checking behind an external call, so decoding proofs,
+// re-executing txs & checking state proofs don't count towards the rollup's code size. every rollup deploys its own
+contract FraudVerifier {
+    // submitRollupBlock's batch checks. txRoot has to be the same tree fraud proofs check inclusion against:
+    // MerkleLib root over TransactionLib.getMerkleLeaf leaves of the decoded txs, so proofs carry full txs
+    // no matter how the batch was compressed. messageRoot is zero for batches without messages. a block whose
+    // txs don't all execute is fraudulent, so every message in a finalized block was really sent
+    function checkBatch(bytes calldata batch, bytes32 txRoot) external pure returns (uint256 txCount, uint256 fees, bytes32 messageRoot) {
+        TransactionLib.Transaction[] memory txs = BatchLib.decode(batch);
+        require(txs.length > 0, "Empty batch");
+        require(MerkleLib.computeRoot(TransactionLib.serializeBatch(txs)) == txRoot, "Invalid tx root");
+
+        bytes32[] memory messageLeaves = new bytes32[](txs.length);
+        uint256 messageCount = 0;
+        for (uint256 i = 0; i < txs.length; i++) {
+            if (TransactionLib.isMessage(txs[i])) messageLeaves[messageCount++] = TransactionLib.getMessageLeaf(TransactionLib.toMessage(txs[i]));
+        }
+        assembly { mstore(messageLeaves, messageCount) }
+        if (messageCount > 0) messageRoot = MerkleLib.computeRoot(messageLeaves);
+        return (txs.length, StateLib.calculateFeesCollected(txs), messageRoot);
+    }
+
+    function verifyAccountProof(StateLib.StateProof calldata proof, bytes32 stateRoot) external pure returns (bool) {
+        return StateLib.verifyAccountProof(proof, stateRoot);
+    }
+
+    function verifyMessage(TransactionLib.Message calldata message, bytes32 messageRoot, MerkleLib.MerkleProof calldata proof) external pure returns (bytes32 leaf, bool valid) {
+        leaf = TransactionLib.getMessageLeaf(message);
+        valid = MerkleLib.verifyProof(leaf, messageRoot, proof);
+    }
+
+    // proof is an abi-encoded FraudProofLib.FraudProof for the tx at index in a block of txCount txs under txRoot,
+    // taking it from preStateRoot to postStateRoot. reverts with the reason unless it shows fraud
+    function verifyStep(
+        bytes calldata proof,
+        bytes32 txRoot,
+        uint256 txCount,
+        address feeRecipient,
+        uint256 index,
+        bytes32 preStateRoot,
+        bytes32 postStateRoot,
+        bytes32 domain
+    ) external pure returns (FraudProofLib.FraudType, string memory) {
+        FraudProofLib.FraudProof memory fraudProof = abi.decode(proof, (FraudProofLib.FraudProof));
+
+        // proof has to be about this block: its batch, its fee recipient & the roots in question
+        require(fraudProof.transactionRoot == txRoot, "Proof tx root mismatch");
+        require(fraudProof.preStateRoot == preStateRoot, "Proof pre-state mismatch");
+        require(fraudProof.claimedPostStateRoot == postStateRoot, "Proof post-state mismatch");
+        require(fraudProof.feeRecipientProof.account == feeRecipient, "Proof fee recipient mismatch");
+        // inclusion alone isn't enough, it has to be the tx at this position
+        (uint256 path, uint256 depth) = MerkleLib.getLeafPath(index, txCount);
+        require(
+            fraudProof.transactionIndex == index && fraudProof.transactionMerkleProof.index == path && fraudProof.transactionMerkleProof.proof.length == depth,
+            "Proof tx index mismatch"
+        );
+
+        FraudProofLib.FraudResult memory result = FraudProofLib.verifyFraudProof(fraudProof, domain);
+        require(result.isFraud, result.reason);
+        return (result.fraudType, result.reason);
+    }
+
+    // proof is an abi-encoded FraudProofLib.DepositProof for the inbox entry that takes the inbox accumulator
+    // from prevAccumulator to accumulator, credited from preStateRoot to postStateRoot. reverts like verifyStep
+    function verifyDepositStep(
+        bytes calldata proof,
+        bytes32 prevAccumulator,
+        bytes32 accumulator,
+        bytes32 preStateRoot,
+        bytes32 postStateRoot
+    ) external pure returns (FraudProofLib.FraudType, string memory) {
+        FraudProofLib.DepositProof memory depositProof = abi.decode(proof, (FraudProofLib.DepositProof));
+
+        // same hash chain OptimisticRollup's deposit functions extend
+        require(
+            keccak256(abi.encode(prevAccumulator, depositProof.user, depositProof.token, depositProof.nft, depositProof.amount)) == accumulator,
+            "Proof deposit mismatch"
+        );
+        require(depositProof.preStateRoot == preStateRoot, "Proof pre-state mismatch");
+        require(depositProof.claimedPostStateRoot == postStateRoot, "Proof post-state mismatch");
+
+        FraudProofLib.FraudResult memory result = FraudProofLib.verifyDepositProof(depositProof);
+        require(result.isFraud, result.reason);
+        return (result.fraudType, result.reason);
+    }
+}
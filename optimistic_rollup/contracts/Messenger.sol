@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+// makes OptimisticRollup's L2->L1 message calls. targets get called from here rather than from the rollup, which
+// holds the bridged ETH, tokens & NFTs and is the only caller the registry trusts, so a message can only move
+// the value it carries. it holds nothing between relays. every rollup deploys its own
+contract Messenger {
+    address public immutable rollup;
+    address private messageSender; // L2 sender of the message being relayed, see l2MessageSender
+
+    constructor() {
+        rollup = msg.sender;
+    }
+
+    // calls target with msg.value & data on the L2 sender's behalf, reverts if the call does
+    function relay(address sender, address target, bytes calldata data) external payable {
+        require(msg.sender == rollup, "Only rollup");
+
+        address outerSender = messageSender; // a target may relay another message from its call
+        messageSender = sender;
+        (bool success, ) = target.call{value: msg.value}(data);
+        messageSender = outerSender;
+        require(success, "Message call failed");
+    }
+
+    // for message targets, along with checking msg.sender is this messenger: the L2 account that sent the message being relayed
+    function l2MessageSender() external view returns (address) {
+        require(messageSender != address(0), "No message being relayed");
+        return messageSender;
+    }
+}
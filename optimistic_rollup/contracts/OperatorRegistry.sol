@@ -0,0 +1,115 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+
+// what the registry needs from the rollup: an operator's escrowed block bonds, nonzero while any of their blocks
+// is neither finalized nor slashed
+interface IBondedRollup {
+    function getOperatorBond(address operator) external view returns (uint256);
+}
+
+// permissioned set of operators allowed to submit rollup blocks. the owner approves addresses,
+// approved addresses stake to become active, and the rollup ejects whoever it slashes
+contract OperatorRegistry is Ownable, ReentrancyGuard {
+    uint256 public constant MIN_STAKE = 1 ether;
+    uint256 public constant UNSTAKE_DELAY = 57600; // ~8d @ 12s blocks, has to outlast RollupConfig.challengePeriod
+
+    enum Status { None, Active, Exiting, Ejected }
+
+    struct Operator {
+        Status status;
+        uint256 stake;
+        uint256 unlockBlock; // L1 block num the stake can be withdrawn at, once exiting
+    }
+
+    address public rollup;
+
+    mapping(address => bool) public approved;
+    mapping(address => Operator) public operators;
+
+    // --- Events
+    event OperatorApproved(address indexed operator, bool approved);
+    event OperatorRegistered(address indexed operator, uint256 stake);
+    event UnstakeRequested(address indexed operator, uint256 unlockBlock);
+    event StakeWithdrawn(address indexed operator, uint256 amount);
+    event OperatorEjected(address indexed operator, uint256 forfeitedStake);
+
+    modifier onlyRollup() {
+        require(msg.sender == rollup, "Only rollup");
+        _;
+    }
+
+    // one-time link to the rollup this registry gates, it's deployed with this registry's address
+    function setRollup(address _rollup) external onlyOwner {
+        require(rollup == address(0), "Rollup already set");
+        require(_rollup != address(0), "Invalid rollup");
+        rollup = _rollup;
+    }
+
+    function approveOperator(address operator, bool isApproved) external onlyOwner {
+        approved[operator] = isApproved;
+        emit OperatorApproved(operator, isApproved);
+    }
+
+    function registerOperator() external payable {
+        require(approved[msg.sender], "Operator not approved");
+        require(operators[msg.sender].status == Status.None, "Already registered");
+        require(msg.value >= MIN_STAKE, "Insufficient stake");
+
+        operators[msg.sender] = Operator({ status: Status.Active, stake: msg.value, unlockBlock: 0 });
+        emit OperatorRegistered(msg.sender, msg.value);
+    }
+
+    // stops submissions right away. the stake stays slashable until every block the operator
+    // submitted is finalized or slashed, disputes can run past the challenge window
+    function unstake() external {
+        Operator storage op = operators[msg.sender];
+        require(op.status == Status.Active, "Operator not active");
+
+        op.status = Status.Exiting;
+        op.unlockBlock = block.number + UNSTAKE_DELAY;
+        emit UnstakeRequested(msg.sender, op.unlockBlock);
+    }
+
+    function withdrawStake() external nonReentrant {
+        Operator storage op = operators[msg.sender];
+        require(op.status == Status.Exiting, "Operator not exiting");
+        require(block.number >= op.unlockBlock, "Unstake delay not over");
+        require(rollup == address(0) || IBondedRollup(rollup).getOperatorBond(msg.sender) == 0, "Operator has live blocks");
+
+        uint256 amount = op.stake;
+        delete operators[msg.sender];
+
+        payable(msg.sender).transfer(amount);
+        emit StakeWithdrawn(msg.sender, amount);
+    }
+
+    // called by the rollup when one of the operator's blocks gets slashed. the stake goes to the rollup
+    // along with the slashed block bonds, and the operator can't register again
+    function eject(address operator) external onlyRollup returns (uint256 forfeited) {
+        Operator storage op = operators[operator];
+        if (op.status == Status.None || op.status == Status.Ejected) {
+            return 0;
+        }
+
+        forfeited = op.stake;
+        op.status = Status.Ejected;
+        op.stake = 0;
+        op.unlockBlock = 0;
+        approved[operator] = false;
+
+        (bool sent, ) = payable(rollup).call{value: forfeited}("");
+        require(sent, "Stake transfer failed");
+        emit OperatorEjected(operator, forfeited);
+    }
+
+    function isActive(address operator) external view returns (bool) {
+        return approved[operator] && operators[operator].status == Status.Active;
+    }
+
+    function getOperator(address operator) external view returns (Operator memory) {
+        return operators[operator];
+    }
+}
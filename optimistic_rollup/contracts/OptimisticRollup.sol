@@ -2,170 +2,754 @@
 pragma solidity ^0.8.26;
 
  import "@openzeppelin/contracts/security/ReentrancyGuard.sol"; 
-contract OptimisticRollup is ReentrancyGuard {
-    string constant ENCODING = "GENESIS";
-    uint256 public constant OPERATOR_BOND = 1 ether;
-    uint256 public constant CHALLENGE_PERIOD = 50400; // ~7d @ 12s blocks
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "./FraudVerifier.sol";
+import "./Messenger.sol";
+import "./OperatorRegistry.sol";
+import "./RollupConfig.sol";
 
+contract OptimisticRollup is ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    string constant EXIT_ENCODING = "L2_EXIT";
+    uint256 public constant INBOX_DEADLINE = 7200; // ~1d @ 12s blocks, max time a deposit can wait for inclusion
+    uint256 public constant DISPUTE_BOND = 0.1 ether;
+    uint256 public constant MOVE_TIMEOUT = 1800; // ~6h @ 12s blocks for each dispute move
+    uint256 public constant ESCAPE_DELAY = 100800; // ~14d @ 12s blocks without a submission or finalization freezes the rollup
+
+    OperatorRegistry public immutable registry; // who may submit blocks
+    FraudVerifier public immutable verifier; // runs the fraud proofs
+    RollupConfig public immutable config; // governed bond, challenge period & challenger reward
+    Messenger public immutable messenger; // makes the L2->L1 message calls, see relayMessage
     bytes32 public currentStateRoot; // current state of all l2 accounts
     uint256 public rollupBlockNumber;
-    uint256 public totalValueLocked;
+    uint256 public totalValueLocked; // ETH only, bridged tokens are whatever this contract holds of them
+    uint256 public lastFinalizedBlock; // blocks finalize in order, so its root is the latest settled L2 state
+    uint256 public lastProgressBlock; // L1 block num of the last submission or finalization, see frozen
+    uint256 public slashedFunds; // slashed bonds & stakes left over after challenger rewards, see withdrawSlashedFunds
+    uint64 submissionCount; // every block ever submitted, dropped ones included. see RollupBlock.submission
 
     struct RollupBlock {
         bytes32 stateRoot; // post state root after batch execution
         bytes32 txRoot; // merkle root of txs in this batch
+        bytes32 messageRoot; // merkle root of the batch's L2->L1 messages, zero if it sent none. see relayMessage
+        uint256 txCount;
         uint256 blockNumber; // L1 block num when submitted
         uint256 timestamp; 
         address operator; // address that submitted
-        bool challenged;
+        address feeRecipient; // L2 account every tx's fee is credited to, part of the state transition fraud proofs check
+        uint256 fees; // total credited to feeRecipient by the batch
+        uint256 inboxIndex; // inbox entries consumed by this block & its ancestors
+        uint256 bond; // escrowed until this block finalizes or is slashed
+        uint256 activeDisputes; // open dispute games, block can't finalize until they're resolved
+        uint64 challengePeriod; // config's at submission, in L1 blocks
+        uint16 challengerRewardBps; // config's at submission
+        uint64 submission; // submissionCount at submission, unique even among blocks submitted at the same height & L1 block
+        bool challenged; // dropped by a challenge, either directly or as a descendant of the faulty block
         bool finalized;
     }
 
-    // L2 account structure
-    struct Account {
-        uint256 balance; // l2 eth balance
-        uint256 nonce; // tx counter
+    enum DisputeStatus { None, Open, ChallengerWon, OperatorWon, Cancelled }
+
+    // bisection game over a block's intermediate roots. step i is the state after its first i steps, the deposits it
+    // consumes credited one each & then its txs: the challenger agrees with step lo & disputes step hi
+    struct Dispute {
+        uint256 blockNum;
+        uint256 submission; // RollupBlock.submission of the disputed block, tells it apart from a replacement at the same height
+        address challenger;
+        uint256 bond; // goes to the operator if the challenger loses
+        uint256 lo;
+        uint256 hi;
+        bytes32 loRoot;
+        bytes32 hiRoot;
+        bytes32 midRoot; // operator's root at step (lo + hi) / 2, zero until they post it
+        uint256 deadline; // L1 block num the side to move has to act by
+        DisputeStatus status;
     }
 
-    struct WithdrawalRequest {
+    // deposit waiting to be credited on L2. blocks consume the inbox in order
+    struct InboxEntry {
         address user;
+        uint256 token; // TransactionLib.ETH or a registered token's id
+        uint256 nft; // L2 id of a deposited NFT, see getL2NftId. 0 for ETH & ERC-20 deposits
         uint256 amount;
-        uint256 rollupBlock;
-        bool processed;
+        uint256 blockNumber; // L1 block num when queued, starts the inclusion deadline
+        bytes32 accumulator; // hash chain over every entry up to & including this one
     }
 
-    mapping(address => Account) public accounts;
+    struct WithdrawalRequest {
+        address user; // whose exit balance it was claimed from
+        address beneficiary; // paid at finalization. the user, until they sell or transfer the request
+        uint256 amount;
+        uint256 price; // beneficiary's asking price for a buyout, 0 while not for sale
+        uint256 rollupBlock; // block the exit balance was proven against, has to finalize before payout
+        bytes32 stateRoot; // root the proof was checked against. a replacement block at the same height has to match it
+        bool processed; // paid out or cancelled
+    }
+
+    InboxEntry[] public inbox;
     mapping (uint256 => RollupBlock) public rollup_blocks;
-    mapping(address => uint256) public operator_bonds;
+    mapping(address => uint256) public operator_bonds; // sum of an operator's escrowed block bonds
     mapping(bytes32 => WithdrawalRequest) public withdrawal_requests;
+    mapping(address => uint256) public claimed_exits; // nullifier: how much of a user's L2 exit balance was already paid out
+    mapping(address => mapping(uint256 => uint256)) public claimed_token_exits; // same, per token id
+    IERC20[] public tokens; // bridged ERC-20s, tokens[i] is token id i + 1 on L2
+    mapping(IERC20 => uint256) public tokenIds; // zero for tokens that aren't registered
+    mapping(uint256 => bool) public claimed_nfts; // by L2 nft id, withdrawn NFTs stay in their exit account on L2
+    mapping(uint256 => uint256) escaped_accounts; // escapeExit nullifier, a bit per L2 account. see hasEscaped
+    mapping(uint256 => bool) public refunded_deposits; // by inbox index
+    mapping(bytes32 => bool) public relayed_messages; // by TransactionLib.getMessageLeaf
+    mapping(uint256 => Dispute) disputes; // see getDispute
+    uint256 public disputeCount;
 
     // --- Events
-    event Deposit(address indexed user, uint256 amount);
+    event Deposit(address indexed user, uint256 amount, uint256 inboxIndex);
+    event TokenRegistered(address indexed token, uint256 tokenId);
+    event ERC20Deposit(address indexed user, address indexed token, uint256 amount, uint256 inboxIndex);
+    event ERC721Deposit(address indexed user, address indexed collection, uint256 tokenId, uint256 nft, uint256 inboxIndex);
     event RollupBlockSubmitted(uint256 indexed blockNumber, bytes32 stateRoot, bytes32 txRoot, address operator);
-    event Challenge(uint256 indexed blockNumber, address challenger);
+    event Challenge(uint256 indexed blockNumber, address challenger, FraudProofLib.FraudType fraudType, string reason);
+    event ChainRolledBack(uint256 indexed lastValidBlock, bytes32 stateRoot, uint256 droppedBlocks);
+    event DisputeOpened(uint256 indexed disputeId, uint256 indexed blockNumber, address challenger, uint256 steps);
+    event DisputeBisected(uint256 indexed disputeId, uint256 step, bytes32 stateRoot);
+    event DisputeNarrowed(uint256 indexed disputeId, uint256 lo, uint256 hi);
+    event DisputeResolved(uint256 indexed disputeId, DisputeStatus status);
     event BlockFinalized(uint256 indexed blockNumber);
+    event SlashedFundsWithdrawn(address indexed to, uint256 amount);
     event WithdrawalRequested(address indexed user, uint256 amount, bytes32 requestId);
     event WithdrawalProcessed(address indexed user, uint256 amount);
-
-    constructor() { 
-        currentStateRoot = keccak256(abi.encode(ENCODING));
+    event WithdrawalCancelled(address indexed user, uint256 amount, bytes32 requestId);
+    event WithdrawalOffered(bytes32 indexed requestId, address indexed beneficiary, uint256 price);
+    event WithdrawalTransferred(bytes32 indexed requestId, address indexed from, address indexed to);
+    event WithdrawalBought(bytes32 indexed requestId, address indexed seller, address indexed buyer, uint256 price);
+    event L2WithdrawalClaimed(address indexed user, uint256 amount, uint256 rollupBlock);
+    event L2ERC20WithdrawalClaimed(address indexed user, address indexed token, uint256 amount, uint256 rollupBlock);
+    event L2ERC721WithdrawalClaimed(address indexed user, address indexed collection, uint256 tokenId, uint256 rollupBlock);
+    event EscapeExit(address indexed user, uint256 amount, uint256 rollupBlock);
+    event DepositRefunded(address indexed user, uint256 inboxIndex);
+    event MessageRelayed(bytes32 indexed messageHash, address indexed sender, address indexed target, uint256 rollupBlock);
+
+    // genesisStateRoot is StateLib.emptyRoot() for a rollup that starts with no L2 accounts
+    // operatorBond & challengePeriod are the config's initial values, the registry owner can change them later
+    constructor(OperatorRegistry _registry, uint256 operatorBond, uint256 challengePeriod, bytes32 genesisStateRoot) { 
+        require(genesisStateRoot != bytes32(0), "Invalid state root");
+
+        registry = _registry;
+        verifier = new FraudVerifier();
+        config = new RollupConfig(_registry, operatorBond, challengePeriod);
+        messenger = new Messenger();
+        currentStateRoot = genesisStateRoot;
         rollupBlockNumber = 0;
+        rollup_blocks[0].stateRoot = currentStateRoot; // pre-state for block 1
+        rollup_blocks[0].finalized = true;
+        lastProgressBlock = block.number;
     }
 
     // note: nonreentrant prevents deposit function from being called multiple times in a single tx
     function deposit() external payable nonReentrant {
         require(msg.value > 0, "Error: No ETH to be deposited");
 
-        // credit user's L2 balance & track total locked funds
-        accounts[msg.sender].balance += msg.value;
+        // queue for L2 & track total locked funds. the user's L2 balance is credited by the block that consumes it
+        enqueue(msg.sender, TransactionLib.ETH, 0, msg.value);
         totalValueLocked += msg.value;
 
-        emit Deposit(msg.sender, msg.value);
+        emit Deposit(msg.sender, msg.value, inbox.length - 1);
+    }
+
+    // every account leaf carries a balance slot per registered token, so the registry owner decides what gets bridged
+    function registerToken(IERC20 token) external returns (uint256 tokenId) {
+        require(msg.sender == registry.owner(), "Only registry owner");
+        require(address(token) != address(0), "Invalid token");
+        require(tokenIds[token] == 0, "Token already registered");
+
+        tokens.push(token);
+        tokenId = tokens.length;
+        tokenIds[token] = tokenId;
+        emit TokenRegistered(address(token), tokenId);
+    }
+
+    // needs an allowance for amount. queues what actually arrived, for tokens that take a cut on transfer
+    function depositERC20(IERC20 token, uint256 amount) external nonReentrant {
+        uint256 tokenId = tokenIds[token];
+        require(tokenId != 0, "Token not registered");
+
+        uint256 balanceBefore = token.balanceOf(address(this));
+        token.safeTransferFrom(msg.sender, address(this), amount);
+        uint256 received = token.balanceOf(address(this)) - balanceBefore;
+        require(received > 0, "Error: No tokens to be deposited");
+
+        enqueue(msg.sender, tokenId, 0, received);
+        emit ERC20Deposit(msg.sender, address(token), received, inbox.length - 1);
+    }
+
+    // needs an approval for tokenId. the NFT is credited to msg.sender on L2 under the id getL2NftId gives it
+    function depositERC721(IERC721 collection, uint256 tokenId) external nonReentrant {
+        collection.transferFrom(msg.sender, address(this), tokenId);
+        require(collection.ownerOf(tokenId) == address(this), "NFT not received");
+
+        uint256 nft = getL2NftId(collection, tokenId, inbox.length);
+        enqueue(msg.sender, TransactionLib.ETH, nft, 0);
+        emit ERC721Deposit(msg.sender, address(collection), tokenId, nft, inbox.length - 1);
+    }
+
+    function enqueue(address user, uint256 token, uint256 nft, uint256 amount) internal {
+        // nothing can consume it anymore
+        require(!frozen(), "Rollup frozen");
+        bytes32 accumulator = keccak256(abi.encode(getInboxAccumulator(inbox.length), user, token, nft, amount));
+        inbox.push(InboxEntry({
+            user: user,
+            token: token,
+            nft: nft,
+            amount: amount,
+            blockNumber: block.number,
+            accumulator: accumulator
+        }));
     }
 
-    function submitRollupBlock(bytes32 newStateRoot, bytes32 txRoot, bytes[] calldata txs) external payable {
-        require(msg.value >= OPERATOR_BOND, "Insufficient bond");
+    // batch is BatchLib-encoded. the block credits the next depositCount inbox entries on L2 before executing txs,
+    // and each tx's fee to feeRecipient right after its transfer. fees leave L2 like any other balance
+    function submitRollupBlock(bytes32 newStateRoot, bytes32 txRoot, bytes calldata batch, uint256 depositCount, address feeRecipient) external payable {
+        require(!frozen(), "Rollup frozen");
+        require(registry.isActive(msg.sender), "Operator not registered");
+        require(msg.value >= config.operatorBond(), "Insufficient bond");
         require(newStateRoot != bytes32(0), "Invalid state root");
         require(txRoot != bytes32(0), "Invalid tx root");
-        require(verifyTxRoot(txRoot, txs),"Invalid tx root");
+        require(feeRecipient != address(0), "Invalid fee recipient");
+        (uint256 txCount, uint256 fees, bytes32 messageRoot) = verifier.checkBatch(batch, txRoot);
+
+        uint256 inboxIndex = rollup_blocks[rollupBlockNumber].inboxIndex + depositCount;
+        require(inboxIndex <= inbox.length, "Not enough queued deposits");
+        // forced inclusion: no block gets in while it leaves an overdue deposit behind
+        require(inboxIndex == inbox.length || block.number <= inbox[inboxIndex].blockNumber + INBOX_DEADLINE, "Overdue deposits not included");
 
         rollupBlockNumber++;
         rollup_blocks[rollupBlockNumber] = RollupBlock({
             stateRoot: newStateRoot,
             txRoot: txRoot,
+            messageRoot: messageRoot,
+            txCount: txCount,
             blockNumber: block.number,
             timestamp: block.timestamp,
             operator: msg.sender,
+            feeRecipient: feeRecipient,
+            fees: fees,
+            inboxIndex: inboxIndex,
+            bond: msg.value,
+            activeDisputes: 0,
+            challengePeriod: uint64(config.challengePeriod()),
+            challengerRewardBps: uint16(config.challengerRewardBps()),
+            submission: ++submissionCount,
             challenged: false,
             finalized: false
         });
         operator_bonds[msg.sender] += msg.value;
         currentStateRoot = newStateRoot;
+        lastProgressBlock = block.number;
         emit RollupBlockSubmitted(rollupBlockNumber, newStateRoot, txRoot, msg.sender);
     }
 
-    //TODO: this should build proper merkle tree instead of hashing all txs together
-    function verifyTxRoot(bytes32 txRoot, bytes[] calldata txs) internal pure returns(bool) {
-        bytes32 computedRoot = keccak256(abi.encode(txs));
-        return computedRoot == txRoot;
-    }
+    // proof is an abi-encoded FraudProofLib.FraudProof for the challenged block's only step, its one tx.
+    // blocks with more txs or any deposits are disputed through openDispute
+    function challengeBlock(uint256 blockNum, bytes calldata proof) external nonReentrant {
+        RollupBlock storage rollupBlock = checkChallengeable(blockNum);
+        require(stepCount(blockNum) == 1, "Multi-step block, open a dispute");
 
-    // TODO: actually verify the fraud proof. for now just assumes any challenge is valid lol
-    function challengeBlock(uint256 blockNum, bytes calldata proof) external {
-        proof; // prevent compiler warn
+        // proof has to be about this block: its batch, its parent's state & the state the operator claimed
+        (FraudProofLib.FraudType fraudType, string memory reason) = verifyStep(proof, blockNum, 0, rollup_blocks[blockNum - 1].stateRoot, rollupBlock.stateRoot);
+        dropBlocks(blockNum, msg.sender, fraudType, reason);
+    }
 
-        RollupBlock storage rollupBlock = rollup_blocks[blockNum];
+    function checkChallengeable(uint256 blockNum) internal view returns (RollupBlock storage rollupBlock) {
+        rollupBlock = rollup_blocks[blockNum];
         require(rollupBlock.operator != address(0), "Block does not exist");
         require(!rollupBlock.finalized, "Block already finalized");
         require(!rollupBlock.challenged, "Block already challenged");
-        
-        rollupBlock.challenged = true;
+        require(block.number <= rollupBlock.blockNumber + rollupBlock.challengePeriod, "Challenge period expired");
+    }
 
-        // slash operator bond
-        uint256 slashedAmount = operator_bonds[rollupBlock.operator];
-        operator_bonds[rollupBlock.operator] = 0;
+    // deposits the block consumes plus its txs
+    function stepCount(uint256 blockNum) internal view returns (uint256) {
+        return rollup_blocks[blockNum].inboxIndex - rollup_blocks[blockNum - 1].inboxIndex + rollup_blocks[blockNum].txCount;
+    }
 
-        // reward challenger with portion of slashed funds
-        uint256 challengerReward = slashedAmount / 2;
-        payable(msg.sender).transfer(challengerReward);
+    // checks a fraud proof for the block's step, taking it from preStateRoot to postStateRoot: a deposit proof
+    // against the inbox for the deposit steps, a single-tx fraud proof for the tx steps after them
+    function verifyStep(bytes calldata proof, uint256 blockNum, uint256 step, bytes32 preStateRoot, bytes32 postStateRoot) internal view returns (FraudProofLib.FraudType, string memory) {
+        RollupBlock storage rollupBlock = rollup_blocks[blockNum];
+        uint256 inboxIndex = rollup_blocks[blockNum - 1].inboxIndex + step;
+        if (inboxIndex < rollupBlock.inboxIndex) {
+            return verifier.verifyDepositStep(proof, getInboxAccumulator(inboxIndex), getInboxAccumulator(inboxIndex + 1), preStateRoot, postStateRoot);
+        }
+        return verifier.verifyStep(proof, rollupBlock.txRoot, rollupBlock.txCount, rollupBlock.feeRecipient, inboxIndex - rollupBlock.inboxIndex, preStateRoot, postStateRoot, DOMAIN_SEPARATOR());
+    }
 
-        emit Challenge(blockNum, msg.sender);
+    // drop the faulty block & every block built on top of it, slashing each one's bond
+    function dropBlocks(uint256 blockNum, address challenger, FraudProofLib.FraudType fraudType, string memory reason) internal {
+        RollupBlock storage rollupBlock = rollup_blocks[blockNum];
+        uint256 slashedAmount = 0;
+        for (uint256 i = blockNum; i <= rollupBlockNumber; i++) {
+            rollup_blocks[i].challenged = true;
+            slashedAmount += slashBond(i);
+        }
+        // only the faulty block's operator loses their registry stake, descendants were just built on top of it
+        slashedAmount += registry.eject(rollupBlock.operator);
+
+        // back to the last honest ancestor. dropped heights get reused by the next submissions, and
+        // deposits consumed by dropped blocks are back in the queue with their original deadlines
+        uint256 droppedBlocks = rollupBlockNumber - blockNum + 1;
+        rollupBlockNumber = blockNum - 1;
+        currentStateRoot = rollup_blocks[rollupBlockNumber].stateRoot;
+
+        // reward challenger with the faulty block's share of the slashed funds, governance gets the rest
+        uint256 challengerReward = slashedAmount * rollupBlock.challengerRewardBps / BPS;
+        slashedFunds += slashedAmount - challengerReward;
+        payable(challenger).transfer(challengerReward);
+
+        emit Challenge(blockNum, challenger, fraudType, reason);
+        emit ChainRolledBack(rollupBlockNumber, currentStateRoot, droppedBlocks);
+    }
+
+    // starts a bisection game over the whole block: the challenger only agrees with the parent's root
+    function openDispute(uint256 blockNum) external payable returns (uint256 disputeId) {
+        RollupBlock storage rollupBlock = checkChallengeable(blockNum);
+        require(msg.value >= DISPUTE_BOND, "Insufficient dispute bond");
+
+        uint256 steps = stepCount(blockNum);
+        disputeId = ++disputeCount;
+        disputes[disputeId] = Dispute({
+            blockNum: blockNum,
+            submission: rollupBlock.submission,
+            challenger: msg.sender,
+            bond: msg.value,
+            lo: 0,
+            hi: steps,
+            loRoot: rollup_blocks[blockNum - 1].stateRoot,
+            hiRoot: rollupBlock.stateRoot,
+            midRoot: bytes32(0),
+            deadline: block.number + MOVE_TIMEOUT,
+            status: DisputeStatus.Open
+        });
+        rollupBlock.activeDisputes++;
+        emit DisputeOpened(disputeId, blockNum, msg.sender, steps);
+    }
+
+    // operator's move: their root after the first (lo + hi) / 2 steps
+    function bisectDispute(uint256 disputeId, bytes32 midRoot) external {
+        Dispute storage dispute = liveDispute(disputeId);
+        require(msg.sender == rollup_blocks[dispute.blockNum].operator, "Not the block's operator");
+        require(isOperatorTurn(dispute), "Not operator's turn");
+        require(midRoot != bytes32(0), "Invalid state root");
+
+        dispute.midRoot = midRoot;
+        dispute.deadline = block.number + MOVE_TIMEOUT;
+        emit DisputeBisected(disputeId, (dispute.lo + dispute.hi) / 2, midRoot);
+    }
+
+    // challenger's move: keep disputing the half they disagree with
+    function selectHalf(uint256 disputeId, bool agreeWithMid) external {
+        Dispute storage dispute = liveDispute(disputeId);
+        require(msg.sender == dispute.challenger, "Not the challenger");
+        require(dispute.midRoot != bytes32(0), "Not challenger's turn");
+
+        uint256 mid = (dispute.lo + dispute.hi) / 2;
+        if (agreeWithMid) {
+            dispute.lo = mid;
+            dispute.loRoot = dispute.midRoot;
+        } else {
+            dispute.hi = mid;
+            dispute.hiRoot = dispute.midRoot;
+        }
+        dispute.midRoot = bytes32(0);
+        dispute.deadline = block.number + MOVE_TIMEOUT;
+        emit DisputeNarrowed(disputeId, dispute.lo, dispute.hi);
+    }
+
+    // challenger's last move once a single step is left: a deposit proof for a deposit step, otherwise the same
+    // fraud proof challengeBlock takes, from the agreed root to the operator's root for that step
+    function proveDisputedStep(uint256 disputeId, bytes calldata proof) external nonReentrant {
+        Dispute storage dispute = liveDispute(disputeId);
+        require(msg.sender == dispute.challenger, "Not the challenger");
+        require(dispute.hi - dispute.lo == 1, "Dispute not narrowed to one step");
+
+        (FraudProofLib.FraudType fraudType, string memory reason) = verifyStep(proof, dispute.blockNum, dispute.lo, dispute.loRoot, dispute.hiRoot);
+        resolveDispute(disputeId, DisputeStatus.ChallengerWon);
+        dropBlocks(dispute.blockNum, dispute.challenger, fraudType, reason);
+    }
+
+    // whoever had to move and didn't loses
+    function timeoutDispute(uint256 disputeId) external nonReentrant {
+        Dispute storage dispute = disputes[disputeId];
+        require(dispute.status == DisputeStatus.Open, "Dispute not open");
+        require(!isDisputedBlockDropped(dispute), "Disputed block was dropped");
+        require(block.number > dispute.deadline, "Move not timed out");
+
+        if (isOperatorTurn(dispute)) {
+            resolveDispute(disputeId, DisputeStatus.ChallengerWon);
+            dropBlocks(dispute.blockNum, dispute.challenger, FraudProofLib.FraudType.INCORRECT_EXECUTION, "Operator timed out");
+        } else {
+            resolveDispute(disputeId, DisputeStatus.OperatorWon);
+        }
+    }
+
+    // the block went away through another challenge, nobody wins this one
+    function cancelDispute(uint256 disputeId) external nonReentrant {
+        Dispute storage dispute = disputes[disputeId];
+        require(dispute.status == DisputeStatus.Open, "Dispute not open");
+        require(isDisputedBlockDropped(dispute), "Disputed block still live");
+        resolveDispute(disputeId, DisputeStatus.Cancelled);
+    }
+
+    // challenger gets their bond back unless they lost, in which case it goes to the block's operator
+    function resolveDispute(uint256 disputeId, DisputeStatus status) internal {
+        Dispute storage dispute = disputes[disputeId];
+        dispute.status = status;
+        address payee = dispute.challenger;
+        if (status != DisputeStatus.Cancelled) {
+            rollup_blocks[dispute.blockNum].activeDisputes--;
+        }
+        if (status == DisputeStatus.OperatorWon) {
+            payee = rollup_blocks[dispute.blockNum].operator;
+        }
+
+        uint256 bond = dispute.bond;
+        dispute.bond = 0;
+        payable(payee).transfer(bond);
+        emit DisputeResolved(disputeId, status);
+    }
+
+    function liveDispute(uint256 disputeId) internal view returns (Dispute storage dispute) {
+        dispute = disputes[disputeId];
+        require(dispute.status == DisputeStatus.Open, "Dispute not open");
+        require(!isDisputedBlockDropped(dispute), "Disputed block was dropped");
+        require(block.number <= dispute.deadline, "Move timed out");
+    }
+
+    function isOperatorTurn(Dispute storage dispute) internal view returns (bool) {
+        return dispute.hi - dispute.lo > 1 && dispute.midRoot == bytes32(0);
+    }
+
+    function isDisputedBlockDropped(Dispute storage dispute) internal view returns (bool) {
+        RollupBlock storage rollupBlock = rollup_blocks[dispute.blockNum];
+        return rollupBlock.challenged || rollupBlock.submission != dispute.submission;
+    }
+
+    // forfeited operator stakes from the registry
+    receive() external payable {
+        require(msg.sender == address(registry), "Unexpected ETH");
+    }
+
+    // the registry owner decides where slashed funds go, e.g. a treasury
+    function withdrawSlashedFunds(address payable to) external {
+        require(msg.sender == registry.owner(), "Only registry owner");
+        uint256 amount = slashedFunds;
+        slashedFunds = 0;
+        to.transfer(amount);
+        emit SlashedFundsWithdrawn(to, amount);
     }
 
     function finalizeBlock(uint256 blockNum) external {
+        // escapes are proven against the last finalized root, it mustn't move under them
+        require(!frozen(), "Rollup frozen");
         RollupBlock storage rollupBlock = rollup_blocks[blockNum];
         require(rollupBlock.operator != address(0), "Block does not exist");
         require(!rollupBlock.finalized, "Block already finalized");
         require(!rollupBlock.challenged, "Block was challenged");
-        require(block.number > rollupBlock.blockNumber + CHALLENGE_PERIOD, "Challenge period not expired");
+        require(block.number > rollupBlock.blockNumber + rollupBlock.challengePeriod, "Challenge period not expired");
+        require(rollupBlock.activeDisputes == 0, "Dispute in progress");
+        // a dispute can outlast the challenge period, so a block mustn't finalize ahead of its parent
+        require(rollup_blocks[blockNum - 1].finalized, "Parent block not finalized");
 
         rollupBlock.finalized = true;
+        lastFinalizedBlock = blockNum;
+        lastProgressBlock = block.number;
 
-        // return operator bond
-        uint256 bondAmount = operator_bonds[rollupBlock.operator];
-        operator_bonds[rollupBlock.operator] = 0;
+        // return this block's bond only
+        uint256 bondAmount = rollupBlock.bond;
+        rollupBlock.bond = 0;
+        operator_bonds[rollupBlock.operator] -= bondAmount;
         payable(rollupBlock.operator).transfer(bondAmount);
 
         emit BlockFinalized(blockNum);
     }
 
-    function requestWithdrawal(uint256 amount) external {
-        require(accounts[msg.sender].balance >= amount, "Insufficient balance");
-        require(amount > 0, "Amount must be positive");
+    function slashBond(uint256 blockNum) internal returns (uint256 bondAmount) {
+        RollupBlock storage rollupBlock = rollup_blocks[blockNum];
+        bondAmount = rollupBlock.bond;
+        rollupBlock.bond = 0;
+        operator_bonds[rollupBlock.operator] -= bondAmount;
+    }
+
+    // like withdrawFromL2, but against any live block. pays out once that block finalizes
+    function requestWithdrawal(uint256 blockNum, StateLib.StateProof memory proof) external {
+        RollupBlock storage rollupBlock = rollup_blocks[blockNum];
+        require(!rollupBlock.challenged, "Block was challenged");
+        require(rollupBlock.operator != address(0) && blockNum <= rollupBlockNumber, "Block does not exist");
 
-        bytes32 requestID = keccak256(abi.encode(msg.sender, amount, rollupBlockNumber, block.timestamp));
+        uint256 amount = claimExit(proof, rollupBlock.stateRoot, TransactionLib.ETH);
+        bytes32 requestID = keccak256(abi.encode(msg.sender, amount, blockNum, block.timestamp));
+        require(withdrawal_requests[requestID].user == address(0), "Duplicate withdrawal request");
         withdrawal_requests[requestID] = WithdrawalRequest({
             user: msg.sender,
+            beneficiary: msg.sender,
             amount: amount,
-            rollupBlock: rollupBlockNumber,
+            price: 0,
+            rollupBlock: blockNum,
+            stateRoot: rollupBlock.stateRoot,
             processed: false
         });
 
-        // deduct from L2 balance immediately
-        accounts[msg.sender].balance -= amount;
         emit WithdrawalRequested(msg.sender, amount, requestID);
     }
 
     function processWithdrawal(bytes32 requestID) external nonReentrant {
-        WithdrawalRequest storage request = withdrawal_requests[requestID];
-        require(request.user != address(0), "Invalid withdrawal request");
-        require(!request.processed, "Withdrawal already processed");
-        require(request.user == msg.sender, "Not your withdrawal");
+        WithdrawalRequest storage request = ownedRequest(requestID);
         require(rollup_blocks[request.rollupBlock].finalized, "Rollup block not finalized");
+        require(rollup_blocks[request.rollupBlock].stateRoot == request.stateRoot, "Withdrawal block was replaced");
         
         request.processed = true;
         totalValueLocked -= request.amount;
 
-        payable(request.user).transfer(request.amount);
-        emit WithdrawalProcessed(request.user, request.amount);
+        payable(msg.sender).transfer(request.amount);
+        emit WithdrawalProcessed(msg.sender, request.amount);
+    }
+
+    // a request proven against a dropped block can never pay out. hand its amount back to the user's exit balance,
+    // unless they sold or gave it away: then only the new beneficiary can cancel & the amount stays claimed,
+    // it's their loss the dropped block turned out to be
+    function cancelWithdrawal(bytes32 requestID) external {
+        WithdrawalRequest storage request = ownedRequest(requestID);
+        require(isDropped(request), "Withdrawal block not dropped");
+
+        request.processed = true;
+        if (request.beneficiary == request.user) claimed_exits[request.user] -= request.amount;
+        emit WithdrawalCancelled(request.user, request.amount, requestID);
+    }
+
+    // puts the request up for a buyout at price, or takes it off sale with 0. the buyer pays price now &
+    // collects the full amount at finalization, so the discount is what an LP charges for the wait
+    function offerWithdrawal(bytes32 requestID, uint256 price) external {
+        require(price < ownedRequest(requestID).amount, "Price above withdrawal amount");
+        withdrawal_requests[requestID].price = price;
+        emit WithdrawalOffered(requestID, msg.sender, price);
+    }
+
+    // msg.value has to be the asking price, so a seller can't raise it under a pending buy
+    function buyWithdrawal(bytes32 requestID) external payable nonReentrant {
+        WithdrawalRequest storage request = withdrawal_requests[requestID];
+        require(!request.processed, "Withdrawal already processed");
+        require(request.price > 0 && msg.value == request.price, "Withdrawal not for sale at this price");
+        require(!isDropped(request), "Withdrawal block dropped");
+
+        address seller = request.beneficiary;
+        request.beneficiary = msg.sender;
+        request.price = 0;
+        payable(seller).transfer(msg.value);
+        emit WithdrawalBought(requestID, seller, msg.sender, msg.value);
+    }
+
+    function transferWithdrawal(bytes32 requestID, address to) external {
+        require(to != address(0), "Invalid beneficiary");
+        WithdrawalRequest storage request = ownedRequest(requestID);
+        request.beneficiary = to;
+        request.price = 0;
+        emit WithdrawalTransferred(requestID, msg.sender, to);
+    }
+
+    // an open request msg.sender is the beneficiary of
+    function ownedRequest(bytes32 requestID) internal view returns (WithdrawalRequest storage request) {
+        request = withdrawal_requests[requestID];
+        require(request.user != address(0), "Invalid withdrawal request");
+        require(!request.processed, "Withdrawal already processed");
+        require(request.beneficiary == msg.sender, "Not your withdrawal");
+    }
+
+    // unfinalized blocks never finalize once the rollup is frozen, so they count as dropped too
+    function isDropped(WithdrawalRequest storage request) internal view returns (bool) {
+        RollupBlock storage rollupBlock = rollup_blocks[request.rollupBlock];
+        return rollupBlock.challenged || rollupBlock.stateRoot != request.stateRoot || (!rollupBlock.finalized && frozen());
+    }
+
+    // L2 funds leave by being sent to the user's exit address on L2. nobody has a key for it so its
+    // balance only grows; claiming pays out whatever part of it hasn't been claimed yet
+    function withdrawFromL2(uint256 blockNum, StateLib.StateProof memory proof) external nonReentrant {
+        RollupBlock storage rollupBlock = rollup_blocks[blockNum];
+        require(rollupBlock.finalized, "Rollup block not finalized");
+
+        uint256 amount = claimExit(proof, rollupBlock.stateRoot, TransactionLib.ETH);
+        totalValueLocked -= amount;
+
+        payable(msg.sender).transfer(amount);
+        emit L2WithdrawalClaimed(msg.sender, amount, blockNum);
+    }
+
+    // withdrawFromL2 for the exit account's balance of a bridged token
+    function withdrawERC20FromL2(uint256 blockNum, IERC20 token, StateLib.StateProof memory proof) external nonReentrant {
+        require(rollup_blocks[blockNum].finalized, "Rollup block not finalized");
+        uint256 tokenId = tokenIds[token];
+        require(tokenId != 0, "Token not registered");
+
+        uint256 amount = claimExit(proof, rollup_blocks[blockNum].stateRoot, tokenId);
+        token.safeTransfer(msg.sender, amount);
+        emit L2ERC20WithdrawalClaimed(msg.sender, address(token), amount, blockNum);
+    }
+
+    // an NFT in the exit account is withdrawn once, by the deposit it came in with. inboxIndex is that deposit's
+    function withdrawERC721FromL2(uint256 blockNum, IERC721 collection, uint256 tokenId, uint256 inboxIndex, StateLib.StateProof memory proof) external nonReentrant {
+        require(rollup_blocks[blockNum].finalized, "Rollup block not finalized");
+        uint256 nft = unclaimedNft(collection, tokenId, inboxIndex);
+        verifyExitProof(proof, rollup_blocks[blockNum].stateRoot);
+        require(TransactionLib.ownsNft(proof.accountData, nft), "NFT not in exit account");
+
+        claimed_nfts[nft] = true;
+        collection.safeTransferFrom(address(this), msg.sender, tokenId);
+        emit L2ERC721WithdrawalClaimed(msg.sender, address(collection), tokenId, blockNum);
+    }
+
+    function unclaimedNft(IERC721 collection, uint256 tokenId, uint256 inboxIndex) internal view returns (uint256 nft) {
+        nft = getL2NftId(collection, tokenId, inboxIndex);
+        require(inboxIndex < inbox.length && inbox[inboxIndex].nft == nft, "Unknown NFT");
+        require(!claimed_nfts[nft], "NFT already withdrawn");
+    }
+
+    // liveness failure: nothing was submitted or finalized for ESCAPE_DELAY blocks. submissions, finalizations &
+    // deposits stop for good, and users exit straight from their own account leaves under the last finalized root
+    function frozen() public view returns (bool) {
+        return block.number > lastProgressBlock + ESCAPE_DELAY;
+    }
+
+    // pays out msg.sender's whole ETH & bridged token balances under the last finalized root, once.
+    // their NFTs leave through escapeERC721, their exit account's funds through the usual withdrawals
+    function escapeExit(StateLib.StateProof memory proof) external nonReentrant {
+        verifyEscapeProof(proof);
+        require(!hasEscaped(msg.sender), "Already escaped");
+        escaped_accounts[uint160(msg.sender) >> 8] |= 1 << (uint160(msg.sender) & 0xff);
+
+        uint256[] memory tokenBalances = proof.accountData.tokenBalances;
+        for (uint256 i = 0; i < tokenBalances.length; i++) {
+            if (tokenBalances[i] > 0) tokens[i].safeTransfer(msg.sender, tokenBalances[i]);
+        }
+        uint256 amount = proof.accountData.balance;
+        totalValueLocked -= amount;
+        payable(msg.sender).transfer(amount);
+        emit EscapeExit(msg.sender, amount, lastFinalizedBlock);
+    }
+
+    // withdrawERC721FromL2 for an NFT in msg.sender's own account under the last finalized root
+    function escapeERC721(IERC721 collection, uint256 tokenId, uint256 inboxIndex, StateLib.StateProof memory proof) external nonReentrant {
+        uint256 nft = unclaimedNft(collection, tokenId, inboxIndex);
+        verifyEscapeProof(proof);
+        require(TransactionLib.ownsNft(proof.accountData, nft), "NFT not in account");
+
+        claimed_nfts[nft] = true;
+        collection.safeTransferFrom(address(this), msg.sender, tokenId);
+        emit L2ERC721WithdrawalClaimed(msg.sender, address(collection), tokenId, lastFinalizedBlock);
+    }
+
+    function verifyEscapeProof(StateLib.StateProof memory proof) internal view {
+        require(frozen(), "Rollup not frozen");
+        require(proof.account == msg.sender, "Not your account");
+        require(verifier.verifyAccountProof(proof, rollup_blocks[lastFinalizedBlock].stateRoot), "Invalid state proof");
+    }
+
+    function hasEscaped(address account) public view returns (bool) {
+        return escaped_accounts[uint160(account) >> 8] & (1 << (uint160(account) & 0xff)) != 0;
+    }
+
+    // deposits the last finalized block didn't consume never settled on L2, so they go back to the depositor
+    // once frozen. collection & tokenId are the NFT deposit's, ignored for ETH & ERC-20 ones
+    function refundDeposit(uint256 inboxIndex, IERC721 collection, uint256 tokenId) external nonReentrant {
+        require(frozen(), "Rollup not frozen");
+        require(inboxIndex < inbox.length && inboxIndex >= rollup_blocks[lastFinalizedBlock].inboxIndex, "Deposit not refundable");
+        InboxEntry storage entry = inbox[inboxIndex];
+        require(entry.user == msg.sender, "Not your deposit");
+        require(!refunded_deposits[inboxIndex], "Deposit already refunded");
+        refunded_deposits[inboxIndex] = true;
+
+        if (entry.nft != 0) {
+            require(getL2NftId(collection, tokenId, inboxIndex) == entry.nft, "Unknown NFT");
+            collection.safeTransferFrom(address(this), msg.sender, tokenId);
+        } else if (entry.token != TransactionLib.ETH) {
+            tokens[entry.token - 1].safeTransfer(msg.sender, entry.amount);
+        } else {
+            totalValueLocked -= entry.amount;
+            payable(msg.sender).transfer(entry.amount);
+        }
+        emit DepositRefunded(msg.sender, inboxIndex);
+    }
+
+    // marks the unclaimed part of msg.sender's exit balance of token under stateRoot as claimed
+    function claimExit(StateLib.StateProof memory proof, bytes32 stateRoot, uint256 token) internal returns (uint256 amount) {
+        verifyExitProof(proof, stateRoot);
+
+        uint256 exitBalance = TransactionLib.balanceOf(proof.accountData, token);
+        uint256 claimed = token == TransactionLib.ETH ? claimed_exits[msg.sender] : claimed_token_exits[msg.sender][token];
+        require(exitBalance > claimed, "Nothing to withdraw");
+        amount = exitBalance - claimed;
+        if (token == TransactionLib.ETH) {
+            claimed_exits[msg.sender] = exitBalance;
+        } else {
+            claimed_token_exits[msg.sender][token] = exitBalance;
+        }
+    }
+
+    function verifyExitProof(StateLib.StateProof memory proof, bytes32 stateRoot) internal view {
+        require(proof.account == getL2ExitAddress(msg.sender), "Not your exit account");
+        require(verifier.verifyAccountProof(proof, stateRoot), "Invalid state proof");
+    }
+
+    // has the messenger call message.target with the message's value & data once the block that sent it is finalized.
+    // never from the rollup itself, it holds every bridged asset. anyone can relay a message, each only once, & a call
+    // that reverts can be relayed again later. targets can deposit back to L2 from the call, so the message is marked
+    // relayed & paid for before it's made
+    function relayMessage(uint256 blockNum, TransactionLib.Message calldata message, MerkleLib.MerkleProof calldata proof) external {
+        RollupBlock storage rollupBlock = rollup_blocks[blockNum];
+        require(rollupBlock.finalized, "Rollup block not finalized");
+        (bytes32 messageHash, bool valid) = verifier.verifyMessage(message, rollupBlock.messageRoot, proof);
+        require(valid, "Invalid message proof");
+        require(!relayed_messages[messageHash], "Message already relayed");
+        relayed_messages[messageHash] = true;
+        totalValueLocked -= message.value;
+
+        messenger.relay{value: message.value}(message.sender, message.target, message.data);
+        emit MessageRelayed(messageHash, message.sender, message.target, blockNum);
+    }
+
+    // a fresh id for every deposit, so an NFT that's withdrawn & bridged again never matches the record
+    // it left behind in the exit account
+    function getL2NftId(IERC721 collection, uint256 tokenId, uint256 inboxIndex) public pure returns (uint256) {
+        return uint256(keccak256(abi.encode(collection, tokenId, inboxIndex)));
+    }
+
+    function getL2ExitAddress(address user) public pure returns (address) {
+        return address(uint160(uint256(keccak256(abi.encode(EXIT_ENCODING, user)))));
+    }
+
+    // eip-712 domain L2 txs are signed under, tied to this deployment & chain
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return TransactionLib.domainSeparator(block.chainid, address(this));
     }
 
     function getCurrentState() external view returns (bytes32 stateRoot, uint256 blockNum) {
         return (currentStateRoot, rollupBlockNumber);
     }
 
-    function getBalance(address user) external view returns (uint256) {
-        return accounts[user].balance;
+    function getTokenCount() external view returns (uint256) {
+        return tokens.length;
+    }
+
+    function getInboxLength() external view returns (uint256) {
+        return inbox.length;
+    }
+
+    // inbox entries the current chain hasn't consumed yet
+    function getPendingDeposits() external view returns (uint256) {
+        return inbox.length - rollup_blocks[rollupBlockNumber].inboxIndex;
+    }
+
+    // accumulator after the first count entries, zero for none
+    function getInboxAccumulator(uint256 count) public view returns (bytes32) {
+        return count == 0 ? bytes32(0) : inbox[count - 1].accumulator;
     }
 
     function getRollupBlock(uint256 blockNum) external view returns (RollupBlock memory) {
@@ -176,17 +760,26 @@ contract OptimisticRollup is ReentrancyGuard {
         return operator_bonds[operator];
     }
 
+    function getBlockBond(uint256 blockNum) external view returns (uint256) {
+        return rollup_blocks[blockNum].bond;
+    }
+
+    function getDispute(uint256 disputeId) external view returns (Dispute memory) {
+        return disputes[disputeId];
+    }
+
     function getWithdrawalRequest(bytes32 requestId) external view returns (WithdrawalRequest memory) {
         return withdrawal_requests[requestId];
     }
 
     function canFinalizeOrChallenge(uint256 blockNum, bool finalize) internal view returns (bool) {
         RollupBlock storage rollupBlock = rollup_blocks[blockNum];
-        bool valid_block_number = finalize ? block.number > rollupBlock.blockNumber + CHALLENGE_PERIOD : block.number <= rollupBlock.blockNumber + CHALLENGE_PERIOD;
+        bool valid_block_number = finalize ? block.number > rollupBlock.blockNumber + rollupBlock.challengePeriod : block.number <= rollupBlock.blockNumber + rollupBlock.challengePeriod;
         return (
             rollupBlock.operator != address(0) &&
             !rollupBlock.finalized &&
             !rollupBlock.challenged &&
+            (!finalize || (rollupBlock.activeDisputes == 0 && rollup_blocks[blockNum - 1].finalized && !frozen())) &&
             valid_block_number
         );
     }
@@ -201,6 +794,7 @@ contract OptimisticRollup is ReentrancyGuard {
 
     function canProcessWithdrawal(bytes32 requestID) external view returns (bool) {
         WithdrawalRequest storage request = withdrawal_requests[requestID];
-        return(request.user != address(0) && !request.processed && rollup_blocks[request.rollupBlock].finalized);
+        RollupBlock storage rollupBlock = rollup_blocks[request.rollupBlock];
+        return(request.user != address(0) && !request.processed && rollupBlock.finalized && rollupBlock.stateRoot == request.stateRoot);
     }
 }
@@ -0,0 +1,88 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import "./OperatorRegistry.sol";
+
+uint256 constant BPS = 10_000; // basis points in a whole
+
+// OptimisticRollup's economic parameters. the registry owner governs them, but every change waits out
+// TIMELOCK_DELAY between being scheduled & taking effect. the rollup copies them into each block when it's
+// submitted, so a change only ever applies to blocks submitted after it
+contract RollupConfig {
+    enum Param { OperatorBond, ChallengePeriod, ChallengerRewardBps }
+
+    struct PendingChange {
+        uint256 value;
+        uint256 eta; // timestamp it can be executed from, 0 while nothing is scheduled
+    }
+
+    uint256 public constant TIMELOCK_DELAY = 2 days;
+
+    OperatorRegistry public immutable registry; // its owner is the governance role
+    uint256 public operatorBond; // escrowed per block until it finalizes
+    uint256 public challengePeriod; // in L1 blocks, 50400 is ~7d @ 12s blocks
+    uint256 public challengerRewardBps = 5_000; // share of the slashed bonds & stake a successful challenger gets
+    mapping(Param => PendingChange) public pendingChanges;
+
+    event ParamChangeScheduled(Param indexed param, uint256 value, uint256 eta);
+    event ParamChangeCancelled(Param indexed param);
+    event ParamChanged(Param indexed param, uint256 oldValue, uint256 newValue);
+
+    modifier onlyGovernance() {
+        require(msg.sender == registry.owner(), "Only registry owner");
+        _;
+    }
+
+    constructor(OperatorRegistry _registry, uint256 _operatorBond, uint256 _challengePeriod) {
+        registry = _registry;
+        validate(Param.OperatorBond, _operatorBond);
+        validate(Param.ChallengePeriod, _challengePeriod);
+        operatorBond = _operatorBond;
+        challengePeriod = _challengePeriod;
+    }
+
+    // replaces whatever change to param was pending, restarting the delay
+    function scheduleChange(Param param, uint256 value) external onlyGovernance {
+        validate(param, value);
+        uint256 eta = block.timestamp + TIMELOCK_DELAY;
+        pendingChanges[param] = PendingChange({ value: value, eta: eta });
+        emit ParamChangeScheduled(param, value, eta);
+    }
+
+    function cancelChange(Param param) external onlyGovernance {
+        require(pendingChanges[param].eta != 0, "No change scheduled");
+        delete pendingChanges[param];
+        emit ParamChangeCancelled(param);
+    }
+
+    function executeChange(Param param) external onlyGovernance {
+        PendingChange memory change = pendingChanges[param];
+        require(change.eta != 0, "No change scheduled");
+        require(block.timestamp >= change.eta, "Timelock not expired");
+        delete pendingChanges[param];
+
+        uint256 oldValue;
+        if (param == Param.OperatorBond) {
+            oldValue = operatorBond;
+            operatorBond = change.value;
+        } else if (param == Param.ChallengePeriod) {
+            oldValue = challengePeriod;
+            challengePeriod = change.value;
+        } else {
+            oldValue = challengerRewardBps;
+            challengerRewardBps = change.value;
+        }
+        emit ParamChanged(param, oldValue, change.value);
+    }
+
+    function validate(Param param, uint256 value) internal view {
+        if (param == Param.OperatorBond) {
+            require(value > 0, "Invalid operator bond");
+        } else if (param == Param.ChallengePeriod) {
+            // a slashable operator mustn't be able to unstake before their blocks' challenge periods are over
+            require(value > 0 && value < registry.UNSTAKE_DELAY(), "Invalid challenge period");
+        } else {
+            require(value <= BPS, "Invalid challenger reward");
+        }
+    }
+}
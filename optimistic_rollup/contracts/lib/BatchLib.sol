@@ -0,0 +1,112 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import "./TransactionLib.sol";
+
+// compact batch calldata for submitRollupBlock, mirrored by src/lib/batch.ts:
+//
+//   batch := u16 accountCount | address[accountCount] | u16 txCount | tx[txCount]
+//   tx    := u8 flags | index from | index to | [value token] | [bytes32 nft] | [u16 length | data] | value amount | value fee | [value nonce] | [bytes65 signature]
+//   index := u8 if accountCount <= 256, u16 otherwise. position in the batch's address table
+//   value := u8 exponent | u8 length | length bytes big-endian mantissa, value = mantissa * 10^exponent
+//
+// NONCE_OMITTED txs take the nonce after the one their sender's previous tx in the batch had, so a sender's
+// first tx always carries it. UNSIGNED txs decode with an empty signature, which never verifies. only TOKEN txs carry
+// a token id, the rest are ETH, & only NFT txs an nft id. those are hashes, so they're written raw. only DATA txs,
+// L2->L1 messages, carry data.
+// the decoded txs are what the block commits to: its tx root is over their TransactionLib.getMerkleLeaf leaves
+library BatchLib {
+    uint8 internal constant NONCE_OMITTED = 1;
+    uint8 internal constant UNSIGNED = 2;
+    uint8 internal constant TOKEN = 4;
+    uint8 internal constant NFT = 8;
+    uint8 internal constant DATA = 16;
+
+    uint256 private constant SIGNATURE_LENGTH = 65;
+    uint256 private constant MAX_EXPONENT = 77; // 10^77 is the largest power of ten below 2^256
+
+    function decode(bytes calldata batch) internal pure returns (TransactionLib.Transaction[] memory txs) {
+        uint256 offset;
+        uint256 accountCount;
+        (accountCount, offset) = readUint(batch, offset, 2);
+        require(accountCount > 0, "Empty account table");
+        address[] memory accounts = new address[](accountCount);
+        for (uint256 i = 0; i < accountCount; i++) {
+            require(offset + 20 <= batch.length, "Batch truncated");
+            accounts[i] = address(bytes20(batch[offset:offset + 20]));
+            offset += 20;
+        }
+
+        uint256 txCount;
+        (txCount, offset) = readUint(batch, offset, 2);
+        uint256 indexWidth = accountCount <= 256 ? 1 : 2;
+        uint256[] memory nextNonce = new uint256[](accountCount); // by account index, 0 until the account has sent
+        txs = new TransactionLib.Transaction[](txCount);
+        for (uint256 i = 0; i < txCount; i++) {
+            (txs[i], offset) = decodeTransaction(batch, offset, accounts, indexWidth, nextNonce);
+        }
+        require(offset == batch.length, "Trailing batch bytes");
+    }
+
+    function decodeTransaction(
+        bytes calldata batch,
+        uint256 offset,
+        address[] memory accounts,
+        uint256 indexWidth,
+        uint256[] memory nextNonce
+    ) private pure returns (TransactionLib.Transaction memory txn, uint256) {
+        uint256 flags;
+        uint256 fromIndex;
+        uint256 toIndex;
+        (flags, offset) = readUint(batch, offset, 1);
+        require(flags & ~uint256(NONCE_OMITTED | UNSIGNED | TOKEN | NFT | DATA) == 0, "Invalid tx flags");
+        (fromIndex, offset) = readUint(batch, offset, indexWidth);
+        (toIndex, offset) = readUint(batch, offset, indexWidth);
+        require(fromIndex < accounts.length && toIndex < accounts.length, "Invalid account index");
+        txn.from = accounts[fromIndex];
+        txn.to = accounts[toIndex];
+        if (flags & TOKEN != 0) (txn.token, offset) = readValue(batch, offset);
+        if (flags & NFT != 0) (txn.nft, offset) = readUint(batch, offset, 32);
+        if (flags & DATA != 0) {
+            uint256 length;
+            (length, offset) = readUint(batch, offset, 2);
+            require(offset + length <= batch.length, "Batch truncated");
+            txn.data = batch[offset:offset + length];
+            offset += length;
+        }
+        (txn.amount, offset) = readValue(batch, offset);
+        (txn.fee, offset) = readValue(batch, offset);
+
+        if (flags & NONCE_OMITTED == 0) {
+            (txn.nonce, offset) = readValue(batch, offset);
+        } else {
+            require(nextNonce[fromIndex] != 0, "Nonce not inferable");
+            txn.nonce = nextNonce[fromIndex];
+        }
+        nextNonce[fromIndex] = txn.nonce + 1;
+
+        if (flags & UNSIGNED == 0) {
+            require(offset + SIGNATURE_LENGTH <= batch.length, "Batch truncated");
+            txn.signature = batch[offset:offset + SIGNATURE_LENGTH];
+            offset += SIGNATURE_LENGTH;
+        }
+        return (txn, offset);
+    }
+
+    // big-endian unsigned int of `length` bytes
+    function readUint(bytes calldata batch, uint256 offset, uint256 length) private pure returns (uint256 value, uint256) {
+        require(offset + length <= batch.length, "Batch truncated");
+        if (length > 0) value = uint256(bytes32(batch[offset:offset + length])) >> (8 * (32 - length));
+        return (value, offset + length);
+    }
+
+    function readValue(bytes calldata batch, uint256 offset) private pure returns (uint256 value, uint256) {
+        uint256 exponent;
+        uint256 length;
+        (exponent, offset) = readUint(batch, offset, 1);
+        (length, offset) = readUint(batch, offset, 1);
+        require(exponent <= MAX_EXPONENT && length <= 32, "Invalid value encoding");
+        (value, offset) = readUint(batch, offset, length);
+        return (value * 10 ** exponent, offset); // reverts if it doesn't fit
+    }
+}
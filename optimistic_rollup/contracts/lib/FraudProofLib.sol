@@ -22,19 +22,34 @@ library FraudProofLib {
         // tx being challenged
         TransactionLib.Transaction transaction;
         
+        // sender against the pre-state root, recipient against the root after the sender's leaf is updated
+        // & the block's fee recipient against the root after the recipient's is
         StateLib.StateProof fromAccountProof;
         StateLib.StateProof toAccountProof;
+        StateLib.StateProof feeRecipientProof;
         
         bytes32 claimedPostStateRoot;
-        StateLib.StateProof claimedFromAccountProof;
-        StateLib.StateProof claimedToAccountProof;
         bytes32 preStateRoot;
         
         uint256 transactionIndex;  // position in batch
         bytes32 transactionRoot;   // merkle root of batch
         MerkleLib.MerkleProof transactionMerkleProof;  // proof transaction is in batch
     }
-    
+
+    // a block credits each deposit it consumes as a step of its own, ahead of its txs
+    struct DepositProof {
+        // inbox entry being credited
+        address user;
+        uint256 token;
+        uint256 nft;
+        uint256 amount;
+
+        StateLib.StateProof accountProof; // user's, against the pre-state root
+
+        bytes32 claimedPostStateRoot;
+        bytes32 preStateRoot;
+    }
+
     struct FraudResult {
         bool isFraud;
         FraudType fraudType;
@@ -42,7 +57,9 @@ library FraudProofLib {
         string reason;
     }
     
-    function verifyFraudProof(FraudProof memory proof) internal pure returns (FraudResult memory) {
+    // domain is the rollup's TransactionLib.domainSeparator, the tx's signature is checked against it.
+    // the fee recipient's account isn't checked against the block here, the caller has to
+    function verifyFraudProof(FraudProof memory proof, bytes32 domain) internal pure returns (FraudResult memory) {
         if (!verifyTransactionInclusion(proof)) {
             return FraudResult({
                 isFraud: false,
@@ -52,9 +69,10 @@ library FraudProofLib {
             });
         }
         
+        // bad pre-state proofs are the challenger's mistake, not the operator's
         if (!verifyPreStateProofs(proof)) {
             return FraudResult({
-                isFraud: true,
+                isFraud: false,
                 fraudType: FraudType.INVALID_PRE_STATE,
                 correctPostStateRoot: bytes32(0),
                 reason: "Invalid pre-state proofs"
@@ -66,9 +84,40 @@ library FraudProofLib {
             TransactionLib.Account memory correctFromAccount,
             TransactionLib.Account memory correctToAccount,
             TransactionLib.TransactionResult result
-        ) = TransactionLib.execute(proof.transaction,proof.fromAccountProof.accountData, proof.toAccountProof.accountData);
+        ) = TransactionLib.execute(proof.transaction,proof.fromAccountProof.accountData, proof.toAccountProof.accountData, domain);
+        
+        // recipient's path has to line up with the sender's update, otherwise the post-root below means nothing
+        bytes32 intermediateRoot = StateLib.computeUpdatedRoot(proof.fromAccountProof, correctFromAccount);
+        if (!StateLib.verifyAccountProof(proof.toAccountProof, intermediateRoot)) {
+            return FraudResult({
+                isFraud: false,
+                fraudType: FraudType.INVALID_PRE_STATE,
+                correctPostStateRoot: bytes32(0),
+                reason: "Invalid pre-state proofs"
+            });
+        }
+        
+        if (result != TransactionLib.TransactionResult.SUCCESS) {
+            return FraudResult({
+                isFraud: true,
+                fraudType: FraudType.INVALID_TRANSACTION,
+                correctPostStateRoot: proof.preStateRoot, // State should be unchanged
+                reason: "Transaction should have failed but was included"
+            });
+        }
         
-        bytes32 correctPostStateRoot = computeCorrectPostState(proof, correctFromAccount, correctToAccount);
+        // same for the fee recipient's path & the recipient's update
+        bytes32 recipientRoot = StateLib.computeUpdatedRoot(proof.toAccountProof, correctToAccount);
+        if (!StateLib.verifyAccountProof(proof.feeRecipientProof, recipientRoot)) {
+            return FraudResult({
+                isFraud: false,
+                fraudType: FraudType.INVALID_PRE_STATE,
+                correctPostStateRoot: bytes32(0),
+                reason: "Invalid pre-state proofs"
+            });
+        }
+
+        bytes32 correctPostStateRoot = computeCorrectPostState(proof);
         
         // Compare with claimed post-state
         if (correctPostStateRoot != proof.claimedPostStateRoot) {
@@ -80,24 +129,36 @@ library FraudProofLib {
             });
         }
         
-        if (!verifyPostStateProofs(proof, correctFromAccount, correctToAccount)) {
+        return FraudResult({
+            isFraud: false,
+            fraudType: FraudType.INVALID_STATE_TRANSITION,
+            correctPostStateRoot: correctPostStateRoot,
+            reason: "No fraud detected"
+        });
+    }
+    
+    // the deposit isn't checked against the inbox here, the caller has to
+    function verifyDepositProof(DepositProof memory proof) internal pure returns (FraudResult memory) {
+        if (proof.accountProof.account != proof.user || !StateLib.verifyAccountProof(proof.accountProof, proof.preStateRoot)) {
             return FraudResult({
-                isFraud: true,
-                fraudType: FraudType.INVALID_POST_STATE,
-                correctPostStateRoot: correctPostStateRoot,
-                reason: "Claimed post-state proofs don't match computed state"
+                isFraud: false,
+                fraudType: FraudType.INVALID_PRE_STATE,
+                correctPostStateRoot: bytes32(0),
+                reason: "Invalid pre-state proofs"
             });
         }
-        
-        if (result != TransactionLib.TransactionResult.SUCCESS) {
+
+        TransactionLib.Account memory credited = TransactionLib.creditDeposit(proof.accountProof.accountData, proof.token, proof.nft, proof.amount);
+        bytes32 correctPostStateRoot = StateLib.computeUpdatedRoot(proof.accountProof, credited);
+        if (correctPostStateRoot != proof.claimedPostStateRoot) {
             return FraudResult({
                 isFraud: true,
-                fraudType: FraudType.INVALID_TRANSACTION,
-                correctPostStateRoot: proof.preStateRoot, // State should be unchanged
-                reason: "Transaction should have failed but was included"
+                fraudType: FraudType.INVALID_STATE_TRANSITION,
+                correctPostStateRoot: correctPostStateRoot,
+                reason: "Operator credited deposit incorrectly"
             });
         }
-        
+
         return FraudResult({
             isFraud: false,
             fraudType: FraudType.INVALID_STATE_TRANSITION,
@@ -105,68 +166,26 @@ library FraudProofLib {
             reason: "No fraud detected"
         });
     }
-    
+
     function verifyTransactionInclusion(FraudProof memory proof) internal pure returns (bool) {
         bytes32 transactionLeaf = TransactionLib.getMerkleLeaf(proof.transaction);
         return MerkleLib.verifyProof(transactionLeaf,proof.transactionRoot,proof.transactionMerkleProof);
     }
     
+    // only the sender's proof is against the pre-state, verifyFraudProof checks the recipient's once the sender is updated
     function verifyPreStateProofs(FraudProof memory proof) internal pure returns (bool) {
         // Verify from account proof
         bool fromValid = StateLib.verifyAccountProof(proof.fromAccountProof,proof.preStateRoot);
-        bool toValid = StateLib.verifyAccountProof(proof.toAccountProof, proof.preStateRoot);
         
         // accounts must match transaction
         bool accountsMatch = (proof.fromAccountProof.account == proof.transaction.from && proof.toAccountProof.account == proof.transaction.to);
-        return fromValid && toValid && accountsMatch;
+        return fromValid && accountsMatch;
     }
     
-    function verifyPostStateProofs(FraudProof memory proof, TransactionLib.Account memory correctFromAccount,TransactionLib.Account memory correctToAccount) internal pure returns (bool) {
-        // check claimed from account matches computed
-        bool fromMatches = (
-            proof.claimedFromAccountProof.accountData.balance == correctFromAccount.balance &&
-            proof.claimedFromAccountProof.accountData.nonce == correctFromAccount.nonce
-        );
-        
-        // check claimed to account matches computed
-        bool toMatches = (
-            proof.claimedToAccountProof.accountData.balance == correctToAccount.balance &&
-            proof.claimedToAccountProof.accountData.nonce == correctToAccount.nonce
-        );
-        
-        // verify proofs are valid against claimed post-state root
-        bool fromProofValid = StateLib.verifyAccountProof(
-            proof.claimedFromAccountProof,
-            proof.claimedPostStateRoot
-        );
-        
-        bool toProofValid = StateLib.verifyAccountProof(
-            proof.claimedToAccountProof,
-            proof.claimedPostStateRoot
-        );
-        
-        return fromMatches && toMatches && fromProofValid && toProofValid;
-    }
-    
-    function computeCorrectPostState(FraudProof memory proof, TransactionLib.Account memory correctFromAccount, TransactionLib.Account memory correctToAccount) internal pure returns (bytes32) {
-        // create arrays with updated accounts
-        address[] memory accounts = new address[](2);
-        TransactionLib.Account[] memory accountData = new TransactionLib.Account[](2);
-        
-        // sorting by account for deterministic ordering
-        if (proof.transaction.from < proof.transaction.to) {
-            accounts[0] = proof.transaction.from;
-            accounts[1] = proof.transaction.to;
-            accountData[0] = correctFromAccount;
-            accountData[1] = correctToAccount;
-        } else {
-            accounts[0] = proof.transaction.to;
-            accounts[1] = proof.transaction.from;
-            accountData[0] = correctToAccount;
-            accountData[1] = correctFromAccount;
-        }
-        
-        return StateLib.computeStateRoot(accounts, accountData);
+    // the sender's & recipient's leaves are already folded into the root the fee recipient's proof was checked against,
+    // so crediting the fee along its path gives the full post-state root
+    function computeCorrectPostState(FraudProof memory proof) internal pure returns (bytes32) {
+        return StateLib.computeUpdatedRoot(proof.feeRecipientProof, TransactionLib.creditFee(proof.feeRecipientProof.accountData, proof.transaction.token, proof.transaction.fee));
     }
     
     function createFraudProof(
@@ -177,17 +196,15 @@ library FraudProofLib {
         bytes32 claimedPostStateRoot,
         StateLib.StateProof memory fromAccountProof,
         StateLib.StateProof memory toAccountProof,
-        StateLib.StateProof memory claimedFromAccountProof,
-        StateLib.StateProof memory claimedToAccountProof,
+        StateLib.StateProof memory feeRecipientProof,
         MerkleLib.MerkleProof memory transactionMerkleProof
     ) internal pure returns (FraudProof memory) {
         return FraudProof({
             transaction: transaction,
             fromAccountProof: fromAccountProof,
             toAccountProof: toAccountProof,
+            feeRecipientProof: feeRecipientProof,
             claimedPostStateRoot: claimedPostStateRoot,
-            claimedFromAccountProof: claimedFromAccountProof,
-            claimedToAccountProof: claimedToAccountProof,
             preStateRoot: preStateRoot,
             transactionIndex: transactionIndex,
             transactionRoot: transactionRoot,
@@ -200,13 +217,14 @@ library FraudProofLib {
         TransactionLib.Account memory preFromAccount,
         TransactionLib.Account memory preToAccount,
         TransactionLib.Account memory claimedFromAccount,
-        TransactionLib.Account memory claimedToAccount
+        TransactionLib.Account memory claimedToAccount,
+        bytes32 domain
     ) internal pure returns (bool isValid, string memory reason) {
         (
             TransactionLib.Account memory correctFromAccount,
             TransactionLib.Account memory correctToAccount,
             TransactionLib.TransactionResult result
-        ) = TransactionLib.execute(transaction, preFromAccount, preToAccount);
+        ) = TransactionLib.execute(transaction, preFromAccount, preToAccount, domain);
         
         if (result != TransactionLib.TransactionResult.SUCCESS) {
             return (false, "Transaction should have failed");
@@ -230,7 +248,8 @@ library FraudProofLib {
         TransactionLib.Transaction[] memory transactions, 
         //bytes32 preStateRoot, bytes32 claimedPostStateRoot, 
         address[] memory affectedAccounts, TransactionLib.Account[] memory preAccountStates, 
-        TransactionLib.Account[] memory claimedPostAccountStates
+        TransactionLib.Account[] memory claimedPostAccountStates,
+        bytes32 domain
     ) internal pure returns (bool isValid, uint256 firstFraudIndex) {
         require(
             affectedAccounts.length == preAccountStates.length &&
@@ -264,7 +283,7 @@ library FraudProofLib {
                 TransactionLib.Account memory newFromAccount,
                 TransactionLib.Account memory newToAccount,
                 TransactionLib.TransactionResult result
-            ) = TransactionLib.execute(txn, currentState[fromIndex], currentState[toIndex]);
+            ) = TransactionLib.execute(txn, currentState[fromIndex], currentState[toIndex], domain);
             
             if (result != TransactionLib.TransactionResult.SUCCESS) {
                 return (false, i); // Transaction should have failed
@@ -4,7 +4,7 @@ pragma solidity ^0.8.26;
 library MerkleLib {
     struct MerkleProof {
         bytes32[] proof;
-        uint256 index;
+        uint256 index; // left/right path bits, one per proof element. same as leaf index unless an odd node got promoted
     }
 
     function hashPair(bytes32 left, bytes32 right) internal pure returns (bytes32) {
@@ -64,12 +64,15 @@ library MerkleLib {
         for (uint256 i = 0; i < leaves.length; i++) currentLevel[i] = leaves[i];
         
         uint256 currentIndex = leafIndex;
+        uint256 pathIndex = 0;
         
         while (currentLevel.length > 1) {
             uint256 siblingIndex = getSiblingIndex(currentIndex);
             
+            // promoted nodes have no sibling, so they get no proof element & no path bit
             if (siblingIndex < currentLevel.length) {
                 proof[proofIndex] = currentLevel[siblingIndex];
+                pathIndex |= (currentIndex & 1) << proofIndex;
                 proofIndex++;
             }
             
@@ -98,10 +101,24 @@ library MerkleLib {
         
         return MerkleProof({
             proof: finalProof,
-            index: leafIndex
+            index: pathIndex
         });
     }
 
+    // path bits & proof length generateProof produces for a leaf, so a proof can be pinned to a position
+    function getLeafPath(uint256 leafIndex, uint256 numLeaves) internal pure returns (uint256 path, uint256 depth) {
+        require(leafIndex < numLeaves, "Leaf index out of bounds");
+        while (numLeaves > 1) {
+            // promoted nodes have no sibling, so they get no proof element & no path bit
+            if (getSiblingIndex(leafIndex) < numLeaves) {
+                path |= (leafIndex & 1) << depth;
+                depth++;
+            }
+            leafIndex >>= 1;
+            numLeaves = (numLeaves + 1) / 2;
+        }
+    }
+
     function verifyMultiProof(bytes32[] memory leaves, bytes32 root, MerkleProof[] memory proofs) internal pure returns (bool) {
         require(leaves.length == proofs.length, "Leaves and proofs length mismatch");
         for (uint256 i = 0; i < leaves.length; i++) {
@@ -8,11 +8,15 @@ library StateLib {
     using TransactionLib for TransactionLib.Transaction;
     using MerkleLib for bytes32[];
 
+    // sparse merkle tree keyed by uint160(account). leaves sit at height 0, the root at TREE_DEPTH.
+    // an empty leaf is zero & an empty subtree one level up hashes two empty children
+    uint256 internal constant TREE_DEPTH = 160;
+
     struct StateProof {
         address account;
-        TransactionLib.Account accountData;
-        MerkleLib.MerkleProof merkleProof;
-        uint256 accountIndex;
+        TransactionLib.Account accountData; // all zero proves the account isn't in the tree
+        bytes32[] siblings; // non-empty siblings, leaf level first
+        uint256 bitmap; // bit h set if the sibling at height h is in siblings, otherwise it's an empty subtree
     }
     
     struct StateTransition {
@@ -32,16 +36,55 @@ library StateLib {
             require(accounts[i] > accounts[i-1], "Accounts not sorted");
         }
         
-        // make account leaves for merkle tree
+        // make account leaves for the tree
         bytes32[] memory leaves = new bytes32[](accounts.length);
         for (uint256 i = 0; i < accounts.length; i++) {
-            leaves[i] = hashAccount(accounts[i], accountData[i]);
+            leaves[i] = hashLeaf(accounts[i], accountData[i]);
         }
         
-        return MerkleLib.computeRoot(leaves);
+        return subtreeRoot(accounts, leaves, 0, accounts.length, TREE_DEPTH);
+    }
+
+    // root of an empty state
+    function emptyRoot() internal pure returns (bytes32 root) {
+        for (uint256 h = 0; h < TREE_DEPTH; h++) root = MerkleLib.hashPair(root, root);
+    }
+
+    // root of the subtree at `height` holding the sorted accounts[lo..hi), which all share the bits above height
+    function subtreeRoot(address[] memory accounts, bytes32[] memory leaves, uint256 lo, uint256 hi, uint256 height) internal pure returns (bytes32) {
+        if (lo == hi) return emptySubtree(height);
+        if (hi - lo == 1) return climb(leaves[lo], uint160(accounts[lo]), 0, height);
+
+        // sorted, so the first & last account share exactly the prefix all of them share. split where they diverge
+        uint256 splitHeight = height - 1;
+        uint160 first = uint160(accounts[lo]);
+        while ((first >> splitHeight) & 1 == (uint160(accounts[hi - 1]) >> splitHeight) & 1) splitHeight--;
+        uint256 mid = lo;
+        while ((uint160(accounts[mid]) >> splitHeight) & 1 == 0) mid++;
+
+        bytes32 node = MerkleLib.hashPair(
+            subtreeRoot(accounts, leaves, lo, mid, splitHeight),
+            subtreeRoot(accounts, leaves, mid, hi, splitHeight)
+        );
+        return climb(node, first, splitHeight + 1, height);
     }
 
-    function applyTransaction(TransactionLib.Transaction memory txn, mapping(address => TransactionLib.Account) storage state) 
+    // hashes a node up from one height to another with nothing but empty subtrees next to it
+    function climb(bytes32 node, uint160 key, uint256 fromHeight, uint256 toHeight) internal pure returns (bytes32) {
+        bytes32 empty = emptySubtree(fromHeight);
+        for (uint256 h = fromHeight; h < toHeight; h++) {
+            node = (key >> h) & 1 == 0 ? MerkleLib.hashPair(node, empty) : MerkleLib.hashPair(empty, node);
+            empty = MerkleLib.hashPair(empty, empty);
+        }
+        return node;
+    }
+
+    function emptySubtree(uint256 height) internal pure returns (bytes32 root) {
+        for (uint256 h = 0; h < height; h++) root = MerkleLib.hashPair(root, root);
+    }
+
+    // the fee is credited to feeRecipient after the transfer, so it sees the sender's or recipient's updated account if it's one of them
+    function applyTransaction(TransactionLib.Transaction memory txn, address feeRecipient, mapping(address => TransactionLib.Account) storage state, bytes32 domain) 
         internal returns (TransactionLib.TransactionResult) 
     {
         TransactionLib.Account memory fromAccount = state[txn.from];
@@ -51,24 +94,25 @@ library StateLib {
             TransactionLib.Account memory newFromAccount,
             TransactionLib.Account memory newToAccount,
             TransactionLib.TransactionResult result
-        ) = TransactionLib.execute(txn, fromAccount, toAccount);
+        ) = TransactionLib.execute(txn, fromAccount, toAccount, domain);
         
         if (result == TransactionLib.TransactionResult.SUCCESS) {
             state[txn.from] = newFromAccount;
             state[txn.to] = newToAccount;
+            state[feeRecipient] = TransactionLib.creditFee(state[feeRecipient], txn.token, txn.fee);
         }
         
         return result;
     }
 
-    function applyTransactionBatch(TransactionLib.Transaction[] memory transactions, mapping(address => TransactionLib.Account) storage state) 
+    function applyTransactionBatch(TransactionLib.Transaction[] memory transactions, address feeRecipient, mapping(address => TransactionLib.Account) storage state, bytes32 domain) 
         internal returns (uint256 successCount, uint256 failureCount) 
     {
         successCount = 0;
         failureCount = 0;
         
         for (uint256 i = 0; i < transactions.length; i++) {
-            TransactionLib.TransactionResult result = applyTransaction(transactions[i], state);
+            TransactionLib.TransactionResult result = applyTransaction(transactions[i], feeRecipient, state, domain);
             if (result == TransactionLib.TransactionResult.SUCCESS) {
                 successCount++;
             } else {
@@ -77,46 +121,79 @@ library StateLib {
         }
     }
 
+    // works for accounts outside the state too, giving a non-inclusion proof
     function generateAccountProof(address targetAccount,address[] memory accounts,TransactionLib.Account[] memory accountData,bytes32 expectedStateRoot) 
-        internal pure returns (StateProof memory) 
+        internal pure returns (StateProof memory proof) 
     {
         require(accounts.length == accountData.length, "Array length mismatch");
         
-        // find target index
-        uint256 accountIndex = type(uint256).max;
-        for (uint256 i = 0; i < accounts.length; i++) {
-            if (accounts[i] == targetAccount) {
-                accountIndex = i;
-                break;
-            }
-        }
-        require(accountIndex != type(uint256).max, "Account not found");
-        
         // create leaves
         bytes32[] memory leaves = new bytes32[](accounts.length);
         for (uint256 i = 0; i < accounts.length; i++) {
-            leaves[i] = hashAccount(accounts[i], accountData[i]);
+            leaves[i] = hashLeaf(accounts[i], accountData[i]);
+            if (accounts[i] == targetAccount) proof.accountData = accountData[i];
         }
         
         // verify state root matches
-        bytes32 computedRoot = MerkleLib.computeRoot(leaves);
-        require(computedRoot == expectedStateRoot, "State root mismatch");
+        require(subtreeRoot(accounts, leaves, 0, accounts.length, TREE_DEPTH) == expectedStateRoot, "State root mismatch");
         
-        MerkleLib.MerkleProof memory merkleProof = MerkleLib.generateProof(leaves, accountIndex);
-        return StateProof({
-            account: targetAccount,
-            accountData: accountData[accountIndex],
-            merkleProof: merkleProof,
-            accountIndex: accountIndex
-        });
+        proof.account = targetAccount;
+        proof.siblings = new bytes32[](TREE_DEPTH);
+        uint256 count = 0;
+        uint160 key = uint160(targetAccount);
+        bytes32 empty = bytes32(0);
+        for (uint256 h = 0; h < TREE_DEPTH; h++) {
+            // accounts in the sibling subtree: same bits above h, other side at h. contiguous since sorted
+            uint160 siblingPrefix = ((key >> h) ^ 1);
+            uint256 lo = 0;
+            while (lo < accounts.length && (uint160(accounts[lo]) >> h) < siblingPrefix) lo++;
+            uint256 hi = lo;
+            while (hi < accounts.length && (uint160(accounts[hi]) >> h) == siblingPrefix) hi++;
+
+            // subtrees of only empty accounts are left out too, so every state has one proof per account
+            bytes32 sibling = lo == hi ? empty : subtreeRoot(accounts, leaves, lo, hi, h);
+            if (sibling != empty) {
+                proof.siblings[count++] = sibling;
+                proof.bitmap |= uint256(1) << h;
+            }
+            empty = MerkleLib.hashPair(empty, empty);
+        }
+
+        // trim to the siblings actually used
+        bytes32[] memory siblings = proof.siblings;
+        assembly { mstore(siblings, count) }
     }
     
     function verifyAccountProof(StateProof memory proof, bytes32 stateRoot) internal pure returns (bool) {
-        bytes32 accountLeaf = hashAccount(proof.account, proof.accountData);
-        return MerkleLib.verifyProof(accountLeaf, stateRoot, proof.merkleProof);
+        (bytes32 root, bool valid) = computeRoot(proof, proof.accountData);
+        return valid && root == stateRoot;
+    }
+
+    // root the proof's tree has with the account's leaf set to accountData, everything else unchanged.
+    // only meaningful after the proof was checked with verifyAccountProof
+    function computeUpdatedRoot(StateProof memory proof, TransactionLib.Account memory accountData) internal pure returns (bytes32 root) {
+        (root, ) = computeRoot(proof, accountData);
+    }
+
+    // valid is false for proofs carrying siblings their bitmap doesn't use
+    function computeRoot(StateProof memory proof, TransactionLib.Account memory accountData) internal pure returns (bytes32 node, bool valid) {
+        node = hashLeaf(proof.account, accountData);
+        bytes32 empty = bytes32(0);
+        uint160 key = uint160(proof.account);
+        uint256 used = 0;
+        for (uint256 h = 0; h < TREE_DEPTH; h++) {
+            bytes32 sibling = empty;
+            if ((proof.bitmap >> h) & 1 == 1) {
+                if (used == proof.siblings.length) return (bytes32(0), false);
+                sibling = proof.siblings[used++];
+            }
+            node = (key >> h) & 1 == 0 ? MerkleLib.hashPair(node, sibling) : MerkleLib.hashPair(sibling, node);
+            empty = MerkleLib.hashPair(empty, empty);
+        }
+        valid = used == proof.siblings.length;
     }
     
-    function verifyStateTransition(StateTransition memory transition) internal pure returns (bool) {
+    function verifyStateTransition(StateTransition memory transition, bytes32 domain) internal pure returns (bool) {
         require(
             transition.affectedAccounts.length == transition.preAccountStates.length &&
             transition.preAccountStates.length == transition.postAccountStates.length,
@@ -143,7 +220,7 @@ library StateLib {
                 TransactionLib.Account memory newFromAccount,
                 TransactionLib.Account memory newToAccount,
                 TransactionLib.TransactionResult result
-            ) = TransactionLib.execute(txn, transition.preAccountStates[fromIndex],transition.preAccountStates[toIndex]);
+            ) = TransactionLib.execute(txn, transition.preAccountStates[fromIndex],transition.preAccountStates[toIndex], domain);
             
             if (result != TransactionLib.TransactionResult.SUCCESS) {
                 return false;
@@ -166,7 +243,13 @@ library StateLib {
     }
 
     function hashAccount(address account,TransactionLib.Account memory accountData) internal pure returns (bytes32) {
-        return keccak256(abi.encode(account, accountData.balance, accountData.nonce));
+        return keccak256(abi.encode(account, accountData.balance, accountData.nonce, accountData.tokenBalances, accountData.nfts));
+    }
+
+    // untouched accounts are empty leaves, so adding one doesn't change any other proof
+    function hashLeaf(address account, TransactionLib.Account memory accountData) internal pure returns (bytes32) {
+        if (accountData.balance == 0 && accountData.nonce == 0 && accountData.tokenBalances.length == 0 && accountData.nfts.length == 0) return bytes32(0);
+        return hashAccount(account, accountData);
     }
 
     function findAccountIndices(address from, address to, address[] memory affectedAccounts) internal pure returns (uint256 fromIndex, uint256 toIndex) {
@@ -246,9 +329,12 @@ library StateLib {
         }
     }
 
+    // ETH fees only, fees paid in tokens aren't counted
     function calculateFeesCollected(TransactionLib.Transaction[] memory transactions) internal pure returns (uint256 totalFees) {
         totalFees = 0;
-        for (uint256 i = 0; i < transactions.length; i++) totalFees += transactions[i].fee;
+        for (uint256 i = 0; i < transactions.length; i++) {
+            if (transactions[i].token == TransactionLib.ETH) totalFees += transactions[i].fee;
+        }
     }
 
 }
\ No newline at end of file
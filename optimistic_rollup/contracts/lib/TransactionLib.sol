@@ -1,34 +1,62 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.26;
 
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
 library TransactionLib {
     struct Transaction {
         address from;
         address to;
+        uint256 token; // ETH, or the id OptimisticRollup registered the ERC-20 under
+        uint256 nft; // 0 for a token transfer, otherwise the L2 id of the NFT it moves & amount is 0
         uint256 amount;
         uint256 nonce;
-        uint256 fee;
+        uint256 fee; // paid in the same token as amount
+        bytes data; // empty for a transfer, otherwise the calldata of a message to L1 address `to`, see Message
         bytes signature;
     }
 
+    // what a tx with data sends to L1. its amount leaves L2 with it & goes to target when the message is relayed.
+    // the sender's nonce tells otherwise identical messages apart
+    struct Message {
+        address sender;
+        address target;
+        uint256 value;
+        uint256 nonce;
+        bytes data;
+    }
+
     struct Account {
         uint256 balance; // l2 eth balance
         uint256 nonce; // tx counter
+        uint256[] tokenBalances; // by token id - 1, never with trailing zeros so an account has only one encoding
+        uint256[] nfts; // L2 ids of the NFTs it owns, ascending for the same reason
     }
 
+    uint256 internal constant ETH = 0; // token id of ether, everything else is an ERC-20
+
     enum TransactionResult {
         SUCCESS,
         INSUFFICIENT_BALANCE,
         INVALID_NONCE,
-        INVALID_SIGNATURE
+        INVALID_SIGNATURE,
+        NFT_NOT_OWNED
     }
 
     bytes32 private constant TRANSACTION_TYPEHASH = keccak256(
-        "Transaction(address from,address to,uint256 amount,uint256 nonce,uint256 fee)"
+        "Transaction(address from,address to,uint256 token,uint256 nft,uint256 amount,uint256 nonce,uint256 fee,bytes data)"
+    );
+
+    // eip-712 domain: a signature is only good for one rollup deployment on one chain
+    bytes32 private constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
     );
+    bytes32 private constant DOMAIN_NAME_HASH = keccak256("OptimisticRollup");
+    bytes32 private constant DOMAIN_VERSION_HASH = keccak256("1");
 
+    // the signature is part of the encoding, so a batch carries what's needed to check it
     function serialize(Transaction memory txn) internal pure returns (bytes memory) {
-        return abi.encode(txn.from, txn.to, txn.amount, txn.nonce, txn.fee);
+        return abi.encode(txn.from, txn.to, txn.token, txn.nft, txn.amount, txn.nonce, txn.fee, txn.data, txn.signature);
     }
 
     function serializeBatch(Transaction[] memory transactions) internal pure returns (bytes32[] memory leaves) {
@@ -40,14 +68,18 @@ library TransactionLib {
     }
 
     function deserialize(bytes memory data) internal pure returns (Transaction memory) {
-        (address from, address to, uint256 amount, uint256 nonce, uint256 fee) = abi.decode(data, (address, address, uint256, uint256, uint256));
+        (address from, address to, uint256 token, uint256 nft, uint256 amount, uint256 nonce, uint256 fee, bytes memory txData, bytes memory signature) =
+            abi.decode(data, (address, address, uint256, uint256, uint256, uint256, uint256, bytes, bytes));
         return Transaction({
             from: from,
             to: to,
+            token: token,
+            nft: nft,
             amount: amount,
             nonce:nonce,
             fee: fee,
-            signature: new bytes(0) //set separately
+            data: txData,
+            signature: signature
         });
     }
 
@@ -56,77 +88,147 @@ library TransactionLib {
             TRANSACTION_TYPEHASH, 
             txn.from,
             txn.to,
+            txn.token,
+            txn.nft,
             txn.amount,
             txn.nonce,
-            txn.fee
+            txn.fee,
+            keccak256(txn.data)
         ));
     } 
 
-    // todo: will this need updating to work with eip-191 and eip-712?
-    function verifySignature(Transaction memory txn) internal pure returns (bool) {
-        if (txn.signature.length != 65) return false;
+    function domainSeparator(uint256 chainId, address rollup) internal pure returns (bytes32) {
+        return keccak256(abi.encode(DOMAIN_TYPEHASH, DOMAIN_NAME_HASH, DOMAIN_VERSION_HASH, chainId, rollup));
+    }
 
-        bytes32 txnHash = hash(txn);
-        bytes32 ethSignedMessageHash = keccak256(abi.encodePacked("\x19Ethereum Signed Message:\n32", txnHash));
-        
-        bytes32 r;
-        bytes32 s;
-        uint8 v;
-
-        bytes memory sig = txn.signature;
-        assembly {
-        r := mload(add(sig, 32))
-        s := mload(add(sig, 64))
-        v := byte(0, mload(add(sig, 96)))
-        }
-        address recoveredSigner = ecrecover(ethSignedMessageHash, v, r, s);
-        return ((recoveredSigner==txn.from) && (recoveredSigner != address(0)));
-}
+    // what the sender signs with eth_signTypedData_v4
+    function digest(Transaction memory txn, bytes32 domain) internal pure returns (bytes32) {
+        return keccak256(abi.encodePacked("\x19\x01", domain, hash(txn)));
+    }
+
+    // 65-byte signatures with v of 27 or 28 & a low s, anything else is invalid
+    function verifySignature(Transaction memory txn, bytes32 domain) internal pure returns (bool) {
+        (address recoveredSigner, ECDSA.RecoverError error) = ECDSA.tryRecover(digest(txn, domain), txn.signature);
+        return error == ECDSA.RecoverError.NoError && recoveredSigner == txn.from;
+    }
 
     function validate(Transaction memory txn) internal pure returns(bool) {
         return( 
             txn.from != address(0)
             && txn.to != address(0)
             && txn.from != txn.to
-            && txn.amount > 0
+            // messages carry ETH only, & may carry none of it
+            && (txn.data.length > 0 ? txn.token == ETH && txn.nft == 0 : txn.nft == 0 ? txn.amount > 0 : txn.amount == 0)
             && txn.fee >= 0
         );
     }
 
-    function execute(Transaction memory txn, Account memory fromAcct, Account memory toAcct) internal pure 
+    // domain is the executing rollup's domainSeparator
+    function execute(Transaction memory txn, Account memory fromAcct, Account memory toAcct, bytes32 domain) internal pure 
         returns (Account memory newFromAcct, Account memory newToAcct, TransactionResult result) 
     {
-        if (!validate(txn)) 
+        if (!validate(txn) || !verifySignature(txn, domain)) 
             return (fromAcct, toAcct, TransactionResult.INVALID_SIGNATURE);
 
         if (txn.nonce != fromAcct.nonce) 
             return (fromAcct, toAcct, TransactionResult.INVALID_NONCE);
     
-        uint256 totalCost = txn.amount + txn.fee;
-        if (fromAcct.balance < totalCost) 
+        uint256 fromBalance = balanceOf(fromAcct, txn.token);
+        if (!covers(fromBalance, txn)) 
             return (fromAcct, toAcct, TransactionResult.INSUFFICIENT_BALANCE);
+        uint256 totalCost = txn.amount + txn.fee;
+
+        if (txn.nft != 0 && !ownsNft(fromAcct, txn.nft))
+            return (fromAcct, toAcct, TransactionResult.NFT_NOT_OWNED);
 
         // execute 
-        newFromAcct = Account({
-            balance: fromAcct.balance - totalCost,
-            nonce: fromAcct.nonce + 1
-        });
-        
-        newToAcct = Account({
-            balance: toAcct.balance + txn.amount,
-            nonce: toAcct.nonce
-        });
+        newFromAcct = withBalance(fromAcct, txn.token, fromBalance - totalCost);
+        newFromAcct.nonce = fromAcct.nonce + 1;
+        // a message's amount leaves L2, `to` is its L1 target
+        newToAcct = isMessage(txn) ? toAcct : withBalance(toAcct, txn.token, balanceOf(toAcct, txn.token) + txn.amount);
+        if (txn.nft != 0) {
+            newFromAcct.nfts = withoutNft(fromAcct.nfts, txn.nft);
+            newToAcct.nfts = withNft(toAcct.nfts, txn.nft);
+        }
         
         return (newFromAcct, newToAcct, TransactionResult.SUCCESS);
     }
 
-    function canExecute(Transaction memory txn,Account memory fromAccount) internal pure returns (bool) {
-        if (!validate(txn)) return false;
+    function canExecute(Transaction memory txn,Account memory fromAccount, bytes32 domain) internal pure returns (bool) {
+        if (!validate(txn) || !verifySignature(txn, domain)) return false;
         if (txn.nonce != fromAccount.nonce) return false;
-        if (fromAccount.balance < txn.amount + txn.fee) return false;
+        if (!covers(balanceOf(fromAccount, txn.token), txn)) return false;
+        if (txn.nft != 0 && !ownsNft(fromAccount, txn.nft)) return false;
         return true;
     }
 
+    // balance >= amount + fee without computing the sum, a signed tx can make it overflow & a panic here would
+    // make the step it's in unprovable
+    function covers(uint256 balance, Transaction memory txn) internal pure returns (bool) {
+        return balance >= txn.amount && balance - txn.amount >= txn.fee;
+    }
+
+    // the fee goes to the block's fee recipient once the transfer itself is applied
+    function creditFee(Account memory feeRecipient, uint256 token, uint256 fee) internal pure returns (Account memory) {
+        return withBalance(feeRecipient, token, balanceOf(feeRecipient, token) + fee);
+    }
+
+    // an inbox entry credited to its user's account. nft is 0 for ETH & ERC-20 deposits
+    function creditDeposit(Account memory account, uint256 token, uint256 nft, uint256 amount) internal pure returns (Account memory updated) {
+        updated = withBalance(account, token, balanceOf(account, token) + amount);
+        if (nft != 0) updated.nfts = withNft(account.nfts, nft);
+    }
+
+    function balanceOf(Account memory account, uint256 token) internal pure returns (uint256) {
+        if (token == ETH) return account.balance;
+        return token <= account.tokenBalances.length ? account.tokenBalances[token - 1] : 0;
+    }
+
+    // copy of account with its balance of token set. the copy gets its own tokenBalances, trimmed
+    function withBalance(Account memory account, uint256 token, uint256 balance) internal pure returns (Account memory updated) {
+        updated.balance = token == ETH ? balance : account.balance;
+        updated.nonce = account.nonce;
+        updated.nfts = account.nfts;
+
+        uint256 length = account.tokenBalances.length;
+        if (token != ETH && token > length && balance != 0) length = token;
+        uint256[] memory tokenBalances = new uint256[](length);
+        for (uint256 i = 0; i < account.tokenBalances.length; i++) tokenBalances[i] = account.tokenBalances[i];
+        if (token != ETH && token <= length) tokenBalances[token - 1] = balance;
+
+        while (length > 0 && tokenBalances[length - 1] == 0) length--;
+        assembly { mstore(tokenBalances, length) }
+        updated.tokenBalances = tokenBalances;
+    }
+
+    function ownsNft(Account memory account, uint256 nft) internal pure returns (bool) {
+        for (uint256 i = 0; i < account.nfts.length; i++) {
+            if (account.nfts[i] == nft) return true;
+        }
+        return false;
+    }
+
+    // nfts with nft inserted in order, as a new array. nfts itself if it's already in there
+    function withNft(uint256[] memory nfts, uint256 nft) internal pure returns (uint256[] memory updated) {
+        uint256 at = 0;
+        while (at < nfts.length && nfts[at] < nft) at++;
+        if (at < nfts.length && nfts[at] == nft) return nfts;
+
+        updated = new uint256[](nfts.length + 1);
+        for (uint256 i = 0; i < nfts.length; i++) updated[i < at ? i : i + 1] = nfts[i];
+        updated[at] = nft;
+    }
+
+    // nfts without nft, a new array
+    function withoutNft(uint256[] memory nfts, uint256 nft) internal pure returns (uint256[] memory updated) {
+        updated = new uint256[](nfts.length);
+        uint256 length = 0;
+        for (uint256 i = 0; i < nfts.length; i++) {
+            if (nfts[i] != nft) updated[length++] = nfts[i];
+        }
+        assembly { mstore(updated, length) }
+    }
+
     function getExecutionCost(Transaction memory txn) internal pure returns (uint256) {
         return txn.amount + txn.fee;
     }
@@ -135,4 +237,17 @@ library TransactionLib {
         return keccak256(serialize(txn));
     }
 
+    function isMessage(Transaction memory txn) internal pure returns (bool) {
+        return txn.data.length > 0;
+    }
+
+    function toMessage(Transaction memory txn) internal pure returns (Message memory) {
+        return Message({ sender: txn.from, target: txn.to, value: txn.amount, nonce: txn.nonce, data: txn.data });
+    }
+
+    // a block's message root is the MerkleLib root over these, in batch order
+    function getMessageLeaf(Message memory message) internal pure returns (bytes32) {
+        return keccak256(abi.encode(message));
+    }
+
 }
\ No newline at end of file
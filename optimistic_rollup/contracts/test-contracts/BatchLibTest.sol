@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import "../lib/BatchLib.sol";
+
+contract BatchLibTest {
+
+    function decode(bytes calldata batch) external pure returns (TransactionLib.Transaction[] memory) {
+        return BatchLib.decode(batch);
+    }
+
+    // what submitRollupBlock checks the tx root against
+    function getMerkleLeaves(bytes calldata batch) external pure returns (bytes32[] memory) {
+        return TransactionLib.serializeBatch(BatchLib.decode(batch));
+    }
+}
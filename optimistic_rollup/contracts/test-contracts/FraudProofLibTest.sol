@@ -8,8 +8,13 @@ import "../lib/StateLib.sol";
 
 contract FraudProofLibTest {
     
-    function verifyFraudProof(FraudProofLib.FraudProof memory proof) external pure returns (FraudProofLib.FraudResult memory) {
-        return FraudProofLib.verifyFraudProof(proof);
+    // txs are checked as if this harness were the rollup
+    function domainSeparator() public view returns (bytes32) {
+        return TransactionLib.domainSeparator(block.chainid, address(this));
+    }
+
+    function verifyFraudProof(FraudProofLib.FraudProof memory proof) external view returns (FraudProofLib.FraudResult memory) {
+        return FraudProofLib.verifyFraudProof(proof, domainSeparator());
     }
     
     function verifyTransactionInclusion(FraudProofLib.FraudProof memory proof) external pure returns (bool) {
@@ -20,12 +25,8 @@ contract FraudProofLibTest {
         return FraudProofLib.verifyPreStateProofs(proof);
     }
     
-    function verifyPostStateProofs(FraudProofLib.FraudProof memory proof, TransactionLib.Account memory correctFromAccount, TransactionLib.Account memory correctToAccount) external pure returns (bool) {
-        return FraudProofLib.verifyPostStateProofs(proof, correctFromAccount, correctToAccount);
-    }
-    
-    function computeCorrectPostState(FraudProofLib.FraudProof memory proof, TransactionLib.Account memory correctFromAccount, TransactionLib.Account memory correctToAccount) external pure returns (bytes32) {
-        return FraudProofLib.computeCorrectPostState(proof, correctFromAccount, correctToAccount);
+    function computeCorrectPostState(FraudProofLib.FraudProof memory proof) external pure returns (bytes32) {
+        return FraudProofLib.computeCorrectPostState(proof);
     }
     
     function createFraudProof(
@@ -36,8 +37,7 @@ contract FraudProofLibTest {
         bytes32 claimedPostStateRoot,
         StateLib.StateProof memory fromAccountProof,
         StateLib.StateProof memory toAccountProof,
-        StateLib.StateProof memory claimedFromAccountProof,
-        StateLib.StateProof memory claimedToAccountProof,
+        StateLib.StateProof memory feeRecipientProof,
         MerkleLib.MerkleProof memory transactionMerkleProof
     ) external pure returns (FraudProofLib.FraudProof memory) {
         return FraudProofLib.createFraudProof(
@@ -48,8 +48,7 @@ contract FraudProofLibTest {
             claimedPostStateRoot,
             fromAccountProof,
             toAccountProof,
-            claimedFromAccountProof,
-            claimedToAccountProof,
+            feeRecipientProof,
             transactionMerkleProof
         );
     }
@@ -60,28 +59,18 @@ contract FraudProofLibTest {
         TransactionLib.Account memory preToAccount,
         TransactionLib.Account memory claimedFromAccount,
         TransactionLib.Account memory claimedToAccount
-    ) external pure returns (bool isValid, string memory reason) {
-        return FraudProofLib.verifyTransactionExecution(transaction,preFromAccount, preToAccount,claimedFromAccount,claimedToAccount);
+    ) external view returns (bool isValid, string memory reason) {
+        return FraudProofLib.verifyTransactionExecution(transaction,preFromAccount, preToAccount,claimedFromAccount,claimedToAccount, domainSeparator());
     }
 
-    // TODO: fix this    
-    // function verifyBatchExecution(
-    //     TransactionLib.Transaction[] memory transactions,
-    //     bytes32 preStateRoot,
-    //     bytes32 claimedPostStateRoot,
-    //     address[] memory affectedAccounts,
-    //     TransactionLib.Account[] memory preAccountStates,
-    //     TransactionLib.Account[] memory claimedPostAccountStates
-    // ) external pure returns (bool isValid, uint256 firstFraudIndex) {
-    //     return FraudProofLib.verifyBatchExecution(
-    //         transactions,
-    //         preStateRoot,
-    //         claimedPostStateRoot,
-    //         affectedAccounts,
-    //         preAccountStates,
-    //         claimedPostAccountStates
-    //     );
-    // }
+    function verifyBatchExecution(
+        TransactionLib.Transaction[] memory transactions,
+        address[] memory affectedAccounts,
+        TransactionLib.Account[] memory preAccountStates,
+        TransactionLib.Account[] memory claimedPostAccountStates
+    ) external view returns (bool isValid, uint256 firstFraudIndex) {
+        return FraudProofLib.verifyBatchExecution(transactions, affectedAccounts, preAccountStates, claimedPostAccountStates, domainSeparator());
+    }
     
     function getFraudTypeDescription(FraudProofLib.FraudType fraudType) external pure returns (string memory) {
         return FraudProofLib.getFraudTypeDescription(fraudType);
@@ -92,29 +81,31 @@ contract FraudProofLibTest {
         return TransactionLib.Transaction({
             from: from,
             to: to,
+            token: TransactionLib.ETH,
+            nft: 0,
             amount: amount,
             nonce: nonce,
             fee: fee,
+            data: new bytes(0),
             signature: new bytes(0)
         });
     }
     
     function createAccount(uint256 balance, uint256 nonce) external pure returns (TransactionLib.Account memory) {
-        return TransactionLib.Account({balance: balance,nonce: nonce});
+        return ethAccount(balance, nonce);
     }
     
     function createStateProof(
         address account,
         TransactionLib.Account memory accountData,
-        bytes32[] memory proof,
-        uint256 index,
-        uint256 accountIndex
+        bytes32[] memory siblings,
+        uint256 bitmap
     ) external pure returns (StateLib.StateProof memory) {
         return StateLib.StateProof({
             account: account,
             accountData: accountData,
-            merkleProof: MerkleLib.MerkleProof({proof: proof,index: index}),
-            accountIndex: accountIndex
+            siblings: siblings,
+            bitmap: bitmap
         });
     }
     
@@ -122,69 +113,70 @@ contract FraudProofLibTest {
         return MerkleLib.MerkleProof({proof: proof,index: index});
     }
     
-    // integrated helpers
+    struct Scenario {
+        bytes32 preStateRoot;
+        bytes32 correctPostStateRoot;
+        TransactionLib.Transaction transaction;
+        StateLib.StateProof user1PreProof;
+        StateLib.StateProof user2PreProof;
+        StateLib.StateProof feeRecipientPreProof;
+    }
+
+    // integrated helpers. signature is user1's over the transfer, for whichever rollup the proof goes to.
+    // feeRecipient starts out empty & gets the fee
     function setupCompleteScenario(
         address user1,
         address user2,
+        address feeRecipient,
         uint256 user1Balance,
         uint256 user2Balance,
         uint256 transferAmount,
-        uint256 fee
-    ) external pure returns (
-        bytes32 preStateRoot,
-        bytes32 correctPostStateRoot,
-        TransactionLib.Transaction memory transaction,
-        StateLib.StateProof memory user1PreProof,
-        StateLib.StateProof memory user2PreProof
-    ) {
-        // create & sort accounts
-        address[] memory accounts = new address[](2);
-        TransactionLib.Account[] memory accountData = new TransactionLib.Account[](2);
-        if (user1 < user2) {
-            accounts[0] = user1;
-            accounts[1] = user2;
-            accountData[0] = TransactionLib.Account(user1Balance, 0);
-            accountData[1] = TransactionLib.Account(user2Balance, 0);
-        } else {
-            accounts[0] = user2;
-            accounts[1] = user1;
-            accountData[0] = TransactionLib.Account(user2Balance, 0);
-            accountData[1] = TransactionLib.Account(user1Balance, 0);
-        }
-        
-        // Compute pre-state root
-        preStateRoot = StateLib.computeStateRoot(accounts, accountData);
-        
-        // Create transaction
-        transaction = TransactionLib.Transaction({
+        uint256 fee,
+        bytes memory signature
+    ) external pure returns (Scenario memory scenario) {
+        scenario.transaction = TransactionLib.Transaction({
             from: user1,
             to: user2,
+            token: TransactionLib.ETH,
+            nft: 0,
             amount: transferAmount,
             nonce: 0,
             fee: fee,
-            signature: new bytes(0)
+            data: new bytes(0),
+            signature: signature
         });
-        
-        // Generate proofs for pre-state
-        user1PreProof = StateLib.generateAccountProof(user1, accounts, accountData, preStateRoot);
-        user2PreProof = StateLib.generateAccountProof(user2, accounts, accountData, preStateRoot);
-        
-        // execute, get correct post-state
-        (
-            TransactionLib.Account memory newuser1Account,
-            TransactionLib.Account memory newuser2Account,
-        ) = TransactionLib.execute(transaction, user1PreProof.accountData, user2PreProof.accountData);
-        
-        // post-state
-        TransactionLib.Account[] memory postAccountData = new TransactionLib.Account[](2);
-        if (user1 < user2) {
-            postAccountData[0] = newuser1Account;
-            postAccountData[1] = newuser2Account;
-        } else {
-            postAccountData[0] = newuser2Account;
-            postAccountData[1] = newuser1Account;
-        }
-        
-        correctPostStateRoot = StateLib.computeStateRoot(accounts, postAccountData);
+
+        // create & sort accounts
+        address[] memory accounts = new address[](3);
+        TransactionLib.Account[] memory accountData = new TransactionLib.Account[](3);
+        accounts[0] = user1;
+        accounts[1] = user2;
+        accounts[2] = feeRecipient;
+        accountData[0] = ethAccount(user1Balance, 0);
+        accountData[1] = ethAccount(user2Balance, 0);
+        (accounts, accountData) = StateLib.sortAccounts(accounts, accountData);
+        proveScenario(scenario, accounts, accountData, feeRecipient);
+    }
+
+    // each proof is taken against the tree the fraud proof walks: the pre-state, then with user1 updated,
+    // then with user2 updated too. the transfer goes through
+    function proveScenario(Scenario memory scenario, address[] memory accounts, TransactionLib.Account[] memory accountData, address feeRecipient) private pure {
+        TransactionLib.Transaction memory txn = scenario.transaction;
+        (uint256 user1Index, uint256 user2Index) = StateLib.findAccountIndices(txn.from, txn.to, accounts);
+        (uint256 feeRecipientIndex, ) = StateLib.findAccountIndices(feeRecipient, feeRecipient, accounts);
+
+        scenario.preStateRoot = StateLib.computeStateRoot(accounts, accountData);
+        scenario.user1PreProof = StateLib.generateAccountProof(txn.from, accounts, accountData, scenario.preStateRoot);
+        accountData[user1Index] = ethAccount(accountData[user1Index].balance - txn.amount - txn.fee, 1);
+        scenario.user2PreProof = StateLib.generateAccountProof(txn.to, accounts, accountData, StateLib.computeStateRoot(accounts, accountData));
+        accountData[user2Index] = ethAccount(accountData[user2Index].balance + txn.amount, 0);
+        scenario.feeRecipientPreProof = StateLib.generateAccountProof(feeRecipient, accounts, accountData, StateLib.computeStateRoot(accounts, accountData));
+
+        accountData[feeRecipientIndex] = ethAccount(txn.fee, 0);
+        scenario.correctPostStateRoot = StateLib.computeStateRoot(accounts, accountData);
+    }
+
+    function ethAccount(uint256 balance, uint256 nonce) private pure returns (TransactionLib.Account memory) {
+        return TransactionLib.Account({balance: balance, nonce: nonce, tokenBalances: new uint256[](0), nfts: new uint256[](0)});
     }
 }
\ No newline at end of file
@@ -24,6 +24,10 @@ contract MerkleLibTest {
         return MerkleLib.generateProof(leaves, leafIndex);
     }
     
+    function getLeafPath(uint256 leafIndex, uint256 numLeaves) external pure returns (uint256 path, uint256 depth) {
+        return MerkleLib.getLeafPath(leafIndex, numLeaves);
+    }
+    
     function hashPair(bytes32 left, bytes32 right) external pure returns (bytes32) {
         return MerkleLib.hashPair(left, right);
     }
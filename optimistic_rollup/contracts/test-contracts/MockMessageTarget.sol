@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import "../Messenger.sol";
+
+// records the L2 messages relayed to it, for messaging tests. rejects them while paused
+contract MockMessageTarget {
+    address public l2Sender;
+    uint256 public received;
+    uint256 public lastValue;
+    bool public paused;
+
+    function setPaused(bool _paused) external {
+        paused = _paused;
+    }
+
+    function receiveMessage(uint256 value) external payable {
+        require(!paused, "Target paused");
+        l2Sender = Messenger(msg.sender).l2MessageSender();
+        received += msg.value;
+        lastValue = value;
+    }
+}
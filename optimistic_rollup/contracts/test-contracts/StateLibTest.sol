@@ -18,12 +18,17 @@ contract StateLibTest {
         return StateLib.hashAccount(account, accountData);
     }
     
-    function applyTransaction(TransactionLib.Transaction memory txn) external returns (TransactionLib.TransactionResult) {
-        return StateLib.applyTransaction(txn, testState);
+    // txs are checked as if this harness were the rollup
+    function domainSeparator() public view returns (bytes32) {
+        return TransactionLib.domainSeparator(block.chainid, address(this));
+    }
+
+    function applyTransaction(TransactionLib.Transaction memory txn, address feeRecipient) external returns (TransactionLib.TransactionResult) {
+        return StateLib.applyTransaction(txn, feeRecipient, testState, domainSeparator());
     }
     
-    function applyTransactionBatch(TransactionLib.Transaction[] memory transactions) external returns (uint256 successCount, uint256 failureCount) {
-        return StateLib.applyTransactionBatch(transactions, testState);
+    function applyTransactionBatch(TransactionLib.Transaction[] memory transactions, address feeRecipient) external returns (uint256 successCount, uint256 failureCount) {
+        return StateLib.applyTransactionBatch(transactions, feeRecipient, testState, domainSeparator());
     }
     
     function generateAccountProof(address targetAccount, address[] memory accounts, TransactionLib.Account[] memory accountData, bytes32 expectedStateRoot) 
@@ -36,8 +41,16 @@ contract StateLibTest {
         return StateLib.verifyAccountProof(proof, stateRoot);
     }
     
-    function verifyStateTransition(StateLib.StateTransition memory transition) external pure returns (bool) {
-        return StateLib.verifyStateTransition(transition);
+    function computeUpdatedRoot(StateLib.StateProof memory proof, TransactionLib.Account memory accountData) external pure returns (bytes32) {
+        return StateLib.computeUpdatedRoot(proof, accountData);
+    }
+    
+    function emptyRoot() external pure returns (bytes32) {
+        return StateLib.emptyRoot();
+    }
+    
+    function verifyStateTransition(StateLib.StateTransition memory transition) external view returns (bool) {
+        return StateLib.verifyStateTransition(transition, domainSeparator());
     }
     
     function findAccountIndices(address from, address to,address[] memory affectedAccounts) external pure returns (uint256 fromIndex, uint256 toIndex) {
@@ -64,7 +77,7 @@ contract StateLibTest {
     // Helper functions 
 
     function setTestAccount(address account, uint256 balance, uint256 nonce) external {
-        testState[account] = TransactionLib.Account({balance: balance,nonce: nonce});
+        testState[account] = TransactionLib.Account({balance: balance, nonce: nonce, tokenBalances: new uint256[](0), nfts: new uint256[](0)});
     }
     
     function getTestAccount(address account) external view returns (TransactionLib.Account memory) {
@@ -81,14 +94,17 @@ contract StateLibTest {
         return TransactionLib.Transaction({
             from: from,
             to: to,
+            token: TransactionLib.ETH,
+            nft: 0,
             amount: amount,
             nonce: nonce,
             fee: fee,
+            data: new bytes(0),
             signature: new bytes(0)
         });
     }
     
     function createAccount(uint256 balance, uint256 nonce) external pure returns (TransactionLib.Account memory) {
-        return TransactionLib.Account({balance: balance, nonce: nonce});
+        return TransactionLib.Account({balance: balance, nonce: nonce, tokenBalances: new uint256[](0), nfts: new uint256[](0)});
     }
 }
\ No newline at end of file
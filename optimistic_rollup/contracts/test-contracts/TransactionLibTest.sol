@@ -18,8 +18,17 @@ contract TransactionLibTest {
         return TransactionLib.hash(txn);
     }
     
-    function verifySignature(TransactionLib.Transaction memory txn) external pure returns(bool) {
-        return TransactionLib.verifySignature(txn);
+    // txs are checked as if this harness were the rollup
+    function domainSeparator() public view returns (bytes32) {
+        return TransactionLib.domainSeparator(block.chainid, address(this));
+    }
+
+    function digest(TransactionLib.Transaction memory txn) external view returns(bytes32) {
+        return TransactionLib.digest(txn, domainSeparator());
+    }
+    
+    function verifySignature(TransactionLib.Transaction memory txn) external view returns(bool) {
+        return TransactionLib.verifySignature(txn, domainSeparator());
     }
     
     function validate(TransactionLib.Transaction memory txn) external pure returns(bool) {
@@ -28,16 +37,36 @@ contract TransactionLibTest {
     
     function execute(
           TransactionLib.Transaction memory txn, TransactionLib.Account memory fromAccount, TransactionLib.Account memory toAccount) 
-        external pure returns (
+        external view returns (
           TransactionLib.Account memory newFromAccount,TransactionLib.Account memory newToAccount,TransactionLib.TransactionResult result)
     {
-        return TransactionLib.execute(txn, fromAccount, toAccount);
+        return TransactionLib.execute(txn, fromAccount, toAccount, domainSeparator());
     }
     
-    function canExecute(TransactionLib.Transaction memory txn,TransactionLib.Account memory fromAccount) external pure returns (bool) {
-        return TransactionLib.canExecute(txn, fromAccount);
+    function canExecute(TransactionLib.Transaction memory txn,TransactionLib.Account memory fromAccount) external view returns (bool) {
+        return TransactionLib.canExecute(txn, fromAccount, domainSeparator());
     }
     
+    function balanceOf(TransactionLib.Account memory account, uint256 token) external pure returns (uint256) {
+        return TransactionLib.balanceOf(account, token);
+    }
+
+    function withBalance(TransactionLib.Account memory account, uint256 token, uint256 balance) external pure returns (TransactionLib.Account memory) {
+        return TransactionLib.withBalance(account, token, balance);
+    }
+
+    function ownsNft(TransactionLib.Account memory account, uint256 nft) external pure returns (bool) {
+        return TransactionLib.ownsNft(account, nft);
+    }
+
+    function withNft(uint256[] memory nfts, uint256 nft) external pure returns (uint256[] memory) {
+        return TransactionLib.withNft(nfts, nft);
+    }
+
+    function withoutNft(uint256[] memory nfts, uint256 nft) external pure returns (uint256[] memory) {
+        return TransactionLib.withoutNft(nfts, nft);
+    }
+
     function getExecutionCost(TransactionLib.Transaction memory txn) external pure returns(uint256) {
         return TransactionLib.getExecutionCost(txn);
     }
@@ -49,4 +78,8 @@ contract TransactionLibTest {
     function serializeBatch(TransactionLib.Transaction[] memory transactions) external pure returns(bytes32[] memory){
         return TransactionLib.serializeBatch(transactions);
     }
+
+    function getMessageLeaf(TransactionLib.Transaction memory txn) external pure returns(bytes32){
+        return TransactionLib.getMessageLeaf(TransactionLib.toMessage(txn));
+    }
 }
\ No newline at end of file
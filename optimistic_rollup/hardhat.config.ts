@@ -1,8 +1,16 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
+import "./tasks/rollup";
 
 const config: HardhatUserConfig = {
-  solidity: "0.8.28",
+  solidity: {
+    version: "0.8.28",
+    settings: {
+      // OptimisticRollup sits right under the 24KB code size limit, so size wins over runtime gas
+      optimizer: { enabled: true, runs: 1 },
+      viaIR: true,
+    },
+  },
 };
 
 export default config;
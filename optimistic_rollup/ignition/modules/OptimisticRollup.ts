@@ -0,0 +1,20 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { EMPTY_STATE_ROOT } from "../../src/lib/state";
+
+// deploys the operator registry & the rollup, and points the registry at the rollup. the Solidity libraries
+// are all internal, so they're compiled into OptimisticRollup rather than deployed & linked separately.
+// defaults are the production values, ignition/parameters/devnet.json shortens the challenge period:
+//   npx hardhat ignition deploy ignition/modules/OptimisticRollup.ts --network localhost --parameters ignition/parameters/devnet.json
+const OptimisticRollupModule = buildModule("OptimisticRollupModule", (m) => {
+  const operatorBond = m.getParameter("operatorBond", 1_000_000_000_000_000_000n); // 1 ETH
+  const challengePeriod = m.getParameter("challengePeriod", 50400); // ~7d @ 12s blocks, has to stay below OperatorRegistry.UNSTAKE_DELAY
+  const genesisStateRoot = m.getParameter("genesisStateRoot", EMPTY_STATE_ROOT); // no L2 accounts
+
+  const registry = m.contract("OperatorRegistry");
+  const rollup = m.contract("OptimisticRollup", [registry, operatorBond, challengePeriod, genesisStateRoot]);
+  m.call(registry, "setRollup", [rollup]);
+
+  return { registry, rollup };
+});
+
+export default OptimisticRollupModule;
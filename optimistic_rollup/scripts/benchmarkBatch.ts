@@ -0,0 +1,62 @@
+import { ethers } from "hardhat";
+import { calldataGas, encodeBatch } from "../src/lib/batch";
+import { computeRoot } from "../src/lib/merkle";
+import { EMPTY_STATE_ROOT } from "../src/lib/state";
+import { getMerkleLeaf, serialize, signTransaction, Transaction } from "../src/lib/transaction";
+import { getRollupConfig, getRollupDomain } from "../src/sdk";
+
+// compares the L1 cost of submitRollupBlock calldata for compressed batches against the abi-encoded bytes[] batches
+// it used to take, and measures what a compressed submission costs in total:
+//   npx hardhat run scripts/benchmarkBatch.ts
+// BATCH_SIZES is a comma separated list of tx counts
+const LEGACY = new ethers.Interface(["function submitRollupBlock(bytes32 newStateRoot, bytes32 txRoot, bytes[] txs, uint256 depositCount)"]);
+
+async function main() {
+    const [operator] = await ethers.getSigners();
+    const batchSizes = (process.env.BATCH_SIZES ?? "1,10,50,100").split(",").map(Number);
+
+    const registry = await (await ethers.getContractFactory("OperatorRegistry")).deploy();
+    const rollup = await (await ethers.getContractFactory("OptimisticRollup")).deploy(await registry.getAddress(), ethers.parseEther("1.0"), 50400, EMPTY_STATE_ROOT);
+    await registry.setRollup(await rollup.getAddress());
+    await registry.approveOperator(operator.address, true);
+    await registry.registerOperator({ value: await registry.MIN_STAKE() });
+    const domain = await getRollupDomain(rollup);
+
+    // a handful of senders paying each other round amounts, the way a sequencer's batches mostly look.
+    // nobody checks the state roots here
+    const users = [...Array(8)].map(() => ethers.Wallet.createRandom());
+    const rows = [];
+    for (const size of batchSizes) {
+        const txs: Transaction[] = [];
+        for (let i = 0; i < size; i++) {
+            const from = users[i % users.length];
+            const to = users[(i + 1) % users.length];
+            const nonce = BigInt(Math.floor(i / users.length));
+            txs.push(await signTransaction(from, { from: from.address, to: to.address, amount: ethers.parseEther("0.1") * BigInt(1 + (i % 5)), nonce, fee: ethers.parseEther("0.001") }, domain));
+        }
+        const stateRoot = ethers.id(`benchmark-${size}`);
+        const txRoot = computeRoot(txs.map(getMerkleLeaf));
+
+        const legacy = LEGACY.encodeFunctionData("submitRollupBlock", [stateRoot, txRoot, txs.map(serialize), 0]);
+        const compressed = rollup.interface.encodeFunctionData("submitRollupBlock", [stateRoot, txRoot, encodeBatch(txs), 0, operator.address]);
+        const receipt = await (await rollup.submitRollupBlock(stateRoot, txRoot, encodeBatch(txs), 0, operator.address, { value: await (await getRollupConfig(rollup)).operatorBond() })).wait();
+
+        const legacyGas = calldataGas(legacy);
+        const compressedGas = calldataGas(compressed);
+        rows.push({
+            txs: size,
+            "legacy bytes": ethers.dataLength(legacy),
+            "compressed bytes": ethers.dataLength(compressed),
+            "legacy calldata gas": legacyGas,
+            "compressed calldata gas": compressedGas,
+            saved: `${(Number(((legacyGas - compressedGas) * 1000n) / legacyGas) / 10).toFixed(1)}%`,
+            "compressed submit gas": receipt!.gasUsed,
+        });
+    }
+    console.table(rows);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
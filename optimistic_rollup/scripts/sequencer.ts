@@ -0,0 +1,61 @@
+import { ethers } from "hardhat";
+import { L2RpcServer } from "../src/rpc/server";
+import { EMPTY_STATE_ROOT } from "../src/lib/state";
+import { signTransaction } from "../src/lib/transaction";
+import { getRollupDomain } from "../src/sdk";
+import { Sequencer } from "../src/sequencer/sequencer";
+
+// runs a sequencer against a node, e.g. alongside `npx hardhat node`:
+//   npx hardhat run scripts/sequencer.ts --network localhost
+// ROLLUP_ADDRESS points it at a deployed rollup whose registry already has the first signer staked as an operator.
+// without it a fresh registry & rollup are deployed and a deposit plus a few transfers are sent through them.
+// the L2 json-rpc server listens on RPC_PORT, 8547 by default so it sits next to the node's 8545
+async function main() {
+    const [operator, user1, user2] = await ethers.getSigners();
+    const maxBatchSize = Number(process.env.MAX_BATCH_SIZE ?? 10);
+    const batchInterval = Number(process.env.BATCH_INTERVAL ?? 5000);
+    const rpcPort = Number(process.env.RPC_PORT ?? 8547);
+
+    let rollupAddress = process.env.ROLLUP_ADDRESS;
+    if (!rollupAddress) {
+        const registry = await (await ethers.getContractFactory("OperatorRegistry")).deploy();
+        const rollup = await (await ethers.getContractFactory("OptimisticRollup")).deploy(await registry.getAddress(), ethers.parseEther("1.0"), 50400, EMPTY_STATE_ROOT);
+        await registry.setRollup(await rollup.getAddress());
+        await registry.approveOperator(operator.address, true);
+        await registry.registerOperator({ value: await registry.MIN_STAKE() });
+        rollupAddress = await rollup.getAddress();
+        console.log(`Deployed rollup at ${rollupAddress}`);
+    }
+    const rollup = await ethers.getContractAt("OptimisticRollup", rollupAddress, operator);
+
+    const sequencer = new Sequencer(rollup, {
+        maxBatchSize,
+        batchInterval,
+        feeRecipient: process.env.FEE_RECIPIENT,
+        onBlockSubmitted: (block) =>
+            console.log(`Submitted block ${block.blockNumber}: ${block.transactions.length} txs, ${block.depositCount} deposits, state root ${block.stateRoot}`),
+    });
+    sequencer.start();
+    console.log(`Sequencing every ${batchInterval}ms, or every ${maxBatchSize} txs`);
+    const rpc = new L2RpcServer(sequencer, { port: rpcPort });
+    console.log(`L2 JSON-RPC at ${await rpc.start()}`);
+
+    if (!process.env.ROLLUP_ADDRESS) {
+        await (await rollup.connect(user1).deposit({ value: ethers.parseEther("5.0") })).wait();
+        const domain = await getRollupDomain(rollup);
+        for (let nonce = 0n; nonce < 3n; nonce++) {
+            const txn = await signTransaction(user1, { from: user1.address, to: user2.address, amount: ethers.parseEther("1.0"), nonce, fee: ethers.parseEther("0.01") }, domain);
+            await sequencer.submitTransaction(txn);
+        }
+    }
+
+    // runs until interrupted, finishing whatever block is in flight
+    await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+    await rpc.stop();
+    await sequencer.stop();
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,32 @@
+import { ethers } from "hardhat";
+import { Watchtower } from "../src/watchtower/watchtower";
+
+// watches a deployed rollup & challenges invalid blocks, e.g. next to scripts/sequencer.ts:
+//   ROLLUP_ADDRESS=0x... npx hardhat run scripts/watchtower.ts --network localhost
+// the first signer pays the dispute bonds. CHECKPOINT_PATH is where checked blocks are kept between runs
+async function main() {
+    const rollupAddress = process.env.ROLLUP_ADDRESS;
+    if (!rollupAddress) throw new Error("ROLLUP_ADDRESS not set");
+    const checkpointPath = process.env.CHECKPOINT_PATH ?? "watchtower.json";
+    const pollInterval = Number(process.env.POLL_INTERVAL ?? 5000);
+
+    const [challenger] = await ethers.getSigners();
+    const rollup = await ethers.getContractAt("OptimisticRollup", rollupAddress, challenger);
+    const watchtower = new Watchtower(rollup, {
+        pollInterval,
+        checkpointPath,
+        onBlockChecked: ({ blockNumber, valid, reason }) => console.log(`Block ${blockNumber}: ${valid ? "valid" : `invalid, ${reason}`}`),
+        onChallenge: (blockNumber, disputeId) =>
+            console.log(disputeId === undefined ? `Challenged block ${blockNumber}` : `Opened dispute ${disputeId} on block ${blockNumber}`),
+    });
+    watchtower.start();
+    console.log(`Watching ${rollupAddress} every ${pollInterval}ms, checkpoint at ${checkpointPath}`);
+
+    await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+    await watchtower.stop();
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,38 @@
+import { ethers } from "ethers";
+import { getAccount, StateSnapshot } from "./lib/state";
+import { balanceOf, ETH, withBalance, withNft } from "./lib/transaction";
+
+// OptimisticRollup.getInboxAccumulator(0)
+export const EMPTY_INBOX_ACCUMULATOR = ethers.ZeroHash;
+
+// accumulator after appending one deposit, same hash chain OptimisticRollup's deposit functions extend
+export function nextInboxAccumulator(accumulator: string, user: string, token: bigint, nft: bigint, amount: bigint): string {
+    return ethers.keccak256(
+        ethers.AbiCoder.defaultAbiCoder().encode(["bytes32", "address", "uint256", "uint256", "uint256"], [accumulator, user, token, nft, amount])
+    );
+}
+
+// token defaults to ETH, nft to none
+export function computeInboxAccumulator(deposits: { user: string; token?: bigint; nft?: bigint; amount: bigint }[]): string {
+    return deposits.reduce((acc, { user, token, nft, amount }) => nextInboxAccumulator(acc, user, token ?? ETH, nft ?? 0n, amount), EMPTY_INBOX_ACCUMULATOR);
+}
+
+// OptimisticRollup.getL2NftId: fresh per deposit, so a re-bridged NFT never matches its old L2 id
+export function l2NftId(collection: string, tokenId: bigint, inboxIndex: bigint): bigint {
+    return BigInt(ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["address", "uint256", "uint256"], [collection, tokenId, inboxIndex])));
+}
+
+// what a block credits of an OptimisticRollup.InboxEntry
+export interface Deposit {
+    user: string;
+    token: bigint;
+    nft: bigint;
+    amount: bigint;
+}
+
+// credits one inbox entry to its user, the way the sequencer & watchtower apply deposits ahead of a block's txs
+export function creditDeposit(state: StateSnapshot, entry: Deposit): void {
+    let account = getAccount(state, entry.user);
+    if (entry.nft !== 0n) account = withNft(account, entry.nft);
+    state.set(ethers.getAddress(entry.user), withBalance(account, entry.token, balanceOf(account, entry.token) + entry.amount));
+}
@@ -0,0 +1,129 @@
+import { ethers } from "ethers";
+import { ETH, Transaction } from "./transaction";
+
+// mirrors contracts/lib/BatchLib.sol, see there for the layout
+
+export const NONCE_OMITTED = 1;
+export const UNSIGNED = 2;
+export const TOKEN = 4;
+export const NFT = 8;
+export const DATA = 16;
+
+const SIGNATURE_LENGTH = 65;
+const MAX_EXPONENT = 77;
+const MAX_COUNT = 0xffff; // account & tx counts & data lengths are u16
+
+// the calldata submitRollupBlock takes. nonces are left out wherever they follow the sender's previous tx in the batch
+export function encodeBatch(txs: Transaction[]): string {
+    const accounts: string[] = [];
+    const indexes = new Map<string, number>();
+    const indexOf = (address: string) => {
+        const account = ethers.getAddress(address);
+        if (!indexes.has(account)) {
+            indexes.set(account, accounts.length);
+            accounts.push(account);
+        }
+        return indexes.get(account)!;
+    };
+    const refs = txs.map((txn) => [indexOf(txn.from), indexOf(txn.to)]);
+    if (accounts.length > MAX_COUNT || txs.length > MAX_COUNT) throw new Error("Batch too large");
+
+    const indexWidth = accounts.length <= 256 ? 1 : 2;
+    const nextNonce = new Map<number, bigint>();
+    const parts: Uint8Array[] = [uint(accounts.length, 2), ...accounts.map((account) => ethers.getBytes(account)), uint(txs.length, 2)];
+    txs.forEach((txn, i) => {
+        const [from, to] = refs[i];
+        const signatureLength = ethers.dataLength(txn.signature);
+        if (signatureLength !== 0 && signatureLength !== SIGNATURE_LENGTH) throw new Error(`Tx ${i} signature isn't ${SIGNATURE_LENGTH} bytes`);
+
+        const nonceOmitted = nextNonce.get(from) === txn.nonce;
+        nextNonce.set(from, txn.nonce + 1n);
+        const dataLength = ethers.dataLength(txn.data);
+        if (dataLength > MAX_COUNT) throw new Error(`Tx ${i} data too long`);
+
+        const flags = (nonceOmitted ? NONCE_OMITTED : 0) | (signatureLength === 0 ? UNSIGNED : 0) | (txn.token !== ETH ? TOKEN : 0) | (txn.nft !== 0n ? NFT : 0) | (dataLength !== 0 ? DATA : 0);
+        parts.push(uint(flags, 1), uint(from, indexWidth), uint(to, indexWidth));
+        if (txn.token !== ETH) parts.push(value(txn.token));
+        if (txn.nft !== 0n) parts.push(ethers.getBytes(ethers.toBeHex(txn.nft, 32)));
+        if (dataLength !== 0) parts.push(uint(dataLength, 2), ethers.getBytes(txn.data));
+        parts.push(value(txn.amount), value(txn.fee));
+        if (!nonceOmitted) parts.push(value(txn.nonce));
+        if (signatureLength !== 0) parts.push(ethers.getBytes(txn.signature));
+    });
+    return ethers.concat(parts);
+}
+
+// what BatchLib.decode gives back, e.g. to replay a block from its calldata
+export function decodeBatch(data: string): Transaction[] {
+    const bytes = ethers.getBytes(data);
+    let offset = 0;
+    const read = (length: number): Uint8Array => {
+        if (offset + length > bytes.length) throw new Error("Batch truncated");
+        offset += length;
+        return bytes.subarray(offset - length, offset);
+    };
+    const readUint = (length: number) => (length === 0 ? 0n : ethers.toBigInt(read(length)));
+    const readValue = () => {
+        const exponent = readUint(1);
+        const length = Number(readUint(1));
+        if (exponent > BigInt(MAX_EXPONENT) || length > 32) throw new Error("Invalid value encoding");
+        const result = readUint(length) * 10n ** exponent;
+        if (result > ethers.MaxUint256) throw new Error("Invalid value encoding");
+        return result;
+    };
+
+    const accountCount = Number(readUint(2));
+    if (accountCount === 0) throw new Error("Empty account table");
+    const accounts = [...Array(accountCount)].map(() => ethers.getAddress(ethers.hexlify(read(20))));
+    const txCount = Number(readUint(2));
+    const indexWidth = accountCount <= 256 ? 1 : 2;
+    const nextNonce = new Map<number, bigint>();
+
+    const txs: Transaction[] = [];
+    for (let i = 0; i < txCount; i++) {
+        const flags = Number(readUint(1));
+        if ((flags & ~(NONCE_OMITTED | UNSIGNED | TOKEN | NFT | DATA)) !== 0) throw new Error("Invalid tx flags");
+        const from = Number(readUint(indexWidth));
+        const to = Number(readUint(indexWidth));
+        if (from >= accountCount || to >= accountCount) throw new Error("Invalid account index");
+        const token = flags & TOKEN ? readValue() : ETH;
+        const nft = flags & NFT ? readUint(32) : 0n;
+        const data = flags & DATA ? ethers.hexlify(read(Number(readUint(2)))) : "0x";
+        const amount = readValue();
+        const fee = readValue();
+
+        let nonce: bigint;
+        if (flags & NONCE_OMITTED) {
+            if (!nextNonce.has(from)) throw new Error("Nonce not inferable");
+            nonce = nextNonce.get(from)!;
+        } else {
+            nonce = readValue();
+        }
+        nextNonce.set(from, nonce + 1n);
+
+        const signature = flags & UNSIGNED ? "0x" : ethers.hexlify(read(SIGNATURE_LENGTH));
+        txs.push({ from: accounts[from], to: accounts[to], token, nft, amount, nonce, fee, data, signature });
+    }
+    if (offset !== bytes.length) throw new Error("Trailing batch bytes");
+    return txs;
+}
+
+// L1 gas for the data alone (EIP-2028): 16 per nonzero byte, 4 per zero byte
+export function calldataGas(data: string): bigint {
+    return ethers.getBytes(data).reduce((gas, byte) => gas + (byte === 0 ? 4n : 16n), 0n);
+}
+
+function uint(value: number, length: number): Uint8Array {
+    return ethers.getBytes(ethers.toBeHex(value, length));
+}
+
+// mantissa * 10^exponent with the largest exponent that divides the value, e.g. 1 ETH is 3 bytes
+function value(amount: bigint): Uint8Array {
+    let exponent = 0;
+    while (amount !== 0n && exponent < MAX_EXPONENT && amount % 10n === 0n) {
+        amount /= 10n;
+        exponent++;
+    }
+    const mantissa = ethers.toBeArray(amount);
+    return ethers.getBytes(ethers.concat([uint(exponent, 1), uint(mantissa.length, 1), mantissa]));
+}
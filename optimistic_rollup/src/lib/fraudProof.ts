@@ -0,0 +1,96 @@
+import { ethers } from "ethers";
+import { computeRoot, generateProof, MerkleProof } from "./merkle";
+import { computeStateRoot, generateAccountProof, getAccount, StateProof, StateSnapshot } from "./state";
+import { execute, getMerkleLeaf, Transaction } from "./transaction";
+
+// mirrors FraudProofLib.FraudProof, what challengeBlock & proveDisputedStep decode
+
+export interface FraudProof {
+    transaction: Transaction;
+    fromAccountProof: StateProof; // against preStateRoot
+    toAccountProof: StateProof; // against the root after the sender's leaf is updated
+    feeRecipientProof: StateProof; // the block's fee recipient, against the root after the recipient's leaf is updated
+    claimedPostStateRoot: string;
+    preStateRoot: string;
+    transactionIndex: bigint;
+    transactionRoot: string;
+    transactionMerkleProof: MerkleProof;
+}
+
+const TRANSACTION_TYPE = "tuple(address from, address to, uint256 token, uint256 nft, uint256 amount, uint256 nonce, uint256 fee, bytes data, bytes signature)";
+const STATE_PROOF_TYPE = "tuple(address account, tuple(uint256 balance, uint256 nonce, uint256[] tokenBalances, uint256[] nfts) accountData, bytes32[] siblings, uint256 bitmap)";
+
+export const FRAUD_PROOF_TYPE = ethers.ParamType.from(
+    `tuple(${TRANSACTION_TYPE} transaction, ${STATE_PROOF_TYPE} fromAccountProof, ${STATE_PROOF_TYPE} toAccountProof, ${STATE_PROOF_TYPE} feeRecipientProof, ` +
+        "bytes32 claimedPostStateRoot, bytes32 preStateRoot, uint256 transactionIndex, bytes32 transactionRoot, " +
+        "tuple(bytes32[] proof, uint256 index) transactionMerkleProof)"
+);
+
+export function encodeFraudProof(proof: FraudProof): string {
+    return ethers.AbiCoder.defaultAbiCoder().encode([FRAUD_PROOF_TYPE], [proof]);
+}
+
+// mirrors FraudProofLib.DepositProof, what proveDisputedStep decodes for a block's deposit steps
+export interface DepositProof {
+    user: string;
+    token: bigint;
+    nft: bigint;
+    amount: bigint;
+    accountProof: StateProof; // user's, against preStateRoot
+    claimedPostStateRoot: string;
+    preStateRoot: string;
+}
+
+export const DEPOSIT_PROOF_TYPE = ethers.ParamType.from(
+    `tuple(address user, uint256 token, uint256 nft, uint256 amount, ${STATE_PROOF_TYPE} accountProof, bytes32 claimedPostStateRoot, bytes32 preStateRoot)`
+);
+
+export function encodeDepositProof(proof: DepositProof): string {
+    return ethers.AbiCoder.defaultAbiCoder().encode([DEPOSIT_PROOF_TYPE], [proof]);
+}
+
+// proof that crediting the inbox entry to preState doesn't give claimedPostStateRoot
+export function buildDepositProof(
+    entry: { user: string; token: bigint; nft: bigint; amount: bigint },
+    preState: StateSnapshot,
+    claimedPostStateRoot: string
+): DepositProof {
+    return {
+        user: entry.user,
+        token: entry.token,
+        nft: entry.nft,
+        amount: entry.amount,
+        accountProof: generateAccountProof(preState, entry.user),
+        claimedPostStateRoot,
+        preStateRoot: computeStateRoot(preState),
+    };
+}
+
+// proof that batch[index], run against preState, doesn't take it to claimedPostStateRoot
+// (or shouldn't have been included at all, if it fails). feeRecipient is the block's, domain the rollup's, see rollupDomain
+export function buildFraudProof(
+    batch: Transaction[],
+    index: number,
+    preState: StateSnapshot,
+    claimedPostStateRoot: string,
+    feeRecipient: string,
+    domain: ethers.TypedDataDomain
+): FraudProof {
+    const txn = batch[index];
+    const { from, to } = execute(txn, getAccount(preState, txn.from), getAccount(preState, txn.to), domain);
+    const afterFrom = new Map(preState).set(ethers.getAddress(txn.from), from);
+    const afterTo = new Map(afterFrom).set(ethers.getAddress(txn.to), to);
+    const leaves = batch.map(getMerkleLeaf);
+
+    return {
+        transaction: txn,
+        fromAccountProof: generateAccountProof(preState, txn.from),
+        toAccountProof: generateAccountProof(afterFrom, txn.to),
+        feeRecipientProof: generateAccountProof(afterTo, feeRecipient),
+        claimedPostStateRoot,
+        preStateRoot: computeStateRoot(preState),
+        transactionIndex: BigInt(index),
+        transactionRoot: computeRoot(leaves),
+        transactionMerkleProof: generateProof(leaves, index),
+    };
+}
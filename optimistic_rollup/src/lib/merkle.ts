@@ -0,0 +1,76 @@
+import { ethers } from "ethers";
+
+// mirrors contracts/lib/MerkleLib.sol
+
+export interface MerkleProof {
+    proof: string[];
+    index: bigint; // left/right path bits, one per proof element
+}
+
+export function hashPair(left: string, right: string): string {
+    return ethers.keccak256(ethers.concat([left, right]));
+}
+
+// an odd node at the end of a level is promoted as-is, not hashed with a copy of itself
+function nextLevel(level: string[]): string[] {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+        next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    return next;
+}
+
+export function computeRoot(leaves: string[]): string {
+    if (leaves.length === 0) throw new Error("Empty leaves array");
+    let level = [...leaves];
+    while (level.length > 1) level = nextLevel(level);
+    return level[0];
+}
+
+export function generateProof(leaves: string[], leafIndex: number): MerkleProof {
+    if (leafIndex < 0 || leafIndex >= leaves.length) throw new Error("Leaf index out of bounds");
+
+    const proof: string[] = [];
+    let pathIndex = 0n;
+    let level = [...leaves];
+    let index = leafIndex;
+
+    while (level.length > 1) {
+        const sibling = index % 2 === 0 ? index + 1 : index - 1;
+        // promoted nodes have no sibling, so they get no proof element & no path bit
+        if (sibling < level.length) {
+            pathIndex |= BigInt(index & 1) << BigInt(proof.length);
+            proof.push(level[sibling]);
+        }
+        level = nextLevel(level);
+        index >>= 1;
+    }
+    return { proof, index: pathIndex };
+}
+
+export function verifyProof(leaf: string, root: string, proof: MerkleProof): boolean {
+    let computed = leaf;
+    let index = proof.index;
+    for (const element of proof.proof) {
+        computed = (index & 1n) === 0n ? hashPair(computed, element) : hashPair(element, computed);
+        index >>= 1n;
+    }
+    return computed === root;
+}
+
+// path bits & proof length generateProof produces for a leaf, same as MerkleLib.getLeafPath
+export function getLeafPath(leafIndex: number, numLeaves: number): { path: bigint; depth: number } {
+    if (leafIndex < 0 || leafIndex >= numLeaves) throw new Error("Leaf index out of bounds");
+    let path = 0n;
+    let depth = 0;
+    while (numLeaves > 1) {
+        const sibling = leafIndex % 2 === 0 ? leafIndex + 1 : leafIndex - 1;
+        if (sibling < numLeaves) {
+            path |= BigInt(leafIndex & 1) << BigInt(depth);
+            depth++;
+        }
+        leafIndex >>= 1;
+        numLeaves = Math.ceil(numLeaves / 2);
+    }
+    return { path, depth };
+}
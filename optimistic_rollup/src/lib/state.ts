@@ -0,0 +1,122 @@
+import { ethers } from "ethers";
+import { hashPair } from "./merkle";
+
+// mirrors contracts/lib/StateLib.sol: sparse merkle tree keyed by uint160(account)
+
+export const TREE_DEPTH = 160;
+
+export interface Account {
+    balance: bigint;
+    nonce: bigint;
+    tokenBalances?: bigint[]; // by token id - 1 without trailing zeros, left out when there are none
+    nfts?: bigint[]; // L2 ids of the NFTs it owns, ascending, left out when there are none
+}
+
+export interface StateProof {
+    account: string;
+    accountData: Required<Account>; // tokenBalances & nfts always set, as TransactionLib.Account has them
+    siblings: string[]; // non-empty siblings, leaf level first
+    bitmap: bigint; // bit h set if the sibling at height h is in siblings
+}
+
+// local copy of L2 state, keyed by account address
+export type StateSnapshot = Map<string, Account>;
+
+// ZERO_HASHES[h] is the root of an empty subtree at height h
+export const ZERO_HASHES: string[] = [ethers.ZeroHash];
+for (let h = 0; h < TREE_DEPTH; h++) ZERO_HASHES.push(hashPair(ZERO_HASHES[h], ZERO_HASHES[h]));
+
+// StateLib.emptyRoot(), the genesis state root
+export const EMPTY_STATE_ROOT = ZERO_HASHES[TREE_DEPTH];
+
+const EMPTY_ACCOUNT: Account = { balance: 0n, nonce: 0n };
+
+// accounts missing from the snapshot are empty
+export function getAccount(snapshot: StateSnapshot, account: string): Account {
+    return snapshot.get(ethers.getAddress(account)) ?? EMPTY_ACCOUNT;
+}
+
+export function hashAccount(account: string, accountData: Account): string {
+    return ethers.keccak256(
+        ethers.AbiCoder.defaultAbiCoder().encode(
+            ["address", "uint256", "uint256", "uint256[]", "uint256[]"],
+            [account, accountData.balance, accountData.nonce, accountData.tokenBalances ?? [], accountData.nfts ?? []]
+        )
+    );
+}
+
+// empty accounts are empty leaves, same as StateLib.hashLeaf
+export function hashLeaf(account: string, accountData: Account): string {
+    if (accountData.balance === 0n && accountData.nonce === 0n && !accountData.tokenBalances?.length && !accountData.nfts?.length) return ethers.ZeroHash;
+    return hashAccount(account, accountData);
+}
+
+// ordered by address, same as StateLib.computeStateRoot requires
+export function sortedAccounts(snapshot: StateSnapshot): [string, Account][] {
+    return [...snapshot.entries()]
+        .map(([account, data]): [string, Account] => [ethers.getAddress(account), data])
+        .sort(([a], [b]) => (BigInt(a) < BigInt(b) ? -1 : BigInt(a) > BigInt(b) ? 1 : 0));
+}
+
+interface Leaf {
+    key: bigint;
+    hash: string;
+}
+
+function leavesOf(snapshot: StateSnapshot): Leaf[] {
+    return sortedAccounts(snapshot)
+        .map(([account, data]) => ({ key: BigInt(account), hash: hashLeaf(account, data) }))
+        .filter((leaf) => leaf.hash !== ethers.ZeroHash);
+}
+
+// root of the subtree at `height` holding leaves, which all share the key bits above height
+function subtreeRoot(leaves: Leaf[], height: number): string {
+    if (leaves.length === 0) return ZERO_HASHES[height];
+    if (height === 0) return leaves[0].hash;
+
+    const bit = BigInt(height - 1);
+    const left = leaves.filter((leaf) => ((leaf.key >> bit) & 1n) === 0n);
+    const right = leaves.filter((leaf) => ((leaf.key >> bit) & 1n) === 1n);
+    return hashPair(subtreeRoot(left, height - 1), subtreeRoot(right, height - 1));
+}
+
+export function computeStateRoot(snapshot: StateSnapshot): string {
+    return subtreeRoot(leavesOf(snapshot), TREE_DEPTH);
+}
+
+// works for accounts outside the snapshot too, giving a non-inclusion proof
+export function generateAccountProof(snapshot: StateSnapshot, targetAccount: string): StateProof {
+    const target = ethers.getAddress(targetAccount);
+    const key = BigInt(target);
+    const leaves = leavesOf(snapshot);
+
+    const siblings: string[] = [];
+    let bitmap = 0n;
+    for (let h = 0; h < TREE_DEPTH; h++) {
+        const siblingPrefix = (key >> BigInt(h)) ^ 1n;
+        const sibling = subtreeRoot(leaves.filter((leaf) => leaf.key >> BigInt(h) === siblingPrefix), h);
+        if (sibling === ZERO_HASHES[h]) continue;
+        siblings.push(sibling);
+        bitmap |= 1n << BigInt(h);
+    }
+
+    const accountData = [...snapshot.entries()].find(([account]) => ethers.getAddress(account) === target)?.[1] ?? EMPTY_ACCOUNT;
+    return {
+        account: target,
+        accountData: { balance: accountData.balance, nonce: accountData.nonce, tokenBalances: accountData.tokenBalances ?? [], nfts: accountData.nfts ?? [] },
+        siblings,
+        bitmap,
+    };
+}
+
+// root with the proof's account set to accountData, StateLib.computeUpdatedRoot
+export function computeUpdatedRoot(proof: StateProof, accountData: Account): string {
+    const key = BigInt(proof.account);
+    let node = hashLeaf(proof.account, accountData);
+    let used = 0;
+    for (let h = 0; h < TREE_DEPTH; h++) {
+        const sibling = (proof.bitmap >> BigInt(h)) & 1n ? proof.siblings[used++] : ZERO_HASHES[h];
+        node = (key >> BigInt(h)) & 1n ? hashPair(sibling, node) : hashPair(node, sibling);
+    }
+    return node;
+}
@@ -0,0 +1,218 @@
+import { ethers } from "ethers";
+import { Account, getAccount, StateSnapshot } from "./state";
+
+// mirrors contracts/lib/TransactionLib.sol
+
+export interface Transaction {
+    from: string;
+    to: string;
+    token: bigint; // ETH, or the id OptimisticRollup registered the ERC-20 under
+    nft: bigint; // 0n for a token transfer, otherwise the L2 id of the NFT it moves & amount is 0n
+    amount: bigint;
+    nonce: bigint;
+    fee: bigint; // paid in the same token as amount
+    data: string; // "0x" for a transfer, otherwise the calldata of a message to L1 address `to`, see Message
+    signature: string;
+}
+
+// what gets signed, token defaults to ETH, nft to none & data to empty
+export type UnsignedTransaction = Omit<Transaction, "token" | "nft" | "data" | "signature"> & { token?: bigint; nft?: bigint; data?: string };
+
+// TransactionLib.Message, what a tx with data sends to L1. its amount leaves L2 with it
+export interface Message {
+    sender: string;
+    target: string;
+    value: bigint;
+    nonce: bigint;
+    data: string;
+}
+
+// TransactionLib.ETH, the token id of ether
+export const ETH = 0n;
+
+const MESSAGE_TYPE = "tuple(address sender, address target, uint256 value, uint256 nonce, bytes data)";
+
+export enum TransactionResult {
+    SUCCESS,
+    INSUFFICIENT_BALANCE,
+    INVALID_NONCE,
+    INVALID_SIGNATURE,
+    NFT_NOT_OWNED,
+}
+
+export const TRANSACTION_TYPEHASH = ethers.id("Transaction(address from,address to,uint256 token,uint256 nft,uint256 amount,uint256 nonce,uint256 fee,bytes data)");
+
+// eip-712 types for signTypedData / eth_signTypedData_v4, the signature itself isn't signed over
+export const TRANSACTION_TYPES: Record<string, ethers.TypedDataField[]> = {
+    Transaction: [
+        { name: "from", type: "address" },
+        { name: "to", type: "address" },
+        { name: "token", type: "uint256" },
+        { name: "nft", type: "uint256" },
+        { name: "amount", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "fee", type: "uint256" },
+        { name: "data", type: "bytes" },
+    ],
+};
+
+// the domain OptimisticRollup.DOMAIN_SEPARATOR hashes: txs are signed for one rollup on one chain
+export function rollupDomain(chainId: bigint, rollup: string): ethers.TypedDataDomain {
+    return { name: "OptimisticRollup", version: "1", chainId, verifyingContract: rollup };
+}
+
+// a tx's merkle leaf preimage, signature included. batches go on L1 compressed, see encodeBatch
+export function serialize(txn: Transaction): string {
+    return ethers.AbiCoder.defaultAbiCoder().encode(
+        ["address", "address", "uint256", "uint256", "uint256", "uint256", "uint256", "bytes", "bytes"],
+        [txn.from, txn.to, txn.token, txn.nft, txn.amount, txn.nonce, txn.fee, txn.data, txn.signature]
+    );
+}
+
+export function deserialize(encoded: string): Transaction {
+    const [from, to, token, nft, amount, nonce, fee, data, signature] = ethers.AbiCoder.defaultAbiCoder().decode(
+        ["address", "address", "uint256", "uint256", "uint256", "uint256", "uint256", "bytes", "bytes"],
+        encoded
+    );
+    return { from, to, token, nft, amount, nonce, fee, data, signature };
+}
+
+export function getMerkleLeaf(txn: Transaction): string {
+    return ethers.keccak256(serialize(txn));
+}
+
+export function isMessage(txn: Transaction): boolean {
+    return ethers.dataLength(txn.data) > 0;
+}
+
+export function toMessage(txn: Transaction): Message {
+    return { sender: txn.from, target: txn.to, value: txn.amount, nonce: txn.nonce, data: txn.data };
+}
+
+// TransactionLib.getMessageLeaf, a block's message root is the merkle root over these in batch order
+export function getMessageLeaf(message: Message): string {
+    return ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode([MESSAGE_TYPE], [message]));
+}
+
+export function hashTransaction(txn: Transaction): string {
+    return ethers.keccak256(
+        ethers.AbiCoder.defaultAbiCoder().encode(
+            ["bytes32", "address", "address", "uint256", "uint256", "uint256", "uint256", "uint256", "bytes32"],
+            [TRANSACTION_TYPEHASH, txn.from, txn.to, txn.token, txn.nft, txn.amount, txn.nonce, txn.fee, ethers.keccak256(txn.data)]
+        )
+    );
+}
+
+export function transactionDigest(txn: Transaction, domain: ethers.TypedDataDomain): string {
+    return ethers.TypedDataEncoder.hash(domain, TRANSACTION_TYPES, txn);
+}
+
+export async function signTransaction(signer: ethers.Signer, txn: UnsignedTransaction, domain: ethers.TypedDataDomain): Promise<Transaction> {
+    const unsigned = { ...txn, token: txn.token ?? ETH, nft: txn.nft ?? 0n, data: txn.data ?? "0x" };
+    const signature = await signer.signTypedData(domain, TRANSACTION_TYPES, unsigned);
+    return { ...unsigned, signature };
+}
+
+// same rules as OpenZeppelin's ECDSA.tryRecover: 65 bytes, v of 27 or 28, low s
+export function verifySignature(txn: Transaction, domain: ethers.TypedDataDomain): boolean {
+    if (ethers.dataLength(txn.signature) !== 65) return false;
+    const v = ethers.getBytes(txn.signature)[64];
+    if (v !== 27 && v !== 28) return false;
+    try {
+        const recovered = ethers.recoverAddress(transactionDigest(txn, domain), txn.signature);
+        return recovered === ethers.getAddress(txn.from);
+    } catch {
+        return false;
+    }
+}
+
+export function validate(txn: Transaction): boolean {
+    return (
+        txn.from !== ethers.ZeroAddress &&
+        txn.to !== ethers.ZeroAddress &&
+        ethers.getAddress(txn.from) !== ethers.getAddress(txn.to) &&
+        // messages carry ETH only, & may carry none of it
+        (isMessage(txn) ? txn.token === ETH && txn.nft === 0n : txn.nft === 0n ? txn.amount > 0n : txn.amount === 0n) &&
+        txn.fee >= 0n
+    );
+}
+
+export function canExecute(txn: Transaction, fromAccount: Account, domain: ethers.TypedDataDomain): boolean {
+    return (
+        validate(txn) &&
+        verifySignature(txn, domain) &&
+        txn.nonce === fromAccount.nonce &&
+        balanceOf(fromAccount, txn.token) >= txn.amount + txn.fee &&
+        (txn.nft === 0n || ownsNft(fromAccount, txn.nft))
+    );
+}
+
+// failed txs leave both accounts as they were. domain is the executing rollup's, see rollupDomain
+export function execute(txn: Transaction, fromAcct: Account, toAcct: Account, domain: ethers.TypedDataDomain): { from: Account; to: Account; result: TransactionResult } {
+    if (!validate(txn) || !verifySignature(txn, domain)) return { from: fromAcct, to: toAcct, result: TransactionResult.INVALID_SIGNATURE };
+    if (txn.nonce !== fromAcct.nonce) return { from: fromAcct, to: toAcct, result: TransactionResult.INVALID_NONCE };
+
+    const totalCost = txn.amount + txn.fee;
+    const fromBalance = balanceOf(fromAcct, txn.token);
+    if (fromBalance < totalCost) return { from: fromAcct, to: toAcct, result: TransactionResult.INSUFFICIENT_BALANCE };
+    if (txn.nft !== 0n && !ownsNft(fromAcct, txn.nft)) return { from: fromAcct, to: toAcct, result: TransactionResult.NFT_NOT_OWNED };
+
+    const from = { ...withBalance(fromAcct, txn.token, fromBalance - totalCost), nonce: fromAcct.nonce + 1n };
+    // a message's amount leaves L2, `to` is its L1 target
+    const to = isMessage(txn) ? toAcct : withBalance(toAcct, txn.token, balanceOf(toAcct, txn.token) + txn.amount);
+    if (txn.nft === 0n) return { from, to, result: TransactionResult.SUCCESS };
+    return { from: withoutNft(from, txn.nft), to: withNft(to, txn.nft), result: TransactionResult.SUCCESS };
+}
+
+// TransactionLib.creditFee
+export function creditFee(feeRecipient: Account, token: bigint, fee: bigint): Account {
+    return withBalance(feeRecipient, token, balanceOf(feeRecipient, token) + fee);
+}
+
+export function balanceOf(account: Account, token: bigint): bigint {
+    if (token === ETH) return account.balance;
+    return account.tokenBalances?.[Number(token) - 1] ?? 0n;
+}
+
+// TransactionLib.withBalance: tokenBalances stays trimmed, & is left out once it's empty
+export function withBalance(account: Account, token: bigint, balance: bigint): Account {
+    const tokenBalances = [...(account.tokenBalances ?? [])];
+    if (token !== ETH && (balance !== 0n || token <= tokenBalances.length)) {
+        while (tokenBalances.length < token) tokenBalances.push(0n);
+        tokenBalances[Number(token) - 1] = balance;
+    }
+    while (tokenBalances.length > 0 && tokenBalances[tokenBalances.length - 1] === 0n) tokenBalances.pop();
+
+    const updated: Account = { balance: token === ETH ? balance : account.balance, nonce: account.nonce };
+    if (tokenBalances.length > 0) updated.tokenBalances = tokenBalances;
+    if (account.nfts?.length) updated.nfts = account.nfts;
+    return updated;
+}
+
+export function ownsNft(account: Account, nft: bigint): boolean {
+    return account.nfts?.includes(nft) ?? false;
+}
+
+// TransactionLib.withNft: nfts stays in ascending order
+export function withNft(account: Account, nft: bigint): Account {
+    if (ownsNft(account, nft)) return account;
+    return { ...account, nfts: [...(account.nfts ?? []), nft].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0)) };
+}
+
+// TransactionLib.withoutNft, nfts is left out once it's empty
+export function withoutNft(account: Account, nft: bigint): Account {
+    const { nfts, ...rest } = account;
+    const remaining = (nfts ?? []).filter((owned) => owned !== nft);
+    return remaining.length === 0 ? rest : { ...rest, nfts: remaining };
+}
+
+// runs txn against state in place the way a block does, StateLib.applyTransaction: the transfer, then the fee
+// credited to the block's feeRecipient. failed txs leave state as it was
+export function applyTransaction(state: StateSnapshot, txn: Transaction, feeRecipient: string, domain: ethers.TypedDataDomain): TransactionResult {
+    const { from, to, result } = execute(txn, getAccount(state, txn.from), getAccount(state, txn.to), domain);
+    if (result !== TransactionResult.SUCCESS) return result;
+    state.set(ethers.getAddress(txn.from), from);
+    state.set(ethers.getAddress(txn.to), to);
+    state.set(ethers.getAddress(feeRecipient), creditFee(getAccount(state, feeRecipient), txn.token, txn.fee));
+    return result;
+}
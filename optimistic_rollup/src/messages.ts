@@ -0,0 +1,21 @@
+import { ethers } from "ethers";
+import { computeRoot, generateProof, MerkleProof } from "./lib/merkle";
+import { getMessageLeaf, isMessage, Message, toMessage, Transaction } from "./lib/transaction";
+
+// the L2->L1 messages a batch sends, its txs with data, in the order the block commits to them
+export function batchMessages(txs: Transaction[]): Message[] {
+    return txs.filter(isMessage).map(toMessage);
+}
+
+// OptimisticRollup.RollupBlock.messageRoot, zero for batches without messages
+export function computeMessageRoot(txs: Transaction[]): string {
+    const leaves = batchMessages(txs).map(getMessageLeaf);
+    return leaves.length === 0 ? ethers.ZeroHash : computeRoot(leaves);
+}
+
+// what OptimisticRollup.relayMessage takes for the batch's index-th message
+export function buildMessageProof(txs: Transaction[], index: number): { message: Message; proof: MerkleProof } {
+    const messages = batchMessages(txs);
+    if (index >= messages.length) throw new Error(`Batch has no message ${index}`);
+    return { message: messages[index], proof: generateProof(messages.map(getMessageLeaf), index) };
+}
@@ -0,0 +1,239 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { ethers } from "ethers";
+import { getAccount } from "../lib/state";
+import { balanceOf, ETH, getMerkleLeaf, Transaction } from "../lib/transaction";
+import { Sequencer, SubmittedBlock } from "../sequencer/sequencer";
+
+export interface L2RpcServerOptions {
+    port: number; // 0 picks a free one
+    host?: string; // defaults to 127.0.0.1
+    onError?: (error: unknown) => void; // failed block submissions a sent tx triggered, the tx stays queued
+}
+
+export interface RpcResponse {
+    jsonrpc: "2.0";
+    id: string | number | null;
+    result?: unknown;
+    error?: { code: number; message: string };
+}
+
+// json-rpc 2.0 error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const SERVER_ERROR = -32000; // e.g. the mempool turning a tx away
+
+class RpcError extends Error {
+    constructor(readonly code: number, message: string) {
+        super(message);
+    }
+}
+
+// serves the sequencer's view of L2 over http json-rpc:
+//   l2_blockNumber, l2_getBalance(address, token id = ETH), l2_getNonce(address, "latest" | "pending"),
+//   l2_sendTransaction(signed tx), l2_getTransactionReceipt(hash), l2_getBlock(number | "latest", fullTxs)
+// balances & nonces are as of the last block the sequencer submitted, the "pending" nonce also counts the
+// sender's queued txs. a tx's hash is its TransactionLib.getMerkleLeaf leaf. quantities go out as hex
+// like eth_ methods do & come in as hex or decimal strings or numbers
+export class L2RpcServer {
+    private server?: http.Server;
+
+    constructor(private readonly sequencer: Sequencer, private readonly options: L2RpcServerOptions) {}
+
+    // resolves with the url it's listening on
+    async start(): Promise<string> {
+        if (this.server) throw new Error("Already started");
+        const server = http.createServer((request, response) => this.serve(request, response));
+        this.server = server;
+        await new Promise<void>((resolve, reject) => {
+            server.once("error", reject);
+            server.listen(this.options.port, this.options.host ?? "127.0.0.1", resolve);
+        });
+        const { address, port } = server.address() as AddressInfo;
+        return `http://${address}:${port}`;
+    }
+
+    async stop(): Promise<void> {
+        const server = this.server;
+        this.server = undefined;
+        if (!server) return;
+        server.closeAllConnections();
+        await new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    }
+
+    // a parsed request body, either one call or a batch of them. batches run in order, so txs sent together
+    // queue in the order they were given
+    async handle(body: unknown): Promise<RpcResponse | RpcResponse[]> {
+        if (!Array.isArray(body)) return this.call(body);
+        if (body.length === 0) return failure(null, new RpcError(INVALID_REQUEST, "Empty batch"));
+        const responses: RpcResponse[] = [];
+        for (const request of body) responses.push(await this.call(request));
+        return responses;
+    }
+
+    private serve(request: http.IncomingMessage, response: http.ServerResponse): void {
+        if (request.method !== "POST") {
+            response.writeHead(405, { Allow: "POST" }).end();
+            return;
+        }
+        const chunks: Buffer[] = [];
+        request.on("data", (chunk: Buffer) => chunks.push(chunk));
+        request.on("end", async () => {
+            let body: unknown;
+            try {
+                body = JSON.parse(Buffer.concat(chunks).toString());
+            } catch {
+                body = undefined;
+            }
+            const result = body === undefined ? failure(null, new RpcError(PARSE_ERROR, "Parse error")) : await this.handle(body);
+            response.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(result));
+        });
+    }
+
+    private async call(request: unknown): Promise<RpcResponse> {
+        const fields = typeof request === "object" && request !== null ? (request as Record<string, unknown>) : {};
+        const id = typeof fields.id === "string" || typeof fields.id === "number" ? fields.id : null;
+        try {
+            if (fields.jsonrpc !== "2.0" || typeof fields.method !== "string") throw new RpcError(INVALID_REQUEST, "Invalid request");
+            const params = fields.params ?? [];
+            if (!Array.isArray(params)) throw new RpcError(INVALID_PARAMS, "Params must be an array");
+            return { jsonrpc: "2.0", id, result: await this.dispatch(fields.method, params) };
+        } catch (error) {
+            return failure(id, error instanceof RpcError ? error : new RpcError(SERVER_ERROR, (error as Error).message));
+        }
+    }
+
+    private async dispatch(method: string, params: unknown[]): Promise<unknown> {
+        switch (method) {
+            case "l2_blockNumber":
+                return ethers.toQuantity(this.head()?.blockNumber ?? 0n);
+            case "l2_getBalance": {
+                const token = params[1] === undefined ? ETH : quantity(params[1], "token");
+                return ethers.toQuantity(balanceOf(getAccount(this.sequencer.state, address(params[0])), token));
+            }
+            case "l2_getNonce":
+                return ethers.toQuantity(this.nonce(address(params[0]), params[1] ?? "latest"));
+            case "l2_sendTransaction": {
+                // the hash goes back once the tx is queued. a full batch is submitted in the background, if that
+                // fails the tx is still queued for the next block
+                const txn = transaction(params[0]);
+                await this.sequencer.queueTransaction(txn);
+                if (this.sequencer.batchFull) this.sequencer.produceBlock().catch((error) => (this.options.onError ?? console.error)(error));
+                return getMerkleLeaf(txn);
+            }
+            case "l2_getTransactionReceipt":
+                return this.receipt(hash(params[0]));
+            case "l2_getBlock":
+                return this.block(params[0] ?? "latest", params[1] === true);
+            default:
+                throw new RpcError(METHOD_NOT_FOUND, `Method ${method} not found`);
+        }
+    }
+
+    private head(): SubmittedBlock | undefined {
+        const blocks = this.sequencer.blocks;
+        return blocks[blocks.length - 1];
+    }
+
+    private nonce(account: string, tag: unknown): bigint {
+        let nonce = getAccount(this.sequencer.state, account).nonce;
+        if (tag === "latest") return nonce;
+        if (tag !== "pending") throw new RpcError(INVALID_PARAMS, "Block tag must be latest or pending");
+        // the queued txs that run back to back from the sender's current nonce
+        const queued = this.sequencer.mempool.transactions.filter((txn) => txn.from === account).map((txn) => txn.nonce);
+        while (queued.includes(nonce)) nonce++;
+        return nonce;
+    }
+
+    // null while the tx is queued or if the sequencer never saw it. included txs always succeeded,
+    // the sequencer doesn't put failing ones in blocks
+    private receipt(txHash: string) {
+        for (const block of this.sequencer.blocks) {
+            const index = block.transactions.findIndex((txn) => getMerkleLeaf(txn) === txHash);
+            if (index === -1) continue;
+            const txn = block.transactions[index];
+            return {
+                transactionHash: txHash,
+                blockNumber: ethers.toQuantity(block.blockNumber),
+                transactionIndex: ethers.toQuantity(index),
+                from: txn.from,
+                to: txn.to,
+                status: "0x1",
+            };
+        }
+        return null;
+    }
+
+    private block(tag: unknown, fullTransactions: boolean) {
+        const block = tag === "latest" ? this.head() : this.sequencer.blocks.find((submitted) => submitted.blockNumber === quantity(tag, "block number"));
+        if (!block) return null;
+        return {
+            number: ethers.toQuantity(block.blockNumber),
+            stateRoot: block.stateRoot,
+            txRoot: block.txRoot,
+            depositCount: ethers.toQuantity(block.depositCount),
+            feeRecipient: block.feeRecipient,
+            transactions: block.transactions.map((txn) => (fullTransactions ? formatTransaction(txn) : getMerkleLeaf(txn))),
+        };
+    }
+}
+
+function failure(id: RpcResponse["id"], error: RpcError): RpcResponse {
+    return { jsonrpc: "2.0", id, error: { code: error.code, message: error.message } };
+}
+
+function formatTransaction(txn: Transaction) {
+    return {
+        hash: getMerkleLeaf(txn),
+        from: txn.from,
+        to: txn.to,
+        token: ethers.toQuantity(txn.token),
+        nft: ethers.toQuantity(txn.nft),
+        amount: ethers.toQuantity(txn.amount),
+        nonce: ethers.toQuantity(txn.nonce),
+        fee: ethers.toQuantity(txn.fee),
+        data: txn.data,
+        signature: txn.signature,
+    };
+}
+
+function address(value: unknown): string {
+    if (typeof value !== "string" || !ethers.isAddress(value)) throw new RpcError(INVALID_PARAMS, "Invalid address");
+    return ethers.getAddress(value);
+}
+
+function hash(value: unknown): string {
+    if (!ethers.isHexString(value, 32)) throw new RpcError(INVALID_PARAMS, "Invalid tx hash");
+    return value.toLowerCase();
+}
+
+function quantity(value: unknown, name: string): bigint {
+    const valid = typeof value === "string" ? /^(0x[0-9a-fA-F]+|[0-9]+)$/.test(value) : Number.isSafeInteger(value) && (value as number) >= 0;
+    if (valid) {
+        const result = BigInt(value as string | number);
+        if (result <= ethers.MaxUint256) return result;
+    }
+    throw new RpcError(INVALID_PARAMS, `Invalid ${name}`);
+}
+
+// a signed tx as l2_sendTransaction takes it, same fields as TransactionLib.Transaction. token defaults to ETH, nft to none
+// & data to empty
+function transaction(value: unknown): Transaction {
+    if (typeof value !== "object" || value === null) throw new RpcError(INVALID_PARAMS, "Expected a transaction object");
+    const txn = value as Record<string, unknown>;
+    if (!ethers.isHexString(txn.signature)) throw new RpcError(INVALID_PARAMS, "Invalid signature");
+    if (txn.data !== undefined && !ethers.isHexString(txn.data, true)) throw new RpcError(INVALID_PARAMS, "Invalid data");
+    return {
+        from: address(txn.from),
+        to: address(txn.to),
+        token: txn.token === undefined ? ETH : quantity(txn.token, "token"),
+        nft: txn.nft === undefined ? 0n : quantity(txn.nft, "nft"),
+        amount: quantity(txn.amount, "amount"),
+        nonce: quantity(txn.nonce, "nonce"),
+        fee: quantity(txn.fee, "fee"),
+        data: txn.data === undefined ? "0x" : ethers.hexlify(txn.data as string),
+        signature: txn.signature,
+    };
+}
@@ -0,0 +1,217 @@
+import { ContractRunner, ContractTransactionReceipt, ContractTransactionResponse, ethers, LogDescription } from "ethers";
+import { IERC20__factory, IERC721__factory, OptimisticRollup, OptimisticRollup__factory, RollupConfig, RollupConfig__factory } from "../typechain-types";
+import { MerkleProof } from "./lib/merkle";
+import { StateProof } from "./lib/state";
+import { BuyoutQuote, BuyoutTerms, quoteBuyout } from "./withdrawals";
+import { getMessageLeaf, Message, rollupDomain, signTransaction, Transaction, UnsignedTransaction } from "./lib/transaction";
+
+export type BlockStatus =
+    | "missing" // never submitted, or dropped by a rollback & not replaced yet
+    | "challengeable" // inside its challenge period
+    | "awaiting-finalization" // challenge period over, but a dispute or an unfinalized parent holds it back
+    | "finalizable"
+    | "finalized"
+    | "challenged"
+    | "frozen"; // never finalizes, the rollup froze first. see escapeExit
+
+export interface WaitOptions {
+    pollInterval?: number; // ms, defaults to 1000
+    finalize?: boolean; // call finalizeBlock on the block & its unfinalized ancestors once allowed, defaults to true
+}
+
+// first event with the given name in the receipt, parsed against the rollup's abi
+export function findEvent(rollup: OptimisticRollup, receipt: ContractTransactionReceipt, name: string): LogDescription {
+    for (const log of receipt.logs) {
+        const parsed = rollup.interface.parseLog(log);
+        if (parsed?.name === name) return parsed;
+    }
+    throw new Error(`${name} event not found`);
+}
+
+// eip-712 domain the rollup checks L2 tx signatures under
+export async function getRollupDomain(rollup: OptimisticRollup): Promise<ethers.TypedDataDomain> {
+    const { chainId } = await rollup.runner!.provider!.getNetwork();
+    return rollupDomain(chainId, await rollup.getAddress());
+}
+
+// governed bond, challenge period & challenger reward. submitted blocks keep the values they were submitted under
+export async function getRollupConfig(rollup: OptimisticRollup): Promise<RollupConfig> {
+    return RollupConfig__factory.connect(await rollup.config(), rollup.runner);
+}
+
+export function withdrawalRequestId(rollup: OptimisticRollup, receipt: ContractTransactionReceipt): string {
+    return findEvent(rollup, receipt, "WithdrawalRequested").args.requestId;
+}
+
+// wraps the typechain contract with one call per lifecycle step. state-changing calls wait for their receipt
+export class RollupClient {
+    constructor(readonly rollup: OptimisticRollup) {}
+
+    static connect(address: string, runner: ContractRunner): RollupClient {
+        return new RollupClient(OptimisticRollup__factory.connect(address, runner));
+    }
+
+    // signs an L2 tx from the connected signer, ready for a sequencer's mempool. token defaults to ETH
+    async signTransaction(txn: Omit<UnsignedTransaction, "from">): Promise<Transaction> {
+        const signer = this.rollup.runner as ethers.Signer;
+        return signTransaction(signer, { ...txn, from: await signer.getAddress() }, await getRollupDomain(this.rollup));
+    }
+
+    async deposit(amount: bigint): Promise<{ inboxIndex: bigint; receipt: ContractTransactionReceipt }> {
+        const receipt = await this.send(this.rollup.deposit({ value: amount }));
+        return { inboxIndex: findEvent(this.rollup, receipt, "Deposit").args.inboxIndex, receipt };
+    }
+
+    // approves the rollup for amount first if its allowance falls short. the token has to be registered
+    async depositERC20(token: string, amount: bigint): Promise<{ inboxIndex: bigint; receipt: ContractTransactionReceipt }> {
+        const erc20 = IERC20__factory.connect(token, this.rollup.runner);
+        const signer = await (this.rollup.runner as ethers.Signer).getAddress();
+        if ((await erc20.allowance(signer, await this.rollup.getAddress())) < amount) {
+            await this.send(erc20.approve(await this.rollup.getAddress(), amount));
+        }
+        const receipt = await this.send(this.rollup.depositERC20(token, amount));
+        return { inboxIndex: findEvent(this.rollup, receipt, "ERC20Deposit").args.inboxIndex, receipt };
+    }
+
+    // approves the rollup for tokenId first unless it already may move it. nft is the L2 id the deposit is credited as
+    async depositERC721(collection: string, tokenId: bigint): Promise<{ inboxIndex: bigint; nft: bigint; receipt: ContractTransactionReceipt }> {
+        const erc721 = IERC721__factory.connect(collection, this.rollup.runner);
+        const rollupAddress = await this.rollup.getAddress();
+        const signer = await (this.rollup.runner as ethers.Signer).getAddress();
+        if ((await erc721.getApproved(tokenId)) !== rollupAddress && !(await erc721.isApprovedForAll(signer, rollupAddress))) {
+            await this.send(erc721.approve(rollupAddress, tokenId));
+        }
+        const receipt = await this.send(this.rollup.depositERC721(collection, tokenId));
+        const { inboxIndex, nft } = findEvent(this.rollup, receipt, "ERC721Deposit").args;
+        return { inboxIndex, nft, receipt };
+    }
+
+    // proof is the caller's exit account against blockNum's state root, see buildExitProof
+    async requestWithdrawal(blockNum: bigint, proof: StateProof): Promise<{ requestId: string; amount: bigint; receipt: ContractTransactionReceipt }> {
+        const receipt = await this.send(this.rollup.requestWithdrawal(blockNum, proof));
+        const { requestId, amount } = findEvent(this.rollup, receipt, "WithdrawalRequested").args;
+        return { requestId, amount, receipt };
+    }
+
+    // token exits skip the request queue: paid out straight away once blockNum is finalized
+    async withdrawERC20(blockNum: bigint, token: string, proof: StateProof): Promise<{ amount: bigint; receipt: ContractTransactionReceipt }> {
+        const receipt = await this.send(this.rollup.withdrawERC20FromL2(blockNum, token, proof));
+        return { amount: findEvent(this.rollup, receipt, "L2ERC20WithdrawalClaimed").args.amount, receipt };
+    }
+
+    // inboxIndex is the NFT's deposit, which its L2 id was derived from. paid out straight away like token exits
+    async withdrawERC721(blockNum: bigint, collection: string, tokenId: bigint, inboxIndex: bigint, proof: StateProof): Promise<ContractTransactionReceipt> {
+        return this.send(this.rollup.withdrawERC721FromL2(blockNum, collection, tokenId, inboxIndex, proof));
+    }
+
+    // once the rollup is frozen: the connected signer's whole ETH & token balances under the last finalized root,
+    // see buildEscapeProof
+    async escapeExit(proof: StateProof): Promise<{ amount: bigint; receipt: ContractTransactionReceipt }> {
+        const receipt = await this.send(this.rollup.escapeExit(proof));
+        return { amount: findEvent(this.rollup, receipt, "EscapeExit").args.amount, receipt };
+    }
+
+    async escapeERC721(collection: string, tokenId: bigint, inboxIndex: bigint, proof: StateProof): Promise<ContractTransactionReceipt> {
+        return this.send(this.rollup.escapeERC721(collection, tokenId, inboxIndex, proof));
+    }
+
+    // once the rollup is frozen, for deposits the last finalized block didn't consume. NFT deposits need their collection & token id
+    async refundDeposit(inboxIndex: bigint, collection = ethers.ZeroAddress, tokenId = 0n): Promise<ContractTransactionReceipt> {
+        return this.send(this.rollup.refundDeposit(inboxIndex, collection, tokenId));
+    }
+
+    async isFrozen(): Promise<boolean> {
+        return this.rollup.frozen();
+    }
+
+    // runs an L2 tx's message on L1 once blockNum is finalized, see buildMessageProof
+    async relayMessage(blockNum: bigint, message: Message, proof: MerkleProof): Promise<ContractTransactionReceipt> {
+        return this.send(this.rollup.relayMessage(blockNum, message, proof));
+    }
+
+    async isMessageRelayed(message: Message): Promise<boolean> {
+        return this.rollup.relayed_messages(getMessageLeaf(message));
+    }
+
+    async processWithdrawal(requestId: string): Promise<ContractTransactionReceipt> {
+        return this.send(this.rollup.processWithdrawal(requestId));
+    }
+
+    // prices one of the rollup's pending requests under an LP's terms, see quoteBuyout
+    async quoteBuyout(requestId: string, terms: BuyoutTerms): Promise<BuyoutQuote> {
+        const request = await this.rollup.getWithdrawalRequest(requestId);
+        if (request.user === ethers.ZeroAddress) throw new Error(`Unknown withdrawal request ${requestId}`);
+        const { blockNumber: submittedAt, challengePeriod } = await this.rollup.getRollupBlock(request.rollupBlock);
+        // finalizable once the L1 block number is past submittedAt + the period the block was submitted under
+        const blocksLeft = submittedAt + challengePeriod + 1n - BigInt(await this.rollup.runner!.provider!.getBlockNumber());
+        return quoteBuyout(request.amount, blocksLeft, challengePeriod, terms);
+    }
+
+    // price 0 takes the request off sale
+    async offerWithdrawal(requestId: string, price: bigint): Promise<ContractTransactionReceipt> {
+        return this.send(this.rollup.offerWithdrawal(requestId, price));
+    }
+
+    // price has to be the current asking price, a changed offer makes the buy revert instead of costing more
+    async buyWithdrawal(requestId: string, price: bigint): Promise<ContractTransactionReceipt> {
+        return this.send(this.rollup.buyWithdrawal(requestId, { value: price }));
+    }
+
+    async transferWithdrawal(requestId: string, to: string): Promise<ContractTransactionReceipt> {
+        return this.send(this.rollup.transferWithdrawal(requestId, to));
+    }
+
+    async getConfig(): Promise<RollupConfig> {
+        return getRollupConfig(this.rollup);
+    }
+
+    async finalizeBlock(blockNum: bigint): Promise<ContractTransactionReceipt> {
+        return this.send(this.rollup.finalizeBlock(blockNum));
+    }
+
+    async getBlockStatus(blockNum: bigint): Promise<BlockStatus> {
+        const [, head] = await this.rollup.getCurrentState();
+        const rollupBlock = await this.rollup.getRollupBlock(blockNum);
+        if (rollupBlock.finalized) return "finalized";
+        if (rollupBlock.challenged) return "challenged";
+        if (blockNum > head || rollupBlock.operator === ethers.ZeroAddress) return "missing";
+        if (await this.rollup.frozen()) return "frozen";
+        if (await this.rollup.canChallenge(blockNum)) return "challengeable";
+        if (await this.rollup.canFinalize(blockNum)) return "finalizable";
+        return "awaiting-finalization";
+    }
+
+    async canProcessWithdrawal(requestId: string): Promise<boolean> {
+        return this.rollup.canProcessWithdrawal(requestId);
+    }
+
+    // resolves once blockNum is finalized. rejects if it's challenged or frozen, since it'll never finalize then
+    async waitForFinalization(blockNum: bigint, options: WaitOptions = {}): Promise<void> {
+        const { pollInterval = 1000, finalize = true } = options;
+        for (;;) {
+            const status = await this.getBlockStatus(blockNum);
+            if (status === "finalized") return;
+            if (status === "challenged" || status === "missing" || status === "frozen") throw new Error(`Block ${blockNum} is ${status}`);
+            if (finalize && status !== "challengeable" && (await this.finalizeUpTo(blockNum))) return;
+            await new Promise((resolve) => setTimeout(resolve, pollInterval));
+        }
+    }
+
+    // finalizes blockNum's unfinalized ancestors oldest first, then blockNum. false if one of them can't be yet
+    private async finalizeUpTo(blockNum: bigint): Promise<boolean> {
+        let oldest = blockNum;
+        while (oldest > 1n && !(await this.rollup.getRollupBlock(oldest - 1n)).finalized) oldest--;
+
+        for (let i = oldest; i <= blockNum; i++) {
+            if (!(await this.rollup.canFinalize(i))) return false;
+            await this.finalizeBlock(i);
+        }
+        return true;
+    }
+
+    private async send(tx: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+        const receipt = await (await tx).wait();
+        if (!receipt) throw new Error("Transaction dropped");
+        return receipt;
+    }
+}
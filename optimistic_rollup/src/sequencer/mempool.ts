@@ -0,0 +1,54 @@
+import { ethers } from "ethers";
+import { getAccount, StateSnapshot } from "../lib/state";
+import { applyTransaction, Transaction, TransactionResult, verifySignature } from "../lib/transaction";
+
+// signed txs waiting for a block, kept in arrival order
+export class Mempool {
+    private txs: Transaction[] = [];
+
+    get size(): number {
+        return this.txs.length;
+    }
+
+    get transactions(): Transaction[] {
+        return [...this.txs];
+    }
+
+    // domain is the rollup's, see getRollupDomain
+    add(txn: Transaction, domain: ethers.TypedDataDomain): void {
+        if (!verifySignature(txn, domain)) throw new Error("Invalid signature");
+        const from = ethers.getAddress(txn.from);
+        if (this.txs.some((queued) => ethers.getAddress(queued.from) === from && queued.nonce === txn.nonce)) {
+            throw new Error("Nonce already queued");
+        }
+        this.txs.push({ ...txn, from, to: ethers.getAddress(txn.to) });
+    }
+
+    // executes up to maxCount txs against state in place, fees going to feeRecipient, same as the block will. a block
+    // carrying a failing tx is fraud, so those never make it in: invalid & stale-nonce txs are dropped, while txs ahead of their
+    // sender's nonce or short on balance stay queued in case an earlier tx or a deposit fixes them
+    selectBatch(state: StateSnapshot, maxCount: number, feeRecipient: string, domain: ethers.TypedDataDomain): Transaction[] {
+        const selected: Transaction[] = [];
+        let progress = true;
+        while (progress && selected.length < maxCount) {
+            progress = false;
+            for (const txn of [...this.txs]) {
+                if (selected.length >= maxCount) break;
+                if (selected.includes(txn)) continue;
+
+                const result = applyTransaction(state, txn, feeRecipient, domain);
+                if (result === TransactionResult.SUCCESS) {
+                    selected.push(txn);
+                    progress = true;
+                } else if (result === TransactionResult.INVALID_SIGNATURE || txn.nonce < getAccount(state, txn.from).nonce) {
+                    this.remove([txn]);
+                }
+            }
+        }
+        return selected;
+    }
+
+    remove(txs: Transaction[]): void {
+        this.txs = this.txs.filter((txn) => !txs.includes(txn));
+    }
+}
@@ -0,0 +1,122 @@
+import { ethers } from "ethers";
+import { OptimisticRollup } from "../../typechain-types";
+import { creditDeposit } from "../inbox";
+import { encodeBatch } from "../lib/batch";
+import { computeRoot } from "../lib/merkle";
+import { computeStateRoot, StateSnapshot } from "../lib/state";
+import { getMerkleLeaf, Transaction } from "../lib/transaction";
+import { getRollupConfig, getRollupDomain } from "../sdk";
+import { Mempool } from "./mempool";
+
+export interface SequencerOptions {
+    maxBatchSize: number; // a batch is submitted as soon as this many txs are queued
+    batchInterval: number; // ms between batches while running
+    feeRecipient?: string; // L2 account the blocks' fees are credited to, defaults to the operator's own
+    genesisState?: StateSnapshot; // L2 state the rollup's genesisStateRoot commits to, empty by default
+    onBlockSubmitted?: (block: SubmittedBlock) => void;
+    onError?: (error: unknown) => void;
+}
+
+export interface SubmittedBlock {
+    blockNumber: bigint;
+    stateRoot: string;
+    txRoot: string;
+    transactions: Transaction[];
+    depositCount: bigint;
+    feeRecipient: string;
+}
+
+// builds blocks out of the mempool & submits them to the rollup. assumes it's the only operator, so the
+// chain's head is always the last block it submitted. `rollup` must be connected to a registered operator
+export class Sequencer {
+    readonly mempool = new Mempool();
+    private l2State: StateSnapshot = new Map(this.options.genesisState);
+    private submitted: SubmittedBlock[] = []; // every block this sequencer submitted, oldest first
+    private timer?: NodeJS.Timeout;
+    private submissions: Promise<unknown> = Promise.resolve(); // one block in flight at a time
+    private domain?: Promise<ethers.TypedDataDomain>;
+
+    constructor(private readonly rollup: OptimisticRollup, private readonly options: SequencerOptions) {}
+
+    get state(): StateSnapshot {
+        return new Map(this.l2State);
+    }
+
+    get blocks(): SubmittedBlock[] {
+        return [...this.submitted];
+    }
+
+    // queues a signed tx, cutting a block right away once the batch is full
+    async submitTransaction(txn: Transaction): Promise<SubmittedBlock | null> {
+        await this.queueTransaction(txn);
+        return this.batchFull ? this.produceBlock() : null;
+    }
+
+    // just the queueing, throws if the mempool turns the tx away
+    async queueTransaction(txn: Transaction): Promise<void> {
+        this.mempool.add(txn, await this.getDomain());
+    }
+
+    get batchFull(): boolean {
+        return this.mempool.size >= this.options.maxBatchSize;
+    }
+
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => {
+            this.produceBlock().catch((error) => (this.options.onError ?? console.error)(error));
+        }, this.options.batchInterval);
+    }
+
+    async stop(): Promise<void> {
+        clearInterval(this.timer);
+        this.timer = undefined;
+        await this.submissions.catch(() => {});
+    }
+
+    // null when nothing in the mempool can execute, the rollup doesn't take empty batches
+    produceBlock(): Promise<SubmittedBlock | null> {
+        const block = this.submissions.catch(() => {}).then(() => this.buildAndSubmit());
+        this.submissions = block;
+        return block;
+    }
+
+    private getDomain(): Promise<ethers.TypedDataDomain> {
+        return (this.domain ??= getRollupDomain(this.rollup));
+    }
+
+    private async buildAndSubmit(): Promise<SubmittedBlock | null> {
+        const [headRoot, headNumber] = await this.rollup.getCurrentState();
+        if (headRoot !== computeStateRoot(this.l2State)) throw new Error("Sequencer state out of sync with rollup");
+
+        // pending deposits are credited in inbox order ahead of the block's txs, each its own step in a dispute
+        const state = new Map(this.l2State);
+        const inboxIndex = (await this.rollup.getRollupBlock(headNumber)).inboxIndex;
+        const inboxLength = await this.rollup.getInboxLength();
+        for (let i = inboxIndex; i < inboxLength; i++) {
+            creditDeposit(state, await this.rollup.inbox(i));
+        }
+
+        const feeRecipient = ethers.getAddress(this.options.feeRecipient ?? (await (this.rollup.runner as ethers.Signer).getAddress()));
+        const transactions = this.mempool.selectBatch(state, this.options.maxBatchSize, feeRecipient, await this.getDomain());
+        if (transactions.length === 0) return null;
+
+        const block: SubmittedBlock = {
+            blockNumber: headNumber + 1n,
+            stateRoot: computeStateRoot(state),
+            txRoot: computeRoot(transactions.map(getMerkleLeaf)),
+            transactions,
+            depositCount: inboxLength - inboxIndex,
+            feeRecipient,
+        };
+        const bond = await (await getRollupConfig(this.rollup)).operatorBond();
+        const tx = await this.rollup.submitRollupBlock(block.stateRoot, block.txRoot, encodeBatch(transactions), block.depositCount, feeRecipient, { value: bond });
+        await tx.wait();
+
+        this.l2State = state;
+        this.mempool.remove(transactions);
+        this.submitted.push(block);
+        this.options.onBlockSubmitted?.(block);
+        return block;
+    }
+}
@@ -0,0 +1,123 @@
+import fs from "fs";
+import { ethers } from "ethers";
+import { Account, computeStateRoot, StateSnapshot } from "../lib/state";
+
+export interface CheckedBlock {
+    submittedAt: number; // L1 block num of the submission
+    stateRoot: string;
+    inboxIndex: bigint;
+    state?: StateSnapshot; // L2 state after the block, missing if it or one of its ancestors is invalid
+}
+
+export interface WatchedDispute {
+    id: bigint;
+    blockNumber: bigint;
+    txHash: string; // the disputed block's submitRollupBlock tx, its batch is replayed from the calldata
+}
+
+// everything the watchtower needs to pick up where it left off
+export interface Checkpoint {
+    nextL1Block: number; // first L1 block not scanned for RollupBlockSubmitted yet
+    blocks: Map<bigint, CheckedBlock>; // by rollup block num, starting at genesis
+    disputes: WatchedDispute[]; // open disputes the watchtower is the challenger in
+}
+
+// genesisState is what the rollup's genesisStateRoot commits to
+export function emptyCheckpoint(genesisState: StateSnapshot = new Map()): Checkpoint {
+    return {
+        nextL1Block: 0,
+        blocks: new Map([[0n, { submittedAt: 0, stateRoot: computeStateRoot(genesisState), inboxIndex: 0n, state: new Map(genesisState) }]]),
+        disputes: [],
+    };
+}
+
+// fresh checkpoint if there's no file yet. throws on a file that isn't one saveCheckpoint wrote
+export function loadCheckpoint(path: string, genesisState?: StateSnapshot): Checkpoint {
+    if (!fs.existsSync(path)) return emptyCheckpoint(genesisState);
+    const json = record(JSON.parse(fs.readFileSync(path, "utf8")), "checkpoint");
+    return {
+        nextL1Block: integer(json.nextL1Block, "nextL1Block"),
+        blocks: new Map(
+            list(json.blocks, "blocks").map((value): [bigint, CheckedBlock] => {
+                const block = record(value, "block");
+                return [
+                    decimal(block.number, "block number"),
+                    {
+                        submittedAt: integer(block.submittedAt, "submittedAt"),
+                        stateRoot: bytes32(block.stateRoot, "stateRoot"),
+                        inboxIndex: decimal(block.inboxIndex, "inboxIndex"),
+                        state: block.state === undefined ? undefined : new Map(list(block.state, "state").map(parseAccount)),
+                    },
+                ];
+            })
+        ),
+        disputes: list(json.disputes, "disputes").map((value) => {
+            const dispute = record(value, "dispute");
+            return { id: decimal(dispute.id, "dispute id"), blockNumber: decimal(dispute.blockNumber, "dispute block number"), txHash: bytes32(dispute.txHash, "txHash") };
+        }),
+    };
+}
+
+// bigints as decimal strings. written to a temp file first so a crash mid-write leaves the old checkpoint intact
+export function saveCheckpoint(path: string, checkpoint: Checkpoint): void {
+    const json = {
+        nextL1Block: checkpoint.nextL1Block,
+        blocks: [...checkpoint.blocks].map(([number, block]) => ({
+            number: number.toString(),
+            submittedAt: block.submittedAt,
+            stateRoot: block.stateRoot,
+            inboxIndex: block.inboxIndex.toString(),
+            state: block.state && [...block.state].map(([account, { balance, nonce, tokenBalances, nfts }]) => [
+                account,
+                balance.toString(),
+                nonce.toString(),
+                (tokenBalances ?? []).map(String),
+                (nfts ?? []).map(String),
+            ]),
+        })),
+        disputes: checkpoint.disputes.map(({ id, blockNumber, txHash }) => ({ id: id.toString(), blockNumber: blockNumber.toString(), txHash })),
+    };
+    fs.writeFileSync(`${path}.tmp`, JSON.stringify(json, null, 2));
+    fs.renameSync(`${path}.tmp`, path);
+}
+
+// [account, balance, nonce, tokenBalances, nfts]. checkpoints from before token balances & nfts have no 4th & 5th fields
+function parseAccount(value: unknown): [string, Account] {
+    const [account, balance, nonce, tokenBalances = [], nfts = []] = list(value, "account");
+    if (typeof account !== "string" || !ethers.isAddress(account)) throw invalid("account address");
+    const parsed: Account = { balance: decimal(balance, "balance"), nonce: decimal(nonce, "nonce") };
+    const tokens = list(tokenBalances, "tokenBalances").map((token) => decimal(token, "token balance"));
+    if (tokens.length > 0) parsed.tokenBalances = tokens;
+    const ids = list(nfts, "nfts").map((nft) => decimal(nft, "nft"));
+    if (ids.length > 0) parsed.nfts = ids;
+    return [ethers.getAddress(account), parsed];
+}
+
+function record(value: unknown, name: string): Record<string, unknown> {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) throw invalid(name);
+    return value as Record<string, unknown>;
+}
+
+function list(value: unknown, name: string): unknown[] {
+    if (!Array.isArray(value)) throw invalid(name);
+    return value;
+}
+
+function integer(value: unknown, name: string): number {
+    if (!Number.isSafeInteger(value) || (value as number) < 0) throw invalid(name);
+    return value as number;
+}
+
+function decimal(value: unknown, name: string): bigint {
+    if (typeof value !== "string" || !/^[0-9]+$/.test(value)) throw invalid(name);
+    return BigInt(value);
+}
+
+function bytes32(value: unknown, name: string): string {
+    if (!ethers.isHexString(value, 32)) throw invalid(name);
+    return value;
+}
+
+function invalid(name: string): Error {
+    return new Error(`Invalid checkpoint: bad ${name}`);
+}
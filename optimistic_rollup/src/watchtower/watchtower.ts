@@ -0,0 +1,263 @@
+import { ContractTransactionResponse, ethers } from "ethers";
+import { OptimisticRollup } from "../../typechain-types";
+import { creditDeposit, Deposit } from "../inbox";
+import { decodeBatch } from "../lib/batch";
+import { buildDepositProof, buildFraudProof, encodeDepositProof, encodeFraudProof } from "../lib/fraudProof";
+import { computeStateRoot, StateSnapshot } from "../lib/state";
+import { applyTransaction, Transaction, TransactionResult } from "../lib/transaction";
+import { findEvent, getRollupDomain } from "../sdk";
+import { Checkpoint, CheckedBlock, emptyCheckpoint, loadCheckpoint, saveCheckpoint, WatchedDispute } from "./checkpoint";
+
+export interface WatchtowerOptions {
+    pollInterval: number; // ms between polls while running
+    checkpointPath?: string; // json file the checked blocks are saved to after every poll & resumed from
+    genesisState?: StateSnapshot; // L2 state the rollup's genesisStateRoot commits to, empty by default
+    onBlockChecked?: (check: BlockCheck) => void;
+    onChallenge?: (blockNumber: bigint, disputeId?: bigint) => void; // disputeId for blocks sent through the dispute game
+    onError?: (error: unknown) => void;
+}
+
+export interface BlockCheck {
+    blockNumber: bigint;
+    stateRoot: string;
+    valid: boolean;
+    reason?: string; // why it's invalid
+}
+
+// what a block's submitRollupBlock calldata says
+interface Batch {
+    txs: Transaction[];
+    depositCount: bigint;
+    feeRecipient: string;
+}
+
+// a block run locally: steps[i] is the state after its first i steps, the deposits it consumed credited one each
+// & then its txs. replay stops at the first failing tx, so steps ends at that tx's pre-state
+interface Replay {
+    deposits: Deposit[];
+    txs: Transaction[];
+    feeRecipient: string;
+    steps: StateSnapshot[];
+    failedAt?: number; // index in txs
+}
+
+const DISPUTE_OPEN = 1n; // OptimisticRollup.DisputeStatus.Open
+
+// re-executes every submitted block against its parent's state & challenges the ones whose root is wrong
+// or that include a failing tx: blocks of a single tx & no deposits with challengeBlock, the rest through the
+// dispute game, which it then plays out as the challenger. `rollup` must be connected to a signer funded for the bonds
+export class Watchtower {
+    private checkpoint: Checkpoint;
+    private replays = new Map<bigint, Replay>(); // by dispute id, rebuilt from calldata after a restart
+    private timer?: NodeJS.Timeout;
+    private polling: Promise<unknown> = Promise.resolve(); // one poll at a time
+    private domain?: Promise<ethers.TypedDataDomain>;
+
+    constructor(private readonly rollup: OptimisticRollup, private readonly options: WatchtowerOptions) {
+        this.checkpoint = options.checkpointPath ? loadCheckpoint(options.checkpointPath, options.genesisState) : emptyCheckpoint(options.genesisState);
+    }
+
+    // rollup block num -> what the watchtower knows about it, pruned once blocks can't be rolled back to anymore
+    get checkedBlocks(): Map<bigint, CheckedBlock> {
+        return new Map(this.checkpoint.blocks);
+    }
+
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => {
+            this.poll().catch((error) => (this.options.onError ?? console.error)(error));
+        }, this.options.pollInterval);
+    }
+
+    async stop(): Promise<void> {
+        clearInterval(this.timer);
+        this.timer = undefined;
+        await this.polling.catch(() => {});
+    }
+
+    // checks blocks submitted since the last poll, then makes the watchtower's moves in its open disputes
+    poll(): Promise<void> {
+        const poll = this.polling.catch(() => {}).then(() => this.checkAndRespond());
+        this.polling = poll;
+        return poll;
+    }
+
+    private async checkAndRespond(): Promise<void> {
+        const latest = await this.provider.getBlockNumber();
+        if (this.checkpoint.nextL1Block === 0) {
+            // every block would look invalid if replayed from the wrong genesis
+            const genesisRoot = (await this.rollup.getRollupBlock(0)).stateRoot;
+            if (genesisRoot !== this.checkpoint.blocks.get(0n)?.stateRoot) throw new Error("Genesis state doesn't match the rollup's genesis state root");
+        }
+        if (latest >= this.checkpoint.nextL1Block) {
+            const events = await this.rollup.queryFilter(this.rollup.filters.RollupBlockSubmitted(), this.checkpoint.nextL1Block, latest);
+            for (const event of events) {
+                await this.checkBlock(event.args.blockNumber, event.args.stateRoot, event.blockNumber, event.transactionHash);
+            }
+            this.checkpoint.nextL1Block = latest + 1;
+        }
+
+        for (const dispute of [...this.checkpoint.disputes]) {
+            try {
+                await this.respond(dispute, latest);
+            } catch (error) {
+                (this.options.onError ?? console.error)(error);
+            }
+        }
+        await this.prune(latest);
+        if (this.options.checkpointPath) saveCheckpoint(this.options.checkpointPath, this.checkpoint);
+    }
+
+    private async checkBlock(blockNumber: bigint, stateRoot: string, submittedAt: number, txHash: string): Promise<void> {
+        const parent = this.checkpoint.blocks.get(blockNumber - 1n);
+        if (!parent) throw new Error(`Block ${blockNumber}'s parent was never checked`);
+        // a submission at a height that's already known means everything from there on was rolled back
+        for (const number of this.checkpoint.blocks.keys()) {
+            if (number >= blockNumber) this.checkpoint.blocks.delete(number);
+        }
+
+        const batch = await this.batch(txHash);
+        const block: CheckedBlock = { submittedAt, stateRoot, inboxIndex: parent.inboxIndex + batch.depositCount };
+        this.checkpoint.blocks.set(blockNumber, block);
+        if (!parent.state) {
+            // dropped together with its parent once that one's challenged
+            this.options.onBlockChecked?.({ blockNumber, stateRoot, valid: false, reason: "Parent block is invalid" });
+            return;
+        }
+
+        const replay = await this.replay(parent, block.inboxIndex, batch);
+        const postState = replay.steps[replay.steps.length - 1];
+        if (replay.failedAt === undefined && computeStateRoot(postState) === stateRoot) {
+            block.state = postState;
+            this.options.onBlockChecked?.({ blockNumber, stateRoot, valid: true });
+            return;
+        }
+
+        const reason = replay.failedAt === undefined ? "Incorrect post-state" : `Tx ${replay.failedAt} fails`;
+        this.options.onBlockChecked?.({ blockNumber, stateRoot, valid: false, reason });
+        try {
+            await this.challenge(blockNumber, parent, block, replay, txHash);
+        } catch (error) {
+            (this.options.onError ?? console.error)(error);
+        }
+    }
+
+    // credits the deposits the block consumed, then runs its batch the way TransactionLib does
+    private async replay(parent: CheckedBlock, inboxIndex: bigint, { txs, feeRecipient }: Batch): Promise<Replay> {
+        const state = new Map(parent.state);
+        const steps = [new Map(state)];
+        const deposits: Deposit[] = [];
+        for (let i = parent.inboxIndex; i < inboxIndex; i++) {
+            const deposit = await this.rollup.inbox(i);
+            creditDeposit(state, deposit);
+            deposits.push(deposit);
+            steps.push(new Map(state));
+        }
+
+        const domain = await this.getDomain();
+        for (let i = 0; i < txs.length; i++) {
+            if (applyTransaction(state, txs[i], feeRecipient, domain) !== TransactionResult.SUCCESS) return { deposits, txs, feeRecipient, steps, failedAt: i };
+            steps.push(new Map(state));
+        }
+        return { deposits, txs, feeRecipient, steps };
+    }
+
+    // the batch is only on L1 as submitRollupBlock calldata
+    private async batch(txHash: string): Promise<Batch> {
+        const tx = await this.provider.getTransaction(txHash);
+        const call = tx && this.rollup.interface.parseTransaction(tx);
+        if (call?.name !== "submitRollupBlock") throw new Error(`Can't decode batch of ${txHash}`);
+        return { txs: decodeBatch(call.args.batch), depositCount: call.args.depositCount, feeRecipient: call.args.feeRecipient };
+    }
+
+    private async challenge(blockNumber: bigint, parent: CheckedBlock, block: CheckedBlock, replay: Replay, txHash: string): Promise<void> {
+        // an older submission at this height, already dropped while the watchtower was catching up
+        const onchain = await this.rollup.getRollupBlock(blockNumber);
+        if (onchain.challenged || onchain.blockNumber !== BigInt(block.submittedAt)) return;
+        if (!(await this.rollup.canChallenge(blockNumber))) throw new Error(`Block ${blockNumber} can't be challenged anymore`);
+
+        if (replay.deposits.length + replay.txs.length === 1) {
+            await this.send(this.rollup.challengeBlock(blockNumber, await this.stepProof(replay, 0, block.stateRoot)));
+            this.options.onChallenge?.(blockNumber);
+            return;
+        }
+
+        const receipt = await this.send(this.rollup.openDispute(blockNumber, { value: await this.rollup.DISPUTE_BOND() }));
+        const id: bigint = findEvent(this.rollup, receipt, "DisputeOpened").args.disputeId;
+        this.checkpoint.disputes.push({ id, blockNumber, txHash });
+        this.replays.set(id, replay);
+        this.options.onChallenge?.(blockNumber, id);
+    }
+
+    // the challenger's side of the bisection: agree with the operator's mid root only if it's ours too,
+    // prove the step once a single one is left, & claim the win if the operator stops answering
+    private async respond(watched: WatchedDispute, latest: number): Promise<void> {
+        const dispute = await this.rollup.getDispute(watched.id);
+        const block = await this.rollup.getRollupBlock(dispute.blockNum);
+        if (dispute.status !== DISPUTE_OPEN) {
+            this.forget(watched);
+        } else if (block.challenged || block.submission !== dispute.submission) {
+            // dropped some other way, get the bond back
+            await this.send(this.rollup.cancelDispute(watched.id));
+            this.forget(watched);
+        } else if (latest > dispute.deadline) {
+            await this.send(this.rollup.timeoutDispute(watched.id));
+            this.forget(watched);
+        } else if (dispute.hi - dispute.lo === 1n) {
+            const proof = await this.stepProof(await this.disputeReplay(watched), Number(dispute.lo), dispute.hiRoot);
+            await this.send(this.rollup.proveDisputedStep(watched.id, proof));
+            this.forget(watched);
+        } else if (dispute.midRoot !== ethers.ZeroHash) {
+            // steps past a failing tx are never agreed with, so the game narrows down to that tx
+            const { steps } = await this.disputeReplay(watched);
+            const mid = Number((dispute.lo + dispute.hi) / 2n);
+            await this.send(this.rollup.selectHalf(watched.id, mid < steps.length && computeStateRoot(steps[mid]) === dispute.midRoot));
+        }
+    }
+
+    private async disputeReplay(watched: WatchedDispute): Promise<Replay> {
+        let replay = this.replays.get(watched.id);
+        if (!replay) {
+            const parent = this.checkpoint.blocks.get(watched.blockNumber - 1n)!;
+            const batch = await this.batch(watched.txHash);
+            replay = await this.replay(parent, parent.inboxIndex + batch.depositCount, batch);
+            this.replays.set(watched.id, replay);
+        }
+        return replay;
+    }
+
+    // encoded proof that the replay's step doesn't lead to claimedPostStateRoot: a deposit proof for
+    // the deposit steps, a fraud proof for the tx steps
+    private async stepProof({ deposits, txs, feeRecipient, steps }: Replay, step: number, claimedPostStateRoot: string): Promise<string> {
+        if (step < deposits.length) return encodeDepositProof(buildDepositProof(deposits[step], steps[step], claimedPostStateRoot));
+        return encodeFraudProof(buildFraudProof(txs, step - deposits.length, steps[step], claimedPostStateRoot, feeRecipient, await this.getDomain()));
+    }
+
+    private forget(watched: WatchedDispute): void {
+        this.checkpoint.disputes = this.checkpoint.disputes.filter((dispute) => dispute.id !== watched.id);
+        this.replays.delete(watched.id);
+    }
+
+    // nothing rolls back past the last finalized block, so older blocks are never a parent again. a block's challenge
+    // period running out isn't enough, a dispute opened within it can still drop the block long after
+    private async prune(latest: number): Promise<void> {
+        const lastFinalized = await this.rollup.lastFinalizedBlock({ blockTag: latest });
+        for (const number of this.checkpoint.blocks.keys()) {
+            if (number < lastFinalized) this.checkpoint.blocks.delete(number);
+        }
+    }
+
+    private getDomain(): Promise<ethers.TypedDataDomain> {
+        return (this.domain ??= getRollupDomain(this.rollup));
+    }
+
+    private get provider(): ethers.Provider {
+        return this.rollup.runner!.provider!;
+    }
+
+    private async send(tx: Promise<ContractTransactionResponse>) {
+        const receipt = await (await tx).wait();
+        if (!receipt) throw new Error("Transaction dropped");
+        return receipt;
+    }
+}
@@ -0,0 +1,45 @@
+import { ethers } from "ethers";
+import { generateAccountProof, StateProof, StateSnapshot } from "./lib/state";
+
+// mirrors OptimisticRollup.EXIT_ENCODING
+export const EXIT_ENCODING = "L2_EXIT";
+
+// L2 account a user sends funds to in order to withdraw them, same as OptimisticRollup.getL2ExitAddress
+export function l2ExitAddress(user: string): string {
+    const hash = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["string", "address"], [EXIT_ENCODING, user]));
+    return ethers.getAddress(ethers.dataSlice(hash, 12));
+}
+
+// proof of the user's exit balance for OptimisticRollup.withdrawFromL2. snapshot has to be the
+// state committed by the finalized block the proof is checked against
+export function buildExitProof(snapshot: StateSnapshot, user: string): StateProof {
+    return generateAccountProof(snapshot, l2ExitAddress(user));
+}
+
+// proof of the user's own account for OptimisticRollup.escapeExit & escapeERC721. snapshot has to be the
+// state committed by the rollup's last finalized block
+export function buildEscapeProof(snapshot: StateSnapshot, user: string): StateProof {
+    return generateAccountProof(snapshot, user);
+}
+
+export interface BuyoutQuote {
+    price: bigint; // what the LP pays the beneficiary now, for OptimisticRollup.offerWithdrawal & buyWithdrawal
+    discount: bigint; // amount - price, the LP's cut
+    blocksLeft: bigint; // L1 blocks until the request's block can finalize
+}
+
+export interface BuyoutTerms {
+    feeBps: bigint; // LP's cut for waiting out a whole challenge period, in basis points of the amount
+    baseFee?: bigint; // flat wei on top, covers the LP's gas
+}
+
+// an LP's price for a request of amount that can finalize in blocksLeft of challengePeriod L1 blocks.
+// the fee scales down with the time left, the base fee doesn't. throws if the fee eats the whole amount,
+// a price of 0 would take the request off sale instead
+export function quoteBuyout(amount: bigint, blocksLeft: bigint, challengePeriod: bigint, { feeBps, baseFee = 0n }: BuyoutTerms): BuyoutQuote {
+    if (blocksLeft < 0n) blocksLeft = 0n;
+    if (blocksLeft > challengePeriod) blocksLeft = challengePeriod;
+    const discount = (amount * feeBps * blocksLeft) / (10_000n * challengePeriod) + baseFee;
+    if (discount >= amount) throw new Error("Withdrawal too small for the LP's fee");
+    return { price: amount - discount, discount, blocksLeft };
+}
@@ -0,0 +1,155 @@
+import fs from "fs";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ContractTransactionReceipt } from "ethers";
+import { encodeBatch } from "../src/lib/batch";
+import { encodeFraudProof, FraudProof } from "../src/lib/fraudProof";
+import { computeRoot } from "../src/lib/merkle";
+import { StateProof } from "../src/lib/state";
+import { getMerkleLeaf, Transaction } from "../src/lib/transaction";
+
+// command line access to a deployed rollup, e.g. against `npx hardhat node`:
+//   npx hardhat rollup:deposit --amount 1.5 --rollup 0x... --network localhost
+// --rollup falls back to ROLLUP_ADDRESS, --signer picks one of the network's accounts by index
+
+interface RollupArgs {
+    rollup?: string;
+    signer: number;
+}
+
+// bigints in the json files can be numbers or decimal strings
+interface BatchFile {
+    stateRoot: string;
+    txs: { from: string; to: string; token?: string | number; nft?: string; amount: string | number; nonce: string | number; fee: string | number; data?: string; signature: string }[]; // token defaults to ETH, nft to none, data to empty
+    depositCount?: string | number; // defaults to every pending deposit
+    feeRecipient?: string; // defaults to the signer
+}
+
+// the typechain factories only exist after a compile, so the sdk is loaded once a task runs rather than with the config
+async function connect(hre: HardhatRuntimeEnvironment, args: RollupArgs) {
+    const address = args.rollup ?? process.env.ROLLUP_ADDRESS;
+    if (!address) throw new Error("No rollup address, pass --rollup or set ROLLUP_ADDRESS");
+    const signers = await hre.ethers.getSigners();
+    if (!signers[args.signer]) throw new Error(`No signer at index ${args.signer}`);
+
+    const { RollupClient } = await import("../src/sdk");
+    return RollupClient.connect(address, signers[args.signer]);
+}
+
+function readJson<T>(path: string): T {
+    return JSON.parse(fs.readFileSync(path, "utf8"));
+}
+
+// every rollup event in the receipt, with its decoded args
+function printEvents(client: Awaited<ReturnType<typeof connect>>, receipt: ContractTransactionReceipt): void {
+    for (const log of receipt.logs) {
+        const event = client.rollup.interface.parseLog(log);
+        if (!event) continue;
+        const args = event.fragment.inputs.map((input, i) => `${input.name}=${event.args[i]}`);
+        console.log(`${event.name}(${args.join(", ")})`);
+    }
+}
+
+function rollupTask(name: string, description: string) {
+    return task(name, description)
+        .addOptionalParam("rollup", "OptimisticRollup address, defaults to ROLLUP_ADDRESS")
+        .addOptionalParam("signer", "Index of the account to send from", 0, types.int);
+}
+
+rollupTask("rollup:deposit", "Deposits ETH, or a registered ERC-20, into the rollup's inbox")
+    .addParam("amount", "Amount in ETH, or in whole tokens with --token")
+    .addOptionalParam("token", "ERC-20 address, approved for the amount if needed")
+    .setAction(async (args: RollupArgs & { amount: string; token?: string }, hre) => {
+        const client = await connect(hre, args);
+        let deposited;
+        if (args.token) {
+            const token = await hre.ethers.getContractAt("IERC20Metadata", args.token);
+            deposited = await client.depositERC20(args.token, hre.ethers.parseUnits(args.amount, await token.decimals()));
+        } else {
+            deposited = await client.deposit(hre.ethers.parseEther(args.amount));
+        }
+        printEvents(client, deposited.receipt);
+        return deposited.inboxIndex;
+    });
+
+rollupTask("rollup:submit-batch", "Submits a block from a batch file: { stateRoot, txs: [{ from, to, token?, nft?, amount, nonce, fee, data?, signature }], depositCount?, feeRecipient? }")
+    .addParam("file", "Path to the batch json")
+    .setAction(async (args: RollupArgs & { file: string }, hre) => {
+        const client = await connect(hre, args);
+        const batch = readJson<BatchFile>(args.file);
+        const txs: Transaction[] = batch.txs.map(({ from, to, token, nft, amount, nonce, fee, data, signature }) => (
+            { from, to, token: BigInt(token ?? 0), nft: BigInt(nft ?? 0), amount: BigInt(amount), nonce: BigInt(nonce), fee: BigInt(fee), data: data ?? "0x", signature }
+        ));
+        if (txs.length === 0) throw new Error("Empty batch");
+        const depositCount = batch.depositCount === undefined ? await client.rollup.getPendingDeposits() : BigInt(batch.depositCount);
+        const feeRecipient = batch.feeRecipient ?? (await hre.ethers.getSigners())[args.signer].address;
+
+        const tx = await client.rollup.submitRollupBlock(batch.stateRoot, computeRoot(txs.map(getMerkleLeaf)), encodeBatch(txs), depositCount, feeRecipient, {
+            value: await (await client.getConfig()).operatorBond(),
+        });
+        const receipt = (await tx.wait())!;
+        printEvents(client, receipt);
+        return (await client.rollup.getCurrentState())[1];
+    });
+
+rollupTask("rollup:status", "Prints the chain head, or a block's fields & lifecycle status")
+    .addOptionalPositionalParam("block", "Rollup block number", undefined, types.bigint)
+    .setAction(async (args: RollupArgs & { block?: bigint }, hre) => {
+        const client = await connect(hre, args);
+        if (args.block === undefined) {
+            const [stateRoot, head] = await client.rollup.getCurrentState();
+            console.log(`Head: block ${head}, state root ${stateRoot}`);
+            console.log(`Inbox: ${await client.rollup.getInboxLength()} deposits, ${await client.rollup.getPendingDeposits()} pending`);
+            console.log(`TVL: ${hre.ethers.formatEther(await client.rollup.totalValueLocked())} ETH`);
+            return head;
+        }
+
+        const status = await client.getBlockStatus(args.block);
+        const block = await client.rollup.getRollupBlock(args.block);
+        console.log(`Block ${args.block}: ${status}`);
+        if (status !== "missing") {
+            console.log(`  state root ${block.stateRoot}\n  tx root ${block.txRoot}, ${block.txCount} txs`);
+            console.log(`  operator ${block.operator}, submitted at L1 block ${block.blockNumber}`);
+            console.log(`  ${hre.ethers.formatEther(block.fees)} ETH in fees to ${block.feeRecipient}`);
+            console.log(`  inbox index ${block.inboxIndex}, ${block.activeDisputes} open disputes`);
+        }
+        return status;
+    });
+
+rollupTask("rollup:challenge", "Challenges a single-tx block with a FraudProofLib.FraudProof json")
+    .addPositionalParam("block", "Rollup block number", undefined, types.bigint)
+    .addParam("proof", "Path to the fraud proof json")
+    .setAction(async (args: RollupArgs & { block: bigint; proof: string }, hre) => {
+        const client = await connect(hre, args);
+        const tx = await client.rollup.challengeBlock(args.block, encodeFraudProof(readJson<FraudProof>(args.proof)));
+        printEvents(client, (await tx.wait())!);
+    });
+
+rollupTask("rollup:finalize", "Finalizes a block whose challenge period is over")
+    .addPositionalParam("block", "Rollup block number", undefined, types.bigint)
+    .setAction(async (args: RollupArgs & { block: bigint }, hre) => {
+        const client = await connect(hre, args);
+        printEvents(client, await client.finalizeBlock(args.block));
+    });
+
+rollupTask("rollup:withdraw", "Requests a withdrawal of the signer's L2 exit balance at a block, or claims a token's straight away")
+    .addParam("block", "Rollup block number the proof is against", undefined, types.bigint)
+    .addParam("proof", "Path to the exit account's StateLib.StateProof json")
+    .addOptionalParam("token", "ERC-20 address to claim instead of ETH, the block has to be finalized")
+    .setAction(async (args: RollupArgs & { block: bigint; proof: string; token?: string }, hre) => {
+        const client = await connect(hre, args);
+        if (args.token) {
+            printEvents(client, (await client.withdrawERC20(args.block, args.token, readJson<StateProof>(args.proof))).receipt);
+            return;
+        }
+        const { requestId, receipt } = await client.requestWithdrawal(args.block, readJson<StateProof>(args.proof));
+        printEvents(client, receipt);
+        return requestId;
+    });
+
+rollupTask("rollup:process-withdrawal", "Pays out a withdrawal request once its block is finalized")
+    .addPositionalParam("id", "Withdrawal request id")
+    .setAction(async (args: RollupArgs & { id: string }, hre) => {
+        const client = await connect(hre, args);
+        printEvents(client, await client.processWithdrawal(args.id));
+    });
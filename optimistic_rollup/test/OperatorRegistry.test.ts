@@ -0,0 +1,134 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { OperatorRegistry } from "../typechain-types";
+import { EMPTY_STATE_ROOT } from "../src/lib/state";
+
+describe("OperatorRegistry", function () {
+    let registry: OperatorRegistry;
+    let owner: SignerWithAddress;
+    let operator: SignerWithAddress;
+    let stranger: SignerWithAddress;
+    let rollup: SignerWithAddress; // stands in for the rollup contract
+    let stake: bigint;
+
+    this.beforeEach(async function () {
+        [owner, operator, stranger, rollup] = await ethers.getSigners();
+        registry = await (await ethers.getContractFactory("OperatorRegistry")).deploy();
+        await registry.waitForDeployment();
+        stake = await registry.MIN_STAKE();
+    });
+
+    async function registerOperator() {
+        await registry.approveOperator(operator.address, true);
+        await registry.connect(operator).registerOperator({ value: stake });
+    }
+
+    describe("Registration", function () {
+        it("Should only let the owner approve operators", async function () {
+            await expect(registry.connect(stranger).approveOperator(stranger.address, true)).to.be.revertedWith("Ownable: caller is not the owner");
+            await expect(registry.approveOperator(operator.address, true)).to.emit(registry, "OperatorApproved").withArgs(operator.address, true);
+            expect(await registry.approved(operator.address)).to.be.true;
+        });
+
+        it("Should register approved operators with enough stake", async function () {
+            await registry.approveOperator(operator.address, true);
+            await expect(registry.connect(operator).registerOperator({ value: stake })).to.emit(registry, "OperatorRegistered").withArgs(operator.address, stake);
+
+            expect(await registry.isActive(operator.address)).to.be.true;
+            expect((await registry.getOperator(operator.address)).stake).to.equal(stake);
+        });
+
+        it("Should reject operators that weren't approved", async function () {
+            await expect(registry.connect(stranger).registerOperator({ value: stake })).to.be.revertedWith("Operator not approved");
+        });
+
+        it("Should reject insufficient stake", async function () {
+            await registry.approveOperator(operator.address, true);
+            await expect(registry.connect(operator).registerOperator({ value: stake - 1n })).to.be.revertedWith("Insufficient stake");
+        });
+
+        it("Should reject registering twice", async function () {
+            await registerOperator();
+            await expect(registry.connect(operator).registerOperator({ value: stake })).to.be.revertedWith("Already registered");
+        });
+
+        it("Should deactivate operators whose approval is revoked", async function () {
+            await registerOperator();
+            await registry.approveOperator(operator.address, false);
+            expect(await registry.isActive(operator.address)).to.be.false;
+        });
+    });
+
+    describe("Unstaking", function () {
+        beforeEach(async function () {
+            await registerOperator();
+        });
+
+        it("Should deactivate the operator immediately", async function () {
+            await expect(registry.connect(operator).unstake()).to.emit(registry, "UnstakeRequested");
+            expect(await registry.isActive(operator.address)).to.be.false;
+            await expect(registry.connect(operator).unstake()).to.be.revertedWith("Operator not active");
+        });
+
+        it("Should hold the stake for longer than the challenge period", async function () {
+            const rollupFactory = await ethers.getContractFactory("OptimisticRollup");
+            const rollupContract = await rollupFactory.deploy(await registry.getAddress(), ethers.parseEther("1.0"), 50400, EMPTY_STATE_ROOT);
+            expect(await registry.UNSTAKE_DELAY()).to.be.gt(await (await ethers.getContractAt("RollupConfig", await rollupContract.config())).challengePeriod());
+
+            await registry.connect(operator).unstake();
+            await ethers.provider.send("hardhat_mine", [ethers.toQuantity((await registry.UNSTAKE_DELAY()) - 2n)]);
+            await expect(registry.connect(operator).withdrawStake()).to.be.revertedWith("Unstake delay not over");
+        });
+
+        it("Should pay out the stake after the delay", async function () {
+            await registry.connect(operator).unstake();
+            await ethers.provider.send("hardhat_mine", [ethers.toQuantity(await registry.UNSTAKE_DELAY())]);
+
+            await expect(registry.connect(operator).withdrawStake()).to.changeEtherBalance(operator, stake);
+            expect((await registry.getOperator(operator.address)).status).to.equal(0); // None
+
+            // still approved, so they can come back
+            await expect(registry.connect(operator).registerOperator({ value: stake })).to.emit(registry, "OperatorRegistered");
+        });
+
+        it("Should reject withdrawing without unstaking first", async function () {
+            await expect(registry.connect(operator).withdrawStake()).to.be.revertedWith("Operator not exiting");
+        });
+    });
+
+    describe("Ejection", function () {
+        beforeEach(async function () {
+            await registerOperator();
+        });
+
+        it("Should only be set up once, by the owner", async function () {
+            await expect(registry.connect(stranger).setRollup(rollup.address)).to.be.revertedWith("Ownable: caller is not the owner");
+            await registry.setRollup(rollup.address);
+            await expect(registry.setRollup(stranger.address)).to.be.revertedWith("Rollup already set");
+        });
+
+        it("Should only let the rollup eject operators", async function () {
+            await registry.setRollup(rollup.address);
+            await expect(registry.connect(stranger).eject(operator.address)).to.be.revertedWith("Only rollup");
+        });
+
+        it("Should forfeit the stake to the rollup", async function () {
+            await registry.setRollup(rollup.address);
+            const tx = registry.connect(rollup).eject(operator.address);
+            await expect(tx).to.emit(registry, "OperatorEjected").withArgs(operator.address, stake);
+            await expect(tx).to.changeEtherBalance(rollup, stake);
+
+            expect(await registry.isActive(operator.address)).to.be.false;
+            expect((await registry.getOperator(operator.address)).status).to.equal(3); // Ejected
+            await expect(registry.connect(operator).registerOperator({ value: stake })).to.be.revertedWith("Operator not approved");
+        });
+
+        it("Should still eject operators that are unstaking", async function () {
+            await registry.setRollup(rollup.address);
+            await registry.connect(operator).unstake();
+            await expect(registry.connect(rollup).eject(operator.address)).to.emit(registry, "OperatorEjected").withArgs(operator.address, stake);
+            await expect(registry.connect(operator).withdrawStake()).to.be.revertedWith("Operator not exiting");
+        });
+    });
+});
@@ -1,43 +1,121 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import { ethers, ignition } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { HashZero } from "@ethersproject/constants";
-import { OptimisticRollup } from "../typechain-types";
+import { MockERC20, MockERC721, MockMessageTarget, OperatorRegistry, OptimisticRollup } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
-import { assert, Signer } from "ethers";
+import { assert, ContractTransactionResponse, ParamType, Signer } from "ethers";
+import { computeStateRoot, EMPTY_STATE_ROOT, generateAccountProof, sortedAccounts, StateSnapshot } from "../src/lib/state";
+import { generateProof } from "../src/lib/merkle";
+import { buildEscapeProof, buildExitProof, l2ExitAddress } from "../src/withdrawals";
+import { computeInboxAccumulator, creditDeposit, EMPTY_INBOX_ACCUMULATOR, l2NftId } from "../src/inbox";
+import { batchMessages, buildMessageProof, computeMessageRoot } from "../src/messages";
+import { getRollupConfig, getRollupDomain, withdrawalRequestId } from "../src/sdk";
+import { applyTransaction, ETH, getMessageLeaf, signTransaction } from "../src/lib/transaction";
+import { encodeBatch } from "../src/lib/batch";
+import { buildDepositProof, buildFraudProof, encodeDepositProof } from "../src/lib/fraudProof";
+import OptimisticRollupModule from "../ignition/modules/OptimisticRollup";
 
 describe("OptimisticRollup", function () {
     let rollup: OptimisticRollup;
+    let registry: OperatorRegistry;
     let owner: SignerWithAddress;
     let user1: SignerWithAddress;
     let user2: SignerWithAddress;
     let operator: SignerWithAddress;
     let challenger: SignerWithAddress;
+    let operator2: SignerWithAddress;
+    let fraudProofType: ParamType;
+    let merkle: any;
+    let fraudProofLib: any;
 
     // get signers & deploy contract
     this.beforeEach(async function () {
-        [owner, user1, user2, operator, challenger] = await ethers.getSigners();
+        [owner, user1, user2, operator, challenger, operator2] = await ethers.getSigners();
+        const registry_factory = await ethers.getContractFactory("OperatorRegistry");
+        registry = await registry_factory.deploy();
         const rollup_factory = await ethers.getContractFactory("OptimisticRollup");
-        rollup = await rollup_factory.deploy();
+        rollup = await rollup_factory.deploy(await registry.getAddress(), ethers.parseEther("1.0"), 50400, EMPTY_STATE_ROOT);
         await rollup.waitForDeployment();
+        await registry.setRollup(await rollup.getAddress());
+
+        // both operators are known sequencers
+        for (const op of [operator, operator2]) {
+            await registry.approveOperator(op.address, true);
+            await registry.connect(op).registerOperator({ value: await registry.MIN_STAKE() });
+        }
     });
 
-    async function getRequestIdFromTx(tx: any): Promise<string> {
-        const receipt = await tx.wait();
-        const event = receipt.logs.find((log: any) => {
-            try {
-                const parsed = rollup.interface.parseLog(log);
-                return parsed?.name === "WithdrawalRequested";
-            } catch {
-                return false;
-            }
-        });
+    this.beforeAll(async function () {
+        fraudProofType = await fraudProofParamType();
+        merkle = await (await ethers.getContractFactory("MerkleLibTest")).deploy();
+        fraudProofLib = await (await ethers.getContractFactory("FraudProofLibTest")).deploy();
+    });
 
-        if (!event) {
-            throw new Error("WithdrawalRequested event not found");
-        }
+    function makeTx(from: string, to: string, amount: bigint, nonce: bigint, fee: bigint, token = ETH) {
+        return { from, to, token, nft: 0n, amount, nonce, fee, data: "0x", signature: "0x" };
+    }
 
-        const parsed = rollup.interface.parseLog(event);
-        return parsed!.args[2]; // requestId
+    // a tx the rollup will actually execute, signed for its domain
+    async function makeSignedTx(from: SignerWithAddress, to: string, amount: bigint, nonce: bigint, fee: bigint, token = ETH) {
+        return signTransaction(from, { from: from.address, to, token, amount, nonce, fee }, await getRollupDomain(rollup));
+    }
+
+    // FraudProofLibTest's two-account state, with user1 sending 1 ETH to user2 & the fee going to the operator
+    async function setupScenario() {
+        const { signature } = await makeSignedTx(user1, user2.address, ethers.parseEther("1.0"), 0n, ethers.parseEther("0.01"));
+        return fraudProofLib.setupCompleteScenario(user1.address, user2.address, operator.address, ethers.parseEther("5.0"), ethers.parseEther("3.0"), ethers.parseEther("1.0"), ethers.parseEther("0.01"), signature);
+    }
+
+    // TransactionLib.serialize
+    function encodeTx(tx: { from: string; to: string; token: bigint; nft: bigint; amount: bigint; nonce: bigint; fee: bigint; data: string; signature: string }): string {
+        return ethers.AbiCoder.defaultAbiCoder().encode(
+            ["address", "address", "uint256", "uint256", "uint256", "uint256", "uint256", "bytes", "bytes"],
+            [tx.from, tx.to, tx.token, tx.nft, tx.amount, tx.nonce, tx.fee, tx.data, tx.signature]
+        );
+    }
+
+    // BatchLib-encoded txs plus the MerkleLib root over their serialized leaves
+    async function makeBatch(txs?: ReturnType<typeof makeTx>[]) {
+        txs = txs ?? [makeTx(user1.address, user2.address, ethers.parseEther("1.0"), 0n, ethers.parseEther("0.01"))];
+        const transactions = encodeBatch(txs);
+        const leaves = txs.map((tx) => ethers.keccak256(encodeTx(tx)));
+        const txRoot: string = await merkle.computeRoot(leaves);
+        return { transactions, leaves, txRoot };
+    }
+
+    async function getRequestIdFromTx(tx: ContractTransactionResponse): Promise<string> {
+        return withdrawalRequestId(rollup, (await tx.wait())!);
+    }
+
+    // FraudProofLib.FraudProof abi type, taken from the lib's test harness
+    async function fraudProofParamType(): Promise<ParamType> {
+        const factory = await ethers.getContractFactory("FraudProofLibTest");
+        return factory.interface.getFunction("verifyFraudProof")!.inputs[0];
+    }
+
+    function encodeFraudProof(proof: any): string {
+        return ethers.AbiCoder.defaultAbiCoder().encode([fraudProofType], [proof]);
+    }
+
+    function makeStateProof(account: string, balance: bigint, nonce: bigint) {
+        return { account, accountData: { balance, nonce, tokenBalances: [], nfts: [] }, siblings: [], bitmap: 0n };
+    }
+
+    function makeFraudProof(roots: { preStateRoot: string; claimedPostStateRoot: string; transactionRoot: string }) {
+        const amount = ethers.parseEther("1.0");
+        const fee = ethers.parseEther("0.01");
+        return {
+            transaction: { from: user1.address, to: user2.address, token: ETH, nft: 0n, amount, nonce: 0n, fee, data: "0x", signature: "0x" },
+            fromAccountProof: makeStateProof(user1.address, ethers.parseEther("5.0"), 0n),
+            toAccountProof: makeStateProof(user2.address, 0n, 0n),
+            feeRecipientProof: makeStateProof(operator.address, 0n, 0n),
+            claimedPostStateRoot: roots.claimedPostStateRoot,
+            preStateRoot: roots.preStateRoot,
+            transactionIndex: 0n,
+            transactionRoot: roots.transactionRoot,
+            transactionMerkleProof: { proof: [], index: 0 },
+        };
     }
 
 
@@ -52,21 +130,100 @@ describe("OptimisticRollup", function () {
             expect(totalLocked).to.equal(0);
         });
 
-        it("Should have zero balances initially", async function () {
-            const user1bal = await rollup.getBalance(user1.address);
-            const user2bal = await rollup.getBalance(user2.address);
-            expect(user1bal).to.equal(0);
-            expect(user2bal).to.equal(0);
+        it("Should take its bond, challenge period & genesis root from the constructor", async function () {
+            const genesisStateRoot = computeStateRoot(new Map([[user1.address, { balance: ethers.parseEther("1.0"), nonce: 0n }]]));
+            const devnet = await (await ethers.getContractFactory("OptimisticRollup")).deploy(await registry.getAddress(), ethers.parseEther("0.5"), 10, genesisStateRoot);
+            const config = await getRollupConfig(devnet);
+            expect(await config.operatorBond()).to.equal(ethers.parseEther("0.5"));
+            expect(await config.challengePeriod()).to.equal(10);
+            expect(await config.challengerRewardBps()).to.equal(5000);
+            expect(await devnet.getCurrentState()).to.deep.equal([genesisStateRoot, 0n]);
+            expect((await devnet.getRollupBlock(0)).stateRoot).to.equal(genesisStateRoot);
+        });
+
+        it("Should reject a challenge period the registry's unstake delay doesn't outlast", async function () {
+            const factory = await ethers.getContractFactory("OptimisticRollup");
+            const registryAddress = await registry.getAddress();
+            await expect(factory.deploy(registryAddress, ethers.parseEther("1.0"), await registry.UNSTAKE_DELAY(), EMPTY_STATE_ROOT)).to.be.revertedWith("Invalid challenge period");
+            await expect(factory.deploy(registryAddress, ethers.parseEther("1.0"), 0, EMPTY_STATE_ROOT)).to.be.revertedWith("Invalid challenge period");
+            await expect(factory.deploy(registryAddress, 0, 50400, EMPTY_STATE_ROOT)).to.be.revertedWith("Invalid operator bond");
+            await expect(factory.deploy(registryAddress, ethers.parseEther("1.0"), 50400, HashZero)).to.be.revertedWith("Invalid state root");
+        });
+
+        it("Should deploy through the Ignition module with its parameters", async function () {
+            const deployed = await ignition.deploy(OptimisticRollupModule, { parameters: { OptimisticRollupModule: { challengePeriod: 10 } } });
+            const config = await ethers.getContractAt("RollupConfig", await deployed.rollup.config());
+            expect(await config.challengePeriod()).to.equal(10);
+            expect(await config.operatorBond()).to.equal(ethers.parseEther("1.0"));
+            expect(await deployed.rollup.getCurrentState()).to.deep.equal([EMPTY_STATE_ROOT, 0n]);
+            expect(await deployed.registry.rollup()).to.equal(await deployed.rollup.getAddress());
+        });
+
+        it("Should start with an empty inbox", async function () {
+            expect(await rollup.getInboxLength()).to.equal(0);
+            expect(await rollup.getPendingDeposits()).to.equal(0);
+            expect(await rollup.getInboxAccumulator(0)).to.equal(EMPTY_INBOX_ACCUMULATOR);
+        });
+    });
+
+    describe("Governed Parameters", function () {
+        const operatorBond = ethers.parseEther("1.0");
+
+        async function governParam(param: number, value: bigint) {
+            const config = await getRollupConfig(rollup);
+            await config.scheduleChange(param, value);
+            await time.increase(await config.TIMELOCK_DELAY());
+            await config.executeChange(param);
+        }
+
+        async function submitBlock(value = operatorBond) {
+            const { transactions, txRoot } = await makeBatch();
+            await rollup.connect(operator).submitRollupBlock(ethers.keccak256(ethers.toUtf8Bytes("state")), txRoot, transactions, 0, operator.address, { value });
+            return (await rollup.getCurrentState())[1];
+        }
+
+        it("Should take the bond from the config at submission", async function () {
+            const first = await submitBlock();
+            await governParam(0, ethers.parseEther("2.0")); // OperatorBond
+
+            await expect(submitBlock()).to.be.revertedWith("Insufficient bond");
+            const second = await submitBlock(ethers.parseEther("2.0"));
+            expect(await rollup.getBlockBond(first)).to.equal(operatorBond);
+            expect(await rollup.getBlockBond(second)).to.equal(ethers.parseEther("2.0"));
+        });
+
+        it("Should keep a block's challenge period when governance changes it", async function () {
+            const config = await getRollupConfig(rollup);
+            const first = await submitBlock();
+            await config.scheduleChange(1, 100); // ChallengePeriod
+            // pending changes don't touch new blocks either
+            const second = await submitBlock();
+            await time.increase(await config.TIMELOCK_DELAY());
+            await config.executeChange(1);
+            const third = await submitBlock();
+
+            expect((await rollup.getRollupBlock(first)).challengePeriod).to.equal(50400);
+            expect((await rollup.getRollupBlock(second)).challengePeriod).to.equal(50400);
+            expect((await rollup.getRollupBlock(third)).challengePeriod).to.equal(100);
+
+            await ethers.provider.send("hardhat_mine", ["0x65"]); // 101 blocks
+            expect(await rollup.canChallenge(first)).to.be.true;
+            expect(await rollup.canChallenge(third)).to.be.false;
+            await expect(rollup.finalizeBlock(first)).to.be.revertedWith("Challenge period not expired");
+
+            await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+            for (const blockNum of [first, second, third]) await rollup.finalizeBlock(blockNum);
         });
     });
 
     describe("Deposits", function () {
         it("Should allow deposits of eth", async function () {
             const amt = ethers.parseEther("1.0");
-            await expect(rollup.connect(user1).deposit({ value: amt })).to.emit(rollup, "Deposit").withArgs(user1.address, amt);
+            await expect(rollup.connect(user1).deposit({ value: amt })).to.emit(rollup, "Deposit").withArgs(user1.address, amt, 0);
 
-            const l2bal = await rollup.getBalance(user1.address);
-            expect(l2bal).to.equal(amt);
+            const entry = await rollup.inbox(0);
+            expect(entry.user).to.equal(user1.address);
+            expect(entry.amount).to.equal(amt);
 
             const tvl = await rollup.totalValueLocked();
             expect(tvl).to.equal(amt);
@@ -81,10 +238,10 @@ describe("OptimisticRollup", function () {
             const deposit2 = ethers.parseEther("0.5");
 
             await rollup.connect(user1).deposit({ value: deposit1 });
-            await rollup.connect(user1).deposit({ value: deposit2 });
+            await expect(rollup.connect(user1).deposit({ value: deposit2 })).to.emit(rollup, "Deposit").withArgs(user1.address, deposit2, 1);
 
-            const l2Balance = await rollup.getBalance(user1.address);
-            expect(l2Balance).to.equal(deposit1 + deposit2);
+            expect(await rollup.getInboxLength()).to.equal(2);
+            expect(await rollup.getPendingDeposits()).to.equal(2);
 
             const totalLocked = await rollup.totalValueLocked();
             expect(totalLocked).to.equal(deposit1 + deposit2);
@@ -97,11 +254,11 @@ describe("OptimisticRollup", function () {
             await rollup.connect(user1).deposit({ value: deposit1 });
             await rollup.connect(user2).deposit({ value: deposit2 });
 
-            const balance1 = await rollup.getBalance(user1.address);
-            const balance2 = await rollup.getBalance(user2.address);
+            const entry1 = await rollup.inbox(0);
+            const entry2 = await rollup.inbox(1);
 
-            expect(balance1).to.equal(deposit1);
-            expect(balance2).to.equal(deposit2);
+            expect([entry1.user, entry1.amount]).to.deep.equal([user1.address, deposit1]);
+            expect([entry2.user, entry2.amount]).to.deep.equal([user2.address, deposit2]);
 
             const totalLocked = await rollup.totalValueLocked();
             expect(totalLocked).to.equal(deposit1 + deposit2);
@@ -118,15 +275,187 @@ describe("OptimisticRollup", function () {
             const finalBalance = await ethers.provider.getBalance(contractAddress);
             expect(finalBalance).to.equal(depositAmount);
         });
+
+        it("Should chain deposits into the inbox accumulator", async function () {
+            const deposits = [
+                { user: user1.address, amount: ethers.parseEther("1.0") },
+                { user: user2.address, amount: ethers.parseEther("2.0") },
+                { user: user1.address, amount: ethers.parseEther("0.5") },
+            ];
+            for (const { user, amount } of deposits) {
+                await rollup.connect(await ethers.getSigner(user)).deposit({ value: amount });
+            }
+
+            expect(await rollup.getInboxAccumulator(1)).to.equal(computeInboxAccumulator(deposits.slice(0, 1)));
+            expect(await rollup.getInboxAccumulator(3)).to.equal(computeInboxAccumulator(deposits));
+            expect((await rollup.inbox(2)).accumulator).to.equal(computeInboxAccumulator(deposits));
+        });
     });
 
-    describe("Account Structure", function () {
-        it("Should track nonces correctly", async function () {
-            const depositAmount = ethers.parseEther("1.0");
-            await rollup.connect(user1).deposit({ value: depositAmount });
-            const account = await rollup.accounts(user1.address);
-            expect(account.balance).to.equal(depositAmount);
-            expect(account.nonce).to.equal(0); // Should start at 0
+    describe("Deposit Inbox", function () {
+        const operatorBond = ethers.parseEther("1.0");
+        const newStateRoot = ethers.keccak256(ethers.toUtf8Bytes("new-state"));
+
+        beforeEach(async function () {
+            await rollup.connect(user1).deposit({ value: ethers.parseEther("1.0") });
+            await rollup.connect(user2).deposit({ value: ethers.parseEther("2.0") });
+        });
+
+        async function submitBlock(depositCount: number, stateRoot = newStateRoot, submitter = operator) {
+            const { transactions, txRoot } = await makeBatch();
+            return rollup.connect(submitter).submitRollupBlock(stateRoot, txRoot, transactions, depositCount, operator.address, { value: operatorBond });
+        }
+
+        it("Should record how far each block consumed the inbox", async function () {
+            await submitBlock(1);
+            expect((await rollup.getRollupBlock(1)).inboxIndex).to.equal(1);
+            expect(await rollup.getPendingDeposits()).to.equal(1);
+
+            await submitBlock(1);
+            expect((await rollup.getRollupBlock(2)).inboxIndex).to.equal(2);
+            expect(await rollup.getPendingDeposits()).to.equal(0);
+        });
+
+        it("Should reject consuming more deposits than are queued", async function () {
+            await expect(submitBlock(3)).to.be.revertedWith("Not enough queued deposits");
+        });
+
+        it("Should allow leaving recent deposits queued", async function () {
+            await ethers.provider.send("hardhat_mine", [ethers.toQuantity(7000)]);
+            await expect(submitBlock(0)).to.emit(rollup, "RollupBlockSubmitted");
+        });
+
+        it("Should block submissions that skip overdue deposits", async function () {
+            await ethers.provider.send("hardhat_mine", [ethers.toQuantity(7200)]);
+            await expect(submitBlock(0)).to.be.revertedWith("Overdue deposits not included");
+            await expect(submitBlock(1)).to.be.revertedWith("Overdue deposits not included");
+            await expect(submitBlock(2)).to.emit(rollup, "RollupBlockSubmitted");
+        });
+
+        it("Should only enforce the deadline on the oldest pending deposit", async function () {
+            await ethers.provider.send("hardhat_mine", [ethers.toQuantity(7200)]);
+            await rollup.connect(user1).deposit({ value: ethers.parseEther("0.5") });
+
+            await expect(submitBlock(2)).to.emit(rollup, "RollupBlockSubmitted");
+            expect(await rollup.getPendingDeposits()).to.equal(1);
+        });
+
+        it("Should requeue deposits consumed by dropped blocks", async function () {
+            // block 2 is fraudulent, block 3 consumes both deposits on top of it
+            const scenario = await setupScenario();
+            await submitBlock(0, scenario.preStateRoot);
+            const fraudulentRoot = ethers.keccak256(ethers.toUtf8Bytes("fraudulent-state"));
+            const { transactions, txRoot } = await makeBatch([scenario.transaction]);
+            await rollup.connect(operator).submitRollupBlock(fraudulentRoot, txRoot, transactions, 0, operator.address, { value: operatorBond });
+            await submitBlock(2);
+            expect(await rollup.getPendingDeposits()).to.equal(0);
+
+            const fromProof = scenario.user1PreProof.toArray(true);
+            const toProof = scenario.user2PreProof.toArray(true);
+            const proof = {
+                transaction: scenario.transaction.toArray(true),
+                fromAccountProof: fromProof,
+                toAccountProof: toProof,
+                feeRecipientProof: scenario.feeRecipientPreProof.toArray(true),
+                claimedPostStateRoot: fraudulentRoot,
+                preStateRoot: scenario.preStateRoot,
+                transactionIndex: 0n,
+                transactionRoot: txRoot,
+                transactionMerkleProof: { proof: [], index: 0 },
+            };
+            await rollup.connect(challenger).challengeBlock(2, encodeFraudProof(proof));
+
+            expect(await rollup.getPendingDeposits()).to.equal(2);
+            // still bound by their original deadline
+            await ethers.provider.send("hardhat_mine", [ethers.toQuantity(7200)]);
+            await expect(submitBlock(0, newStateRoot, operator2)).to.be.revertedWith("Overdue deposits not included");
+            await submitBlock(2, newStateRoot, operator2);
+            expect((await rollup.getRollupBlock(2)).inboxIndex).to.equal(2);
+        });
+
+        describe("disputing deposit steps", function () {
+            let txs: Awaited<ReturnType<typeof makeSignedTx>>[];
+            let batch: Awaited<ReturnType<typeof makeBatch>>;
+
+            // block 1 credits both deposits a step each, then runs user1's tx. the faulty step credits its deposit twice
+            async function stepStates(faultyStep = -1): Promise<StateSnapshot[]> {
+                const state: StateSnapshot = new Map();
+                const steps = [new Map(state)];
+                for (let i = 0; i < 2; i++) {
+                    const entry = await rollup.inbox(i);
+                    creditDeposit(state, entry);
+                    if (i === faultyStep) creditDeposit(state, entry);
+                    steps.push(new Map(state));
+                }
+                const domain = await getRollupDomain(rollup);
+                for (const txn of txs) {
+                    applyTransaction(state, txn, operator.address, domain);
+                    steps.push(new Map(state));
+                }
+                return steps;
+            }
+
+            async function submitDepositBlock(faultyStep = -1) {
+                const steps = await stepStates(faultyStep);
+                await rollup.connect(operator).submitRollupBlock(computeStateRoot(steps[steps.length - 1]), batch.txRoot, batch.transactions, 2, operator.address, { value: operatorBond });
+            }
+
+            // operator answers with its own roots, challenger agrees with whatever matches the honest ones unless griefing
+            async function bisect(disputeId: bigint, faultyStep: number, griefing = false) {
+                const [operatorSteps, honestSteps] = [await stepStates(faultyStep), await stepStates()];
+                let dispute = await rollup.getDispute(disputeId);
+                while (dispute.hi - dispute.lo > 1n) {
+                    const mid = Number((dispute.lo + dispute.hi) / 2n);
+                    const operatorRoot = computeStateRoot(operatorSteps[mid]);
+                    await rollup.connect(operator).bisectDispute(disputeId, operatorRoot);
+                    await rollup.connect(challenger).selectHalf(disputeId, !griefing && operatorRoot === computeStateRoot(honestSteps[mid]));
+                    dispute = await rollup.getDispute(disputeId);
+                }
+                return { dispute, honestSteps };
+            }
+
+            beforeEach(async function () {
+                txs = [await makeSignedTx(user1, user2.address, ethers.parseEther("0.5"), 0n, ethers.parseEther("0.01"))];
+                batch = await makeBatch(txs);
+            });
+
+            it("Should send blocks that consume deposits through the dispute game", async function () {
+                await submitDepositBlock(1);
+                const [, , afterDeposits] = await stepStates(1);
+                const proof = buildFraudProof(txs, 0, afterDeposits, (await rollup.getRollupBlock(1)).stateRoot, operator.address, await getRollupDomain(rollup));
+                await expect(rollup.connect(challenger).challengeBlock(1, encodeFraudProof(proof))).to.be.revertedWith("Multi-step block, open a dispute");
+
+                // a step per deposit, then one per tx
+                await expect(rollup.connect(challenger).openDispute(1, { value: await rollup.DISPUTE_BOND() }))
+                    .to.emit(rollup, "DisputeOpened")
+                    .withArgs(1, 1, challenger.address, 3);
+            });
+
+            it("Should drop a block that credits a deposit wrongly", async function () {
+                await submitDepositBlock(1);
+                await rollup.connect(challenger).openDispute(1, { value: await rollup.DISPUTE_BOND() });
+                const { dispute, honestSteps } = await bisect(1n, 1);
+                expect([dispute.lo, dispute.hi]).to.deep.equal([1n, 2n]);
+
+                const proof = buildDepositProof(await rollup.inbox(1), honestSteps[1], dispute.hiRoot);
+                await expect(rollup.connect(challenger).proveDisputedStep(1, encodeDepositProof(proof)))
+                    .to.emit(rollup, "Challenge")
+                    .withArgs(1, challenger.address, 0, "Operator credited deposit incorrectly");
+                expect(await rollup.getPendingDeposits()).to.equal(2);
+            });
+
+            it("Should only take a proof for the deposit at the disputed step", async function () {
+                // honest block, griefing challenger disagrees all the way down to the first deposit
+                await submitDepositBlock();
+                await rollup.connect(challenger).openDispute(1, { value: await rollup.DISPUTE_BOND() });
+                const { dispute, honestSteps } = await bisect(1n, -1, true);
+                expect([dispute.lo, dispute.hi]).to.deep.equal([0n, 1n]);
+
+                const otherDeposit = buildDepositProof(await rollup.inbox(1), honestSteps[0], dispute.hiRoot);
+                await expect(rollup.connect(challenger).proveDisputedStep(1, encodeDepositProof(otherDeposit))).to.be.revertedWith("Proof deposit mismatch");
+                const proof = buildDepositProof(await rollup.inbox(0), honestSteps[0], dispute.hiRoot);
+                await expect(rollup.connect(challenger).proveDisputedStep(1, encodeDepositProof(proof))).to.be.revertedWith("No fraud detected");
+            });
         });
     });
 
@@ -140,13 +469,12 @@ describe("OptimisticRollup", function () {
 
         it("Should allow operators to submit valid batches", async function () {
             const newStateRoot = ethers.keccak256(ethers.toUtf8Bytes("new-state"));
-            const transactions = [
-                ethers.toUtf8Bytes("tx1"),
-                ethers.toUtf8Bytes("tx2")
-            ];
-            const txRoot = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["bytes[]"], [transactions]));
+            const { transactions, txRoot } = await makeBatch([
+                makeTx(user1.address, user2.address, ethers.parseEther("1.0"), 0n, ethers.parseEther("0.01")),
+                makeTx(user2.address, user1.address, ethers.parseEther("0.5"), 0n, ethers.parseEther("0.01"))
+            ]);
 
-            await expect(rollup.connect(operator).submitRollupBlock(newStateRoot, txRoot, transactions, { value: operatorBond })).to.emit(rollup, "RollupBlockSubmitted").withArgs(1, newStateRoot, txRoot, operator.address);
+            await expect(rollup.connect(operator).submitRollupBlock(newStateRoot, txRoot, transactions, 0, operator.address, { value: operatorBond })).to.emit(rollup, "RollupBlockSubmitted").withArgs(1, newStateRoot, txRoot, operator.address);
 
             const [currentStateRoot, blockNum] = await rollup.getCurrentState();
             expect(currentStateRoot).to.equal(newStateRoot);
@@ -156,36 +484,99 @@ describe("OptimisticRollup", function () {
             expect(rollupBlock.stateRoot).to.equal(newStateRoot);
             expect(rollupBlock.txRoot).to.equal(txRoot);
             expect(rollupBlock.operator).to.equal(operator.address);
+            expect(rollupBlock.feeRecipient).to.equal(operator.address);
+            expect(rollupBlock.fees).to.equal(ethers.parseEther("0.02"));
             expect(rollupBlock.finalized).to.be.false;
             expect(rollupBlock.challenged).to.be.false;
         });
 
+        it("Should reject blocks without a fee recipient", async function () {
+            const newStateRoot = ethers.keccak256(ethers.toUtf8Bytes("new-state"));
+            const { transactions, txRoot } = await makeBatch();
+            await expect(rollup.connect(operator).submitRollupBlock(newStateRoot, txRoot, transactions, 0, ethers.ZeroAddress, { value: operatorBond })).to.be.revertedWith("Invalid fee recipient");
+        });
+
+        it("Should reject submissions from unregistered operators", async function () {
+            const newStateRoot = ethers.keccak256(ethers.toUtf8Bytes("new-state"));
+            const { transactions, txRoot } = await makeBatch();
+            await expect(rollup.connect(user1).submitRollupBlock(newStateRoot, txRoot, transactions, 0, operator.address, { value: operatorBond })).to.be.revertedWith("Operator not registered");
+
+            // approval alone isn't enough, the operator has to stake too
+            await registry.approveOperator(user1.address, true);
+            await expect(rollup.connect(user1).submitRollupBlock(newStateRoot, txRoot, transactions, 0, operator.address, { value: operatorBond })).to.be.revertedWith("Operator not registered");
+        });
+
+        it("Should reject submissions from operators that are unstaking", async function () {
+            const newStateRoot = ethers.keccak256(ethers.toUtf8Bytes("new-state"));
+            const { transactions, txRoot } = await makeBatch();
+            await registry.connect(operator).unstake();
+            await expect(rollup.connect(operator).submitRollupBlock(newStateRoot, txRoot, transactions, 0, operator.address, { value: operatorBond })).to.be.revertedWith("Operator not registered");
+        });
+
         it("Should reject submissions without sufficient bond", async function () {
             const newStateRoot = ethers.keccak256(ethers.toUtf8Bytes("new-state"));
-            const transactions = [ethers.toUtf8Bytes("tx1")];
-            const txRoot = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["bytes[]"], [transactions]));
-            await expect(rollup.connect(operator).submitRollupBlock(newStateRoot, txRoot, transactions, { value: ethers.parseEther("0.5") })).to.be.revertedWith("Insufficient bond");
+            const { transactions, txRoot } = await makeBatch();
+            await expect(rollup.connect(operator).submitRollupBlock(newStateRoot, txRoot, transactions, 0, operator.address, { value: ethers.parseEther("0.5") })).to.be.revertedWith("Insufficient bond");
         });
 
         it("Should reject invalid state roots", async function () {
-            const transactions = [ethers.toUtf8Bytes("tx1")];
-            const txRoot = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["bytes[]"], [transactions]));
-            await expect(rollup.connect(operator).submitRollupBlock(HashZero, txRoot, transactions, { value: operatorBond })).to.be.revertedWith("Invalid state root");
+            const { transactions, txRoot } = await makeBatch();
+            await expect(rollup.connect(operator).submitRollupBlock(HashZero, txRoot, transactions, 0, operator.address, { value: operatorBond })).to.be.revertedWith("Invalid state root");
         });
 
         it("Should reject invalid transaction roots", async function () {
             const newStateRoot = ethers.keccak256(ethers.toUtf8Bytes("new-state"));
-            const transactions = [ethers.toUtf8Bytes("tx1")];
+            const { transactions } = await makeBatch();
             const wrongtxRoot = ethers.keccak256(ethers.toUtf8Bytes("wrong"));
-            await expect(rollup.connect(operator).submitRollupBlock(newStateRoot, wrongtxRoot, transactions, { value: operatorBond })).to.be.revertedWith("Invalid tx root");
+            await expect(rollup.connect(operator).submitRollupBlock(newStateRoot, wrongtxRoot, transactions, 0, operator.address, { value: operatorBond })).to.be.revertedWith("Invalid tx root");
+        });
+
+        it("Should reject empty batches", async function () {
+            const newStateRoot = ethers.keccak256(ethers.toUtf8Bytes("new-state"));
+            const txRoot = ethers.keccak256(ethers.toUtf8Bytes("tx-root"));
+            // an account table but no txs
+            const emptyBatch = ethers.concat(["0x0001", user1.address, "0x0000"]);
+            await expect(rollup.connect(operator).submitRollupBlock(newStateRoot, txRoot, emptyBatch, 0, operator.address, { value: operatorBond })).to.be.revertedWith("Empty batch");
+        });
+
+        it("Should reject malformed batches", async function () {
+            const newStateRoot = ethers.keccak256(ethers.toUtf8Bytes("new-state"));
+            const { transactions, txRoot } = await makeBatch();
+            const submit = (batch: string) => rollup.connect(operator).submitRollupBlock(newStateRoot, txRoot, batch, 0, operator.address, { value: operatorBond });
+
+            await expect(submit(ethers.dataSlice(transactions, 0, ethers.dataLength(transactions) - 1))).to.be.revertedWith("Batch truncated");
+            await expect(submit(ethers.concat([transactions, "0x00"]))).to.be.revertedWith("Trailing batch bytes");
+            // first tx's flags byte comes right after the table & tx count, its sender can't have a previous nonce
+            const flagsOffset = 2 + 20 * 2 + 2;
+            const bytes = ethers.getBytes(transactions);
+            bytes[flagsOffset] |= 1; // NONCE_OMITTED
+            await expect(submit(ethers.hexlify(bytes))).to.be.revertedWith("Nonce not inferable");
+        });
+
+        it("Should commit to a Merkle root over the batch's tx leaves", async function () {
+            const newStateRoot = ethers.keccak256(ethers.toUtf8Bytes("new-state"));
+            // odd-sized so the last leaf gets promoted a level
+            const { transactions, leaves, txRoot } = await makeBatch([
+                makeTx(user1.address, user2.address, ethers.parseEther("1.0"), 0n, ethers.parseEther("0.01")),
+                makeTx(user2.address, user1.address, ethers.parseEther("0.5"), 0n, ethers.parseEther("0.01")),
+                makeTx(user1.address, user2.address, ethers.parseEther("0.2"), 1n, ethers.parseEther("0.01"))
+            ]);
+
+            await rollup.connect(operator).submitRollupBlock(newStateRoot, txRoot, transactions, 0, operator.address, { value: operatorBond });
+            const storedRoot = (await rollup.getRollupBlock(1)).txRoot;
+
+            for (let i = 0; i < leaves.length; i++) {
+                const proof = await merkle.generateProof(leaves, i);
+                const merkleProof = { proof: [...proof.proof], index: proof.index };
+                expect(await merkle.verifyProof(leaves[i], storedRoot, merkleProof)).to.be.true;
+            }
         });
 
         it("Should track operator bonds correctly", async function () {
             const newStateRoot = ethers.keccak256(ethers.toUtf8Bytes("new-state"));
-            const transactions = [ethers.toUtf8Bytes("tx1")];
-            const txRoot = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["bytes[]"], [transactions]));
+            const { transactions, txRoot } = await makeBatch();
 
-            await rollup.connect(operator).submitRollupBlock(newStateRoot, txRoot, transactions, { value: operatorBond });
+            await rollup.connect(operator).submitRollupBlock(newStateRoot, txRoot, transactions, 0, operator.address, { value: operatorBond });
 
             const bond = await rollup.getOperatorBond(operator.address);
             expect(bond).to.equal(operatorBond);
@@ -194,11 +585,10 @@ describe("OptimisticRollup", function () {
         it("Should handle multiple batch submissions", async function () {
             const newStateRoot1 = ethers.keccak256(ethers.toUtf8Bytes("new-state-1"));
             const newStateRoot2 = ethers.keccak256(ethers.toUtf8Bytes("new-state-2"));
-            const transactions = [ethers.toUtf8Bytes("tx1")];
-            const txRoot = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["bytes[]"], [transactions]));
+            const { transactions, txRoot } = await makeBatch();
 
-            await rollup.connect(operator).submitRollupBlock(newStateRoot1, txRoot, transactions, { value: operatorBond });
-            await rollup.connect(operator).submitRollupBlock(newStateRoot2, txRoot, transactions, { value: operatorBond });
+            await rollup.connect(operator).submitRollupBlock(newStateRoot1, txRoot, transactions, 0, operator.address, { value: operatorBond });
+            await rollup.connect(operator).submitRollupBlock(newStateRoot2, txRoot, transactions, 0, operator.address, { value: operatorBond });
 
             const [currentStateRoot, blockNum] = await rollup.getCurrentState();
             expect(currentStateRoot).to.equal(newStateRoot2);
@@ -212,57 +602,689 @@ describe("OptimisticRollup", function () {
     describe("Challenge System", function () {
         const operatorBond = ethers.parseEther("1.0");
         let blockNum: number;
+        let transactionRoot: string;
+        let newStateRoot: string;
 
         beforeEach(async function () {
             await rollup.connect(user1).deposit({ value: ethers.parseEther("5.0") });
 
-            const newStateRoot = ethers.keccak256(ethers.toUtf8Bytes("new-state"));
-            const transactions = [ethers.toUtf8Bytes("tx1")];
-            const transactionRoot = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["bytes[]"], [transactions]));
+            newStateRoot = ethers.keccak256(ethers.toUtf8Bytes("new-state"));
+            const { transactions, txRoot } = await makeBatch();
+            transactionRoot = txRoot;
 
-            await rollup.connect(operator).submitRollupBlock(newStateRoot, transactionRoot, transactions, { value: operatorBond });
+            await rollup.connect(operator).submitRollupBlock(newStateRoot, transactionRoot, transactions, 0, operator.address, { value: operatorBond });
             blockNum = 1;
         });
 
-        it("Should allow challenges during challenge period", async function () {
+        async function boundFraudProof() {
+            const genesisRoot = (await rollup.getRollupBlock(0)).stateRoot;
+            return makeFraudProof({ preStateRoot: genesisRoot, claimedPostStateRoot: newStateRoot, transactionRoot });
+        }
+
+        it("Should reject malformed proofs", async function () {
             const fraudProof = ethers.toUtf8Bytes("fraud-proof-data");
+            await expect(rollup.connect(challenger).challengeBlock(blockNum, fraudProof)).to.be.reverted;
+        });
 
-            expect(await rollup.canChallenge(blockNum)).to.be.true;
+        it("Should reject proofs for a different batch", async function () {
+            const proof = await boundFraudProof();
+            proof.transactionRoot = ethers.keccak256(ethers.toUtf8Bytes("other-batch"));
+            await expect(rollup.connect(challenger).challengeBlock(blockNum, encodeFraudProof(proof))).to.be.revertedWith("Proof tx root mismatch");
+        });
 
-            await expect(rollup.connect(challenger).challengeBlock(blockNum, fraudProof)).to.emit(rollup, "Challenge").withArgs(blockNum, challenger.address);
+        it("Should reject proofs not built on the parent state root", async function () {
+            const proof = await boundFraudProof();
+            proof.preStateRoot = ethers.keccak256(ethers.toUtf8Bytes("other-pre-state"));
+            await expect(rollup.connect(challenger).challengeBlock(blockNum, encodeFraudProof(proof))).to.be.revertedWith("Proof pre-state mismatch");
+        });
+
+        it("Should reject proofs against a different post-state", async function () {
+            const proof = await boundFraudProof();
+            proof.claimedPostStateRoot = ethers.keccak256(ethers.toUtf8Bytes("other-post-state"));
+            await expect(rollup.connect(challenger).challengeBlock(blockNum, encodeFraudProof(proof))).to.be.revertedWith("Proof post-state mismatch");
+        });
+
+        it("Should reject proofs for another position in the batch", async function () {
+            const proof = await boundFraudProof();
+            proof.transactionIndex = 1n;
+            proof.transactionMerkleProof.index = 1;
+            await expect(rollup.connect(challenger).challengeBlock(blockNum, encodeFraudProof(proof))).to.be.revertedWith("Proof tx index mismatch");
+        });
+
+        it("Should not slash when the proof shows no fraud", async function () {
+            // tx is in the batch, but the pre-state proofs don't open the parent root
+            const proof = await boundFraudProof();
+            await expect(rollup.connect(challenger).challengeBlock(blockNum, encodeFraudProof(proof))).to.be.revertedWith("Invalid pre-state proofs");
 
             const rollupBlock = await rollup.getRollupBlock(blockNum);
-            expect(rollupBlock.challenged).to.be.true;
-            expect(rollupBlock.finalized).to.be.false;
+            expect(rollupBlock.challenged).to.be.false;
+            expect(await rollup.getOperatorBond(operator.address)).to.equal(operatorBond);
+            expect(await rollup.canChallenge(blockNum)).to.be.true;
         });
 
-        it("Should slash operator bond on valid challenge", async function () {
+        it("Should reject challenges on non-existent blocks", async function () {
             const fraudProof = ethers.toUtf8Bytes("fraud-proof-data");
-            const challengerInitialBalance = await ethers.provider.getBalance(challenger.address);
+            await expect(rollup.connect(challenger).challengeBlock(999, fraudProof)).to.be.revertedWith("Block does not exist");
+        });
 
-            await rollup.connect(challenger).challengeBlock(blockNum, fraudProof);
+        it("Should reject challenges after the challenge period", async function () {
+            await ethers.provider.send("hardhat_mine", ["0xc4e1"]);
+            const proof = await boundFraudProof();
+            await expect(rollup.connect(challenger).challengeBlock(blockNum, encodeFraudProof(proof))).to.be.revertedWith("Challenge period expired");
+        });
+
+        describe("with a fraudulent block", function () {
+            const fraudulentRoot = ethers.keccak256(ethers.toUtf8Bytes("fraudulent-state"));
+            const childBlock = 3;
+            let scenario: any;
+
+            beforeEach(async function () {
+                // block 2 commits a real two-account state, block 3 applies one tx to it
+                scenario = await setupScenario();
+                const parentBatch = await makeBatch();
+                await rollup.connect(operator).submitRollupBlock(scenario.preStateRoot, parentBatch.txRoot, parentBatch.transactions, 0, operator.address, { value: operatorBond });
+            });
+
+            async function submitChildBlock(stateRoot: string, submitter = operator) {
+                const { transactions, txRoot } = await makeBatch([scenario.transaction]);
+                return rollup.connect(submitter).submitRollupBlock(stateRoot, txRoot, transactions, 0, operator.address, { value: operatorBond });
+            }
 
-            // slash operator bond
-            const operatorBond = await rollup.getOperatorBond(operator.address);
-            expect(operatorBond).to.equal(0);
+            function realFraudProof(claimedPostStateRoot: string) {
+                // returned structs are read-only Results, pass copies back in
+                const fromProof = scenario.user1PreProof.toArray(true);
+                const toProof = scenario.user2PreProof.toArray(true);
+                return {
+                    transaction: scenario.transaction.toArray(true),
+                    fromAccountProof: fromProof,
+                    toAccountProof: toProof,
+                    feeRecipientProof: scenario.feeRecipientPreProof.toArray(true),
+                    claimedPostStateRoot,
+                    preStateRoot: scenario.preStateRoot,
+                    transactionIndex: 0n,
+                    transactionRoot: ethers.keccak256(encodeTx(scenario.transaction)), // single-tx batch
+                    transactionMerkleProof: { proof: [], index: 0 },
+                };
+            }
 
-            // challenger should receive reward (50% of slashed amount)
+            it("Should accept a valid fraud proof", async function () {
+                await submitChildBlock(fraudulentRoot);
+                expect(await rollup.canChallenge(childBlock)).to.be.true;
+
+                await expect(rollup.connect(challenger).challengeBlock(childBlock, encodeFraudProof(realFraudProof(fraudulentRoot))))
+                    .to.emit(rollup, "Challenge")
+                    .withArgs(childBlock, challenger.address, 0, "Operator computed incorrect post-state"); // INVALID_STATE_TRANSITION
+
+                const rollupBlock = await rollup.getRollupBlock(childBlock);
+                expect(rollupBlock.challenged).to.be.true;
+                expect(rollupBlock.finalized).to.be.false;
+            });
+
+            it("Should challenge a block whose fees aren't credited", async function () {
+                // the transfer is right but the fee vanishes, the way blocks worked before fee recipients
+                const feesDropped = computeStateRoot(new Map([
+                    [user1.address, { balance: ethers.parseEther("3.99"), nonce: 1n }],
+                    [user2.address, { balance: ethers.parseEther("4.0"), nonce: 0n }],
+                ]));
+                await submitChildBlock(feesDropped);
+
+                await expect(rollup.connect(challenger).challengeBlock(childBlock, encodeFraudProof(realFraudProof(feesDropped))))
+                    .to.emit(rollup, "Challenge")
+                    .withArgs(childBlock, challenger.address, 0, "Operator computed incorrect post-state");
+            });
+
+            it("Should reject proofs crediting another fee recipient", async function () {
+                await submitChildBlock(fraudulentRoot);
+                const proof = realFraudProof(fraudulentRoot);
+                proof.feeRecipientProof = generateAccountProof(new Map(), challenger.address);
+                await expect(rollup.connect(challenger).challengeBlock(childBlock, encodeFraudProof(proof))).to.be.revertedWith("Proof fee recipient mismatch");
+            });
+
+            it("Should challenge a tx signed for another rollup", async function () {
+                // the scenario's transfer, signed against the registry's address instead & applied as if it were valid
+                const domain = await getRollupDomain(rollup);
+                const txn = await signTransaction(user1, { from: user1.address, to: user2.address, amount: ethers.parseEther("1.0"), nonce: 0n, fee: ethers.parseEther("0.01") }, { ...domain, verifyingContract: await registry.getAddress() });
+                const { transactions, txRoot } = await makeBatch([txn]);
+                await rollup.connect(operator).submitRollupBlock(scenario.correctPostStateRoot, txRoot, transactions, 0, operator.address, { value: operatorBond });
+
+                const preState: StateSnapshot = new Map([
+                    [user1.address, { balance: ethers.parseEther("5.0"), nonce: 0n }],
+                    [user2.address, { balance: ethers.parseEther("3.0"), nonce: 0n }],
+                ]);
+                const proof = buildFraudProof([txn], 0, preState, scenario.correctPostStateRoot, operator.address, domain);
+                await expect(rollup.connect(challenger).challengeBlock(childBlock, encodeFraudProof(proof)))
+                    .to.emit(rollup, "Challenge")
+                    .withArgs(childBlock, challenger.address, 1, "Transaction should have failed but was included"); // INVALID_TRANSACTION
+            });
+
+            it("Should challenge a tx whose amount & fee add up past uint256", async function () {
+                // signed by the sender, so only the balance check can fail it
+                const domain = await getRollupDomain(rollup);
+                const txn = await signTransaction(user1, { from: user1.address, to: user2.address, amount: ethers.MaxUint256, nonce: 0n, fee: 1n }, domain);
+                const { transactions, txRoot } = await makeBatch([txn]);
+                await rollup.connect(operator).submitRollupBlock(fraudulentRoot, txRoot, transactions, 0, operator.address, { value: operatorBond });
+
+                const preState: StateSnapshot = new Map([
+                    [user1.address, { balance: ethers.parseEther("5.0"), nonce: 0n }],
+                    [user2.address, { balance: ethers.parseEther("3.0"), nonce: 0n }],
+                ]);
+                const proof = buildFraudProof([txn], 0, preState, fraudulentRoot, operator.address, domain);
+                await expect(rollup.connect(challenger).challengeBlock(childBlock, encodeFraudProof(proof)))
+                    .to.emit(rollup, "Challenge")
+                    .withArgs(childBlock, challenger.address, 1, "Transaction should have failed but was included"); // INVALID_TRANSACTION
+            });
+
+            it("Should not carry a dispute over to a replacement submitted in the same L1 block", async function () {
+                // fraudulent block, a dispute on it, its challenge & operator2's replacement all land in one L1 block
+                const { transactions, txRoot } = await makeBatch([scenario.transaction]);
+                const gasLimit = 5_000_000n;
+                await ethers.provider.send("evm_setAutomine", [false]);
+                try {
+                    await rollup.connect(operator).submitRollupBlock(fraudulentRoot, txRoot, transactions, 0, operator.address, { value: operatorBond, gasLimit });
+                    await rollup.connect(user2).openDispute(childBlock, { value: await rollup.DISPUTE_BOND(), gasLimit });
+                    await rollup.connect(challenger).challengeBlock(childBlock, encodeFraudProof(realFraudProof(fraudulentRoot)), { gasLimit });
+                    await rollup.connect(operator2).submitRollupBlock(scenario.correctPostStateRoot, txRoot, transactions, 0, operator.address, { value: operatorBond, gasLimit });
+                    await ethers.provider.send("evm_mine", []);
+                } finally {
+                    await ethers.provider.send("evm_setAutomine", [true]);
+                }
+
+                const disputeId = await rollup.disputeCount();
+                const replacement = await rollup.getRollupBlock(childBlock);
+                expect([replacement.operator, replacement.stateRoot]).to.deep.equal([operator2.address, scenario.correctPostStateRoot]);
+                expect((await ethers.provider.getBlock(replacement.blockNumber))!.transactions).to.have.length(4);
+                await expect(rollup.timeoutDispute(disputeId)).to.be.revertedWith("Disputed block was dropped");
+                await expect(rollup.cancelDispute(disputeId)).to.emit(rollup, "DisputeResolved").withArgs(disputeId, 4); // Cancelled
+                expect((await rollup.getRollupBlock(childBlock)).activeDisputes).to.equal(0);
+            });
+
+            it("Should slash operator bond on valid challenge", async function () {
+                await submitChildBlock(fraudulentRoot);
+                const challengerInitialBalance = await ethers.provider.getBalance(challenger.address);
+
+                await rollup.connect(challenger).challengeBlock(childBlock, encodeFraudProof(realFraudProof(fraudulentRoot)));
+
+                // only the faulty block's bond goes, blocks 1 & 2 stay escrowed
+                expect(await rollup.getBlockBond(childBlock)).to.equal(0);
+                expect(await rollup.getOperatorBond(operator.address)).to.equal(operatorBond * 2n);
+
+                // challenger gets 50% of slashed amount, account for gas
+                const challengerFinalBalance = await ethers.provider.getBalance(challenger.address);
+                expect(challengerFinalBalance).to.be.gt(challengerInitialBalance + operatorBond / 2n - ethers.parseEther("0.01"));
+            });
+
+            it("Should slash only the faulty block and its descendants", async function () {
+                await submitChildBlock(fraudulentRoot, operator2);
+                const { transactions, txRoot } = await makeBatch();
+                await rollup.connect(operator).submitRollupBlock(ethers.keccak256(ethers.toUtf8Bytes("built-on-fraud")), txRoot, transactions, 0, operator.address, { value: operatorBond });
+
+                const challengerInitialBalance = await ethers.provider.getBalance(challenger.address);
+                await rollup.connect(challenger).challengeBlock(childBlock, encodeFraudProof(realFraudProof(fraudulentRoot)));
+
+                expect(await rollup.getBlockBond(childBlock)).to.equal(0);
+                expect(await rollup.getBlockBond(childBlock + 1)).to.equal(0);
+                expect(await rollup.getOperatorBond(operator2.address)).to.equal(0);
+                expect((await rollup.getRollupBlock(childBlock + 1)).challenged).to.be.true;
+
+                // ancestors untouched
+                expect(await rollup.getBlockBond(1)).to.equal(operatorBond);
+                expect(await rollup.getBlockBond(2)).to.equal(operatorBond);
+                expect(await rollup.getOperatorBond(operator.address)).to.equal(operatorBond * 2n);
+
+                // only operator2 submitted the faulty block
+                expect(await registry.isActive(operator2.address)).to.be.false;
+                expect(await registry.isActive(operator.address)).to.be.true;
+
+                // reward is half of both slashed bonds plus operator2's stake
+                const stake = await registry.MIN_STAKE();
+                const challengerFinalBalance = await ethers.provider.getBalance(challenger.address);
+                expect(challengerFinalBalance).to.be.gt(challengerInitialBalance + operatorBond + stake / 2n - ethers.parseEther("0.01"));
+
+                // ancestors still finalize & refund normally
+                await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+                await rollup.finalizeBlock(1);
+                await rollup.finalizeBlock(2);
+                expect(await rollup.getOperatorBond(operator.address)).to.equal(0);
+            });
+
+            it("Should pay the challenger the reward rate the faulty block was submitted under", async function () {
+                const config = await getRollupConfig(rollup);
+                const delay = await config.TIMELOCK_DELAY();
+                await config.scheduleChange(2, 10_000); // ChallengerRewardBps
+                await time.increase(delay);
+                await config.executeChange(2);
+                await submitChildBlock(fraudulentRoot);
+
+                // lowered again before the challenge, too late for this block
+                await config.scheduleChange(2, 0);
+                await time.increase(delay);
+                await config.executeChange(2);
+                expect((await rollup.getRollupBlock(childBlock)).challengerRewardBps).to.equal(10_000);
+
+                await expect(rollup.connect(challenger).challengeBlock(childBlock, encodeFraudProof(realFraudProof(fraudulentRoot))))
+                    .to.changeEtherBalance(challenger, operatorBond + (await registry.MIN_STAKE()));
+            });
+
+            it("Should pool the slashed funds the challenger isn't paid for the registry owner to withdraw", async function () {
+                await submitChildBlock(fraudulentRoot);
+                const slashed = operatorBond + (await registry.MIN_STAKE());
+                const rewardBps = (await rollup.getRollupBlock(childBlock)).challengerRewardBps;
+                await rollup.connect(challenger).challengeBlock(childBlock, encodeFraudProof(realFraudProof(fraudulentRoot)));
+
+                const pooled = slashed - (slashed * rewardBps) / 10_000n;
+                expect(pooled).to.be.gt(0);
+                expect(await rollup.slashedFunds()).to.equal(pooled);
+                await expect(rollup.connect(challenger).withdrawSlashedFunds(challenger.address)).to.be.revertedWith("Only registry owner");
+                const withdrawal = rollup.connect(owner).withdrawSlashedFunds(user2.address);
+                await expect(withdrawal).to.emit(rollup, "SlashedFundsWithdrawn").withArgs(user2.address, pooled);
+                await expect(withdrawal).to.changeEtherBalance(user2, pooled);
+                expect(await rollup.slashedFunds()).to.equal(0);
+            });
+
+            it("Should eject the faulty block's operator from the registry", async function () {
+                await submitChildBlock(fraudulentRoot);
+                await expect(rollup.connect(challenger).challengeBlock(childBlock, encodeFraudProof(realFraudProof(fraudulentRoot))))
+                    .to.emit(registry, "OperatorEjected")
+                    .withArgs(operator.address, await registry.MIN_STAKE());
+
+                expect((await registry.getOperator(operator.address)).stake).to.equal(0);
+                await expect(submitChildBlock(scenario.correctPostStateRoot)).to.be.revertedWith("Operator not registered");
+                await expect(registry.connect(operator).registerOperator({ value: await registry.MIN_STAKE() })).to.be.revertedWith("Operator not approved");
+
+                // other registered operators take over
+                await expect(submitChildBlock(scenario.correctPostStateRoot, operator2)).to.emit(rollup, "RollupBlockSubmitted");
+            });
+
+            it("Should reject challenges on already challenged blocks", async function () {
+                await submitChildBlock(fraudulentRoot);
+                const proof = encodeFraudProof(realFraudProof(fraudulentRoot));
+                await rollup.connect(challenger).challengeBlock(childBlock, proof);
+                await expect(rollup.connect(challenger).challengeBlock(childBlock, proof)).to.be.revertedWith("Block already challenged");
+            });
+
+            it("Should not allow challenging a correctly computed block", async function () {
+                await submitChildBlock(scenario.correctPostStateRoot);
+
+                const proof = encodeFraudProof(realFraudProof(scenario.correctPostStateRoot));
+                await expect(rollup.connect(challenger).challengeBlock(childBlock, proof)).to.be.revertedWith("No fraud detected");
+                expect((await rollup.getRollupBlock(childBlock)).challenged).to.be.false;
+            });
+
+            it("Should roll back to the last honest ancestor", async function () {
+                await submitChildBlock(fraudulentRoot);
+                const { transactions, txRoot } = await makeBatch();
+                await rollup.connect(operator).submitRollupBlock(ethers.keccak256(ethers.toUtf8Bytes("built-on-fraud")), txRoot, transactions, 0, operator.address, { value: operatorBond });
+
+                await expect(rollup.connect(challenger).challengeBlock(childBlock, encodeFraudProof(realFraudProof(fraudulentRoot))))
+                    .to.emit(rollup, "ChainRolledBack")
+                    .withArgs(childBlock - 1, scenario.preStateRoot, 2);
+
+                const [currentStateRoot, blockNum] = await rollup.getCurrentState();
+                expect(currentStateRoot).to.equal(scenario.preStateRoot);
+                expect(blockNum).to.equal(childBlock - 1);
+
+                await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+                await expect(rollup.finalizeBlock(childBlock + 1)).to.be.revertedWith("Block was challenged");
+            });
+
+            it("Should let the chain continue from the restored state", async function () {
+                await submitChildBlock(fraudulentRoot);
+                await rollup.connect(challenger).challengeBlock(childBlock, encodeFraudProof(realFraudProof(fraudulentRoot)));
+
+                // honest replacement takes over the dropped height
+                await expect(submitChildBlock(scenario.correctPostStateRoot, operator2))
+                    .to.emit(rollup, "RollupBlockSubmitted");
+                const replacement = await rollup.getRollupBlock(childBlock);
+                expect(replacement.stateRoot).to.equal(scenario.correctPostStateRoot);
+                expect(replacement.operator).to.equal(operator2.address);
+                expect(replacement.challenged).to.be.false;
+                expect(replacement.bond).to.equal(operatorBond);
+
+                await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+                await rollup.finalizeBlock(1);
+                await rollup.finalizeBlock(2);
+                await expect(rollup.finalizeBlock(childBlock)).to.emit(rollup, "BlockFinalized").withArgs(childBlock);
+            });
+
+            it("Should reject finalization of challenged blocks", async function () {
+                await submitChildBlock(fraudulentRoot);
+                await rollup.connect(challenger).challengeBlock(childBlock, encodeFraudProof(realFraudProof(fraudulentRoot)));
+
+                await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+                await expect(rollup.finalizeBlock(childBlock)).to.be.revertedWith("Block was challenged");
+            });
+
+            // fraudulent state that also hands user1 an exit balance
+            function fraudulentExitState(): StateSnapshot {
+                return new Map([
+                    [user1.address, { balance: ethers.parseEther("3.99"), nonce: 1n }],
+                    [user2.address, { balance: ethers.parseEther("4.0"), nonce: 0n }],
+                    [l2ExitAddress(user1.address), { balance: ethers.parseEther("2.0"), nonce: 0n }],
+                ]);
+            }
+
+            it("Should handle withdrawal from challenged block", async function () {
+                const state = fraudulentExitState();
+                await submitChildBlock(computeStateRoot(state));
+                const tx = await rollup.connect(user1).requestWithdrawal(childBlock, buildExitProof(state, user1.address));
+                const requestId = await getRequestIdFromTx(tx);
+
+                await rollup.connect(challenger).challengeBlock(childBlock, encodeFraudProof(realFraudProof(computeStateRoot(state))));
+                await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+
+                expect(await rollup.canProcessWithdrawal(requestId)).to.be.false;
+                await expect(rollup.connect(user1).processWithdrawal(requestId)).to.be.revertedWith("Rollup block not finalized");
+                await expect(rollup.connect(user1).requestWithdrawal(childBlock, buildExitProof(state, user1.address))).to.be.revertedWith("Block was challenged");
+            });
+
+            it("Should not pay out withdrawals tied to a dropped block once it's replaced", async function () {
+                const state = fraudulentExitState();
+                await submitChildBlock(computeStateRoot(state));
+                const requestId = await getRequestIdFromTx(await rollup.connect(user1).requestWithdrawal(childBlock, buildExitProof(state, user1.address)));
+                expect((await rollup.getWithdrawalRequest(requestId)).rollupBlock).to.equal(childBlock);
+
+                await rollup.connect(challenger).challengeBlock(childBlock, encodeFraudProof(realFraudProof(computeStateRoot(state))));
+                await submitChildBlock(scenario.correctPostStateRoot, operator2);
+                await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+                for (let i = 1; i <= childBlock; i++) await rollup.finalizeBlock(i);
+
+                expect(await rollup.canProcessWithdrawal(requestId)).to.be.false;
+                await expect(rollup.connect(user1).processWithdrawal(requestId)).to.be.revertedWith("Withdrawal block was replaced");
+            });
+
+            it("Should let users cancel withdrawals tied to a dropped block", async function () {
+                const state = fraudulentExitState();
+                await submitChildBlock(computeStateRoot(state));
+                const requestId = await getRequestIdFromTx(await rollup.connect(user1).requestWithdrawal(childBlock, buildExitProof(state, user1.address)));
+                await expect(rollup.connect(user1).cancelWithdrawal(requestId)).to.be.revertedWith("Withdrawal block not dropped");
+
+                await rollup.connect(challenger).challengeBlock(childBlock, encodeFraudProof(realFraudProof(computeStateRoot(state))));
+                await expect(rollup.connect(user2).cancelWithdrawal(requestId)).to.be.revertedWith("Not your withdrawal");
+                await expect(rollup.connect(user1).cancelWithdrawal(requestId))
+                    .to.emit(rollup, "WithdrawalCancelled")
+                    .withArgs(user1.address, ethers.parseEther("2.0"), requestId);
+
+                expect(await rollup.claimed_exits(user1.address)).to.equal(0);
+                await expect(rollup.connect(user1).processWithdrawal(requestId)).to.be.revertedWith("Withdrawal already processed");
+            });
+
+            it("Should stop buyouts of a dropped block's withdrawals & leave cancelling to the buyer, keeping the amount claimed", async function () {
+                const state = fraudulentExitState();
+                await submitChildBlock(computeStateRoot(state));
+                const requestId = await getRequestIdFromTx(await rollup.connect(user1).requestWithdrawal(childBlock, buildExitProof(state, user1.address)));
+                await rollup.connect(user1).offerWithdrawal(requestId, ethers.parseEther("1.9"));
+                await rollup.connect(user2).buyWithdrawal(requestId, { value: ethers.parseEther("1.9") });
+                await rollup.connect(user2).offerWithdrawal(requestId, ethers.parseEther("1.8"));
+
+                await rollup.connect(challenger).challengeBlock(childBlock, encodeFraudProof(realFraudProof(computeStateRoot(state))));
+                await expect(rollup.connect(operator2).buyWithdrawal(requestId, { value: ethers.parseEther("1.8") })).to.be.revertedWith("Withdrawal block dropped");
+                await expect(rollup.connect(user1).cancelWithdrawal(requestId)).to.be.revertedWith("Not your withdrawal");
+                await expect(rollup.connect(user2).cancelWithdrawal(requestId))
+                    .to.emit(rollup, "WithdrawalCancelled")
+                    .withArgs(user1.address, ethers.parseEther("2.0"), requestId);
+
+                // user1 was already paid for it, the same exit balance on a replacement block can't be sold again
+                expect(await rollup.claimed_exits(user1.address)).to.equal(ethers.parseEther("2.0"));
+                await submitChildBlock(computeStateRoot(state), operator2);
+                await expect(rollup.connect(user1).requestWithdrawal(childBlock, buildExitProof(state, user1.address))).to.be.revertedWith("Nothing to withdraw");
+            });
+        });
+    });
+
+    describe("Dispute Game", function () {
+        const operatorBond = ethers.parseEther("1.0");
+        const amount = ethers.parseEther("1.0");
+        const fee = ethers.parseEther("0.01");
+        const steps = 5;
+        const disputedBlock = 2;
+        let txs: ReturnType<typeof makeTx>[];
+        let batch: Awaited<ReturnType<typeof makeBatch>>;
+        let disputeBond: bigint;
+
+        // state after the first `step` txs, fees going to the operator. the faulty tx credits user2 twice
+        function stateAt(step: number, faultyTx = -1): StateSnapshot {
+            let balance1 = ethers.parseEther("10.0");
+            let balance2 = ethers.parseEther("3.0");
+            for (let i = 0; i < step; i++) {
+                balance1 -= amount + fee;
+                balance2 += i === faultyTx ? amount * 2n : amount;
+            }
+            return new Map([
+                [user1.address, { balance: balance1, nonce: BigInt(step) }],
+                [user2.address, { balance: balance2, nonce: 0n }],
+                [operator.address, { balance: fee * BigInt(step), nonce: 0n }],
+            ]);
+        }
+
+        async function submitDisputedBlock(faultyTx: number) {
+            await rollup.connect(operator).submitRollupBlock(computeStateRoot(stateAt(steps, faultyTx)), batch.txRoot, batch.transactions, 0, operator.address, { value: operatorBond });
+        }
+
+        async function openDispute(challengerSigner = challenger): Promise<bigint> {
+            await rollup.connect(challengerSigner).openDispute(disputedBlock, { value: disputeBond });
+            return rollup.disputeCount();
+        }
+
+        // operator answers with its own roots, challenger agrees with whatever matches the honest state
+        async function bisectToOneStep(disputeId: bigint, faultyTx: number) {
+            let dispute = await rollup.getDispute(disputeId);
+            while (dispute.hi - dispute.lo > 1n) {
+                const mid = Number((dispute.lo + dispute.hi) / 2n);
+                const operatorRoot = computeStateRoot(stateAt(mid, faultyTx));
+                await rollup.connect(operator).bisectDispute(disputeId, operatorRoot);
+                await rollup.connect(challenger).selectHalf(disputeId, operatorRoot === computeStateRoot(stateAt(mid)));
+                dispute = await rollup.getDispute(disputeId);
+            }
+            return dispute;
+        }
+
+        function stepProof(index: number, claimedPostStateRoot: string) {
+            const pre = stateAt(index);
+            const post = stateAt(index + 1);
+            // user2's path is taken after user1's leaf is updated, the operator's after user2's
+            const intermediate = new Map(pre).set(user1.address, post.get(user1.address)!);
+            const transferred = new Map(intermediate).set(user2.address, post.get(user2.address)!);
+            return encodeFraudProof({
+                transaction: txs[index],
+                fromAccountProof: generateAccountProof(pre, user1.address),
+                toAccountProof: generateAccountProof(intermediate, user2.address),
+                feeRecipientProof: generateAccountProof(transferred, operator.address),
+                claimedPostStateRoot,
+                preStateRoot: computeStateRoot(pre),
+                transactionIndex: BigInt(index),
+                transactionRoot: batch.txRoot,
+                transactionMerkleProof: generateProof(batch.leaves, index),
+            });
+        }
+
+        beforeEach(async function () {
+            disputeBond = await rollup.DISPUTE_BOND();
+            txs = await Promise.all([...Array(steps).keys()].map((i) => makeSignedTx(user1, user2.address, amount, BigInt(i), fee)));
+            batch = await makeBatch(txs);
+
+            const parentBatch = await makeBatch();
+            await rollup.connect(operator).submitRollupBlock(computeStateRoot(stateAt(0)), parentBatch.txRoot, parentBatch.transactions, 0, operator.address, { value: operatorBond });
+        });
+
+        it("Should send multi-tx blocks through the dispute game", async function () {
+            await submitDisputedBlock(2);
+            await expect(rollup.connect(challenger).challengeBlock(disputedBlock, stepProof(2, computeStateRoot(stateAt(3, 2))))).to.be.revertedWith("Multi-step block, open a dispute");
+        });
+
+        it("Should require a dispute bond", async function () {
+            await submitDisputedBlock(2);
+            await expect(rollup.connect(challenger).openDispute(disputedBlock, { value: disputeBond - 1n })).to.be.revertedWith("Insufficient dispute bond");
+        });
+
+        it("Should start from the parent root and the block's claimed root", async function () {
+            await submitDisputedBlock(2);
+            await expect(rollup.connect(challenger).openDispute(disputedBlock, { value: disputeBond }))
+                .to.emit(rollup, "DisputeOpened")
+                .withArgs(1, disputedBlock, challenger.address, steps);
+
+            const dispute = await rollup.getDispute(1);
+            expect([dispute.lo, dispute.hi]).to.deep.equal([0n, BigInt(steps)]);
+            expect(dispute.loRoot).to.equal(computeStateRoot(stateAt(0)));
+            expect(dispute.hiRoot).to.equal(computeStateRoot(stateAt(steps, 2)));
+            expect((await rollup.getRollupBlock(disputedBlock)).activeDisputes).to.equal(1);
+        });
+
+        it("Should narrow the dispute to the faulty tx and drop the block", async function () {
+            await submitDisputedBlock(2);
+            const disputeId = await openDispute();
+            const dispute = await bisectToOneStep(disputeId, 2);
+            expect([dispute.lo, dispute.hi]).to.deep.equal([2n, 3n]);
+
+            const challengerInitialBalance = await ethers.provider.getBalance(challenger.address);
+            await expect(rollup.connect(challenger).proveDisputedStep(disputeId, stepProof(2, dispute.hiRoot)))
+                .to.emit(rollup, "Challenge")
+                .withArgs(disputedBlock, challenger.address, 0, "Operator computed incorrect post-state")
+                .and.to.emit(rollup, "DisputeResolved")
+                .withArgs(disputeId, 2); // ChallengerWon
+
+            expect((await rollup.getRollupBlock(disputedBlock)).challenged).to.be.true;
+            expect(await rollup.rollupBlockNumber()).to.equal(disputedBlock - 1);
+
+            // bond back plus half the slashed bond & stake
             const challengerFinalBalance = await ethers.provider.getBalance(challenger.address);
-            const expectedReward = ethers.parseEther("0.5"); // 50% of 1 ETH
+            expect(challengerFinalBalance).to.be.gt(challengerInitialBalance + disputeBond + operatorBond / 2n - ethers.parseEther("0.01"));
+        });
+
+        it("Should only accept a proof for the tx at the disputed position", async function () {
+            await submitDisputedBlock(2);
+            const disputeId = await openDispute();
+            const dispute = await bisectToOneStep(disputeId, 2);
 
-            // account for gas costs in the check
-            expect(challengerFinalBalance).to.be.gt(challengerInitialBalance + expectedReward - ethers.parseEther("0.01"));
+            // tx 3 is in the batch, but isn't the step being disputed
+            const proof = ethers.AbiCoder.defaultAbiCoder().decode([fraudProofType], stepProof(2, dispute.hiRoot))[0].toArray(true);
+            proof[0] = txs[3];
+            proof[8] = generateProof(batch.leaves, 3);
+            await expect(rollup.connect(challenger).proveDisputedStep(disputeId, encodeFraudProof(proof))).to.be.revertedWith("Proof tx index mismatch");
         });
 
-        it("Should reject challenges on already challenged blocks", async function () {
-            const fraudProof = ethers.toUtf8Bytes("fraud-proof-data");
-            await rollup.connect(challenger).challengeBlock(blockNum, fraudProof);
-            await expect(rollup.connect(challenger).challengeBlock(blockNum, fraudProof)).to.be.revertedWith("Block already challenged");
+        it("Should let the operator win a dispute over an honest block", async function () {
+            await submitDisputedBlock(-1);
+            const disputeId = await openDispute();
+
+            // griefing challenger disagrees with every root the operator posts
+            let dispute = await rollup.getDispute(disputeId);
+            while (dispute.hi - dispute.lo > 1n) {
+                const mid = Number((dispute.lo + dispute.hi) / 2n);
+                await rollup.connect(operator).bisectDispute(disputeId, computeStateRoot(stateAt(mid)));
+                await rollup.connect(challenger).selectHalf(disputeId, false);
+                dispute = await rollup.getDispute(disputeId);
+            }
+
+            await expect(rollup.connect(challenger).proveDisputedStep(disputeId, stepProof(0, dispute.hiRoot))).to.be.revertedWith("No fraud detected");
+
+            await ethers.provider.send("hardhat_mine", [ethers.toQuantity(await rollup.MOVE_TIMEOUT())]);
+            const operatorInitialBalance = await ethers.provider.getBalance(operator.address);
+            await expect(rollup.connect(owner).timeoutDispute(disputeId)).to.emit(rollup, "DisputeResolved").withArgs(disputeId, 3); // OperatorWon
+            expect(await ethers.provider.getBalance(operator.address)).to.equal(operatorInitialBalance + disputeBond);
+
+            expect((await rollup.getRollupBlock(disputedBlock)).activeDisputes).to.equal(0);
+            expect(await registry.isActive(operator.address)).to.be.true;
         });
 
-        it("Should reject challenges on non-existent blocks", async function () {
-            const fraudProof = ethers.toUtf8Bytes("fraud-proof-data");
-            await expect(rollup.connect(challenger).challengeBlock(999, fraudProof)).to.be.revertedWith("Block does not exist");
+        it("Should let the challenger win when the operator stops responding", async function () {
+            await submitDisputedBlock(2);
+            const disputeId = await openDispute();
+            await expect(rollup.timeoutDispute(disputeId)).to.be.revertedWith("Move not timed out");
+
+            await ethers.provider.send("hardhat_mine", [ethers.toQuantity(await rollup.MOVE_TIMEOUT())]);
+            await expect(rollup.connect(operator).bisectDispute(disputeId, computeStateRoot(stateAt(2)))).to.be.revertedWith("Move timed out");
+            await expect(rollup.timeoutDispute(disputeId))
+                .to.emit(rollup, "Challenge")
+                .withArgs(disputedBlock, challenger.address, 4, "Operator timed out"); // INCORRECT_EXECUTION
+
+            expect((await rollup.getDispute(disputeId)).status).to.equal(2); // ChallengerWon
+            expect((await rollup.getRollupBlock(disputedBlock)).challenged).to.be.true;
+        });
+
+        it("Should enforce turn order", async function () {
+            await submitDisputedBlock(2);
+            const disputeId = await openDispute();
+            const midRoot = computeStateRoot(stateAt(2));
+
+            await expect(rollup.connect(challenger).selectHalf(disputeId, true)).to.be.revertedWith("Not challenger's turn");
+            await expect(rollup.connect(challenger).bisectDispute(disputeId, midRoot)).to.be.revertedWith("Not the block's operator");
+            await expect(rollup.connect(challenger).proveDisputedStep(disputeId, stepProof(2, midRoot))).to.be.revertedWith("Dispute not narrowed to one step");
+
+            await rollup.connect(operator).bisectDispute(disputeId, midRoot);
+            await expect(rollup.connect(operator).bisectDispute(disputeId, midRoot)).to.be.revertedWith("Not operator's turn");
+            await expect(rollup.connect(operator).selectHalf(disputeId, true)).to.be.revertedWith("Not the challenger");
+        });
+
+        it("Should hold finalization until disputes are resolved", async function () {
+            await submitDisputedBlock(-1);
+            const disputeId = await openDispute();
+            await rollup.connect(operator).bisectDispute(disputeId, computeStateRoot(stateAt(2)));
+
+            // challenger goes silent, but nobody has claimed the timeout yet
+            await ethers.provider.send("hardhat_mine", ["0xc4e1"]);
+            await rollup.finalizeBlock(1);
+            expect(await rollup.canFinalize(disputedBlock)).to.be.false;
+            await expect(rollup.finalizeBlock(disputedBlock)).to.be.revertedWith("Dispute in progress");
+
+            await rollup.timeoutDispute(disputeId);
+
+            await expect(rollup.finalizeBlock(disputedBlock)).to.emit(rollup, "BlockFinalized").withArgs(disputedBlock);
+        });
+
+        it("Should prove a tx whose amount & fee overflow at the disputed step", async function () {
+            // tx 2 can't be paid for, the operator applies it anyway & builds on top
+            txs[2] = await signTransaction(user1, { from: user1.address, to: user2.address, amount: ethers.MaxUint256, nonce: 2n, fee: 1n }, await getRollupDomain(rollup));
+            batch = await makeBatch(txs);
+            await submitDisputedBlock(2);
+            const disputeId = await openDispute();
+            const dispute = await bisectToOneStep(disputeId, 2);
+            expect([dispute.lo, dispute.hi]).to.deep.equal([2n, 3n]);
+
+            const proof = buildFraudProof(txs, 2, stateAt(2), dispute.hiRoot, operator.address, await getRollupDomain(rollup));
+            await expect(rollup.connect(challenger).proveDisputedStep(disputeId, encodeFraudProof(proof)))
+                .to.emit(rollup, "Challenge")
+                .withArgs(disputedBlock, challenger.address, 1, "Transaction should have failed but was included"); // INVALID_TRANSACTION
+            expect((await rollup.getRollupBlock(disputedBlock)).challenged).to.be.true;
+        });
+
+        it("Should keep the stake of an unstaking operator slashable while a dispute outlasts the unstake delay", async function () {
+            await submitDisputedBlock(2);
+            const disputeId = await openDispute();
+            await registry.connect(operator).unstake();
+
+            await ethers.provider.send("hardhat_mine", [ethers.toQuantity(await registry.UNSTAKE_DELAY())]);
+            await expect(registry.connect(operator).withdrawStake()).to.be.revertedWith("Operator has live blocks");
+
+            await expect(rollup.timeoutDispute(disputeId))
+                .to.emit(registry, "OperatorEjected")
+                .withArgs(operator.address, await registry.MIN_STAKE());
+            await expect(registry.connect(operator).withdrawStake()).to.be.revertedWith("Operator not exiting");
+        });
+
+        it("Should release the stake once the operator's blocks are finalized", async function () {
+            await submitDisputedBlock(-1);
+            await registry.connect(operator).unstake();
+            await ethers.provider.send("hardhat_mine", [ethers.toQuantity(await registry.UNSTAKE_DELAY())]);
+            await rollup.finalizeBlock(1);
+            await expect(registry.connect(operator).withdrawStake()).to.be.revertedWith("Operator has live blocks");
+
+            await rollup.finalizeBlock(disputedBlock);
+            await expect(registry.connect(operator).withdrawStake()).to.changeEtherBalance(operator, await registry.MIN_STAKE());
+        });
+
+        it("Should cancel disputes on blocks that were dropped by another one", async function () {
+            await submitDisputedBlock(2);
+            const first = await openDispute();
+            const second = await openDispute(user2);
+            await expect(rollup.cancelDispute(second)).to.be.revertedWith("Disputed block still live");
+
+            const dispute = await bisectToOneStep(first, 2);
+            await rollup.connect(challenger).proveDisputedStep(first, stepProof(2, dispute.hiRoot));
+
+            await expect(rollup.connect(user2).selectHalf(second, true)).to.be.revertedWith("Disputed block was dropped");
+            const user2InitialBalance = await ethers.provider.getBalance(user2.address);
+            await expect(rollup.cancelDispute(second)).to.emit(rollup, "DisputeResolved").withArgs(second, 4); // Cancelled
+            expect(await ethers.provider.getBalance(user2.address)).to.equal(user2InitialBalance + disputeBond);
         });
     });
 
@@ -273,9 +1295,8 @@ describe("OptimisticRollup", function () {
         beforeEach(async function () {
             await rollup.connect(user1).deposit({ value: ethers.parseEther("5.0") });
             const newStateRoot = ethers.keccak256(ethers.toUtf8Bytes("new-state"));
-            const transactions = [ethers.toUtf8Bytes("tx1")];
-            const transactionRoot = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["bytes[]"], [transactions]));
-            await rollup.connect(operator).submitRollupBlock(newStateRoot, transactionRoot, transactions, { value: operatorBond });
+            const { transactions, txRoot: transactionRoot } = await makeBatch();
+            await rollup.connect(operator).submitRollupBlock(newStateRoot, transactionRoot, transactions, 0, operator.address, { value: operatorBond });
             blockNum = 1;
         });
 
@@ -310,14 +1331,62 @@ describe("OptimisticRollup", function () {
             expect(operatorFinalBalance).to.be.gt(operatorInitialBalance + operatorBond - ethers.parseEther("0.01"));
         });
 
-        it("Should reject finalization of challenged blocks", async function () {
+        it("Should still finalize blocks after a rejected challenge", async function () {
             const fraudProof = ethers.toUtf8Bytes("fraud-proof-data");
-
-            await rollup.connect(challenger).challengeBlock(blockNum, fraudProof);
+            await expect(rollup.connect(challenger).challengeBlock(blockNum, fraudProof)).to.be.reverted;
 
             // Fast forward past challenge period
             await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
-            await expect(rollup.finalizeBlock(blockNum)).to.be.revertedWith("Block was challenged");
+            await expect(rollup.finalizeBlock(blockNum)).to.emit(rollup, "BlockFinalized").withArgs(blockNum);
+        });
+
+        it("Should only refund the finalized block's bond", async function () {
+            await ethers.provider.send("hardhat_mine", [ethers.toQuantity(1000)]);
+            const { transactions, txRoot } = await makeBatch();
+            await rollup.connect(operator).submitRollupBlock(ethers.keccak256(ethers.toUtf8Bytes("new-state-2")), txRoot, transactions, 0, operator.address, { value: operatorBond });
+
+            // block 1's window is over, block 2's isn't
+            await ethers.provider.send("hardhat_mine", [ethers.toQuantity(50400 - 500)]);
+            await rollup.finalizeBlock(blockNum);
+            await expect(rollup.finalizeBlock(2)).to.be.revertedWith("Challenge period not expired");
+
+            expect(await rollup.getBlockBond(blockNum)).to.equal(0);
+            expect(await rollup.getBlockBond(2)).to.equal(operatorBond);
+            expect(await rollup.getOperatorBond(operator.address)).to.equal(operatorBond);
+        });
+
+        it("Should escrow bonds per block across operators", async function () {
+            const largerBond = ethers.parseEther("1.5");
+            const { transactions, txRoot } = await makeBatch();
+            await rollup.connect(operator2).submitRollupBlock(ethers.keccak256(ethers.toUtf8Bytes("new-state-2")), txRoot, transactions, 0, operator.address, { value: largerBond });
+            await rollup.connect(operator).submitRollupBlock(ethers.keccak256(ethers.toUtf8Bytes("new-state-3")), txRoot, transactions, 0, operator.address, { value: operatorBond });
+
+            expect(await rollup.getBlockBond(2)).to.equal(largerBond);
+            expect(await rollup.getOperatorBond(operator.address)).to.equal(operatorBond * 2n);
+            expect(await rollup.getOperatorBond(operator2.address)).to.equal(largerBond);
+
+            await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+
+            await rollup.finalizeBlock(blockNum);
+            expect(await rollup.getOperatorBond(operator.address)).to.equal(operatorBond);
+
+            const operator2InitialBalance = await ethers.provider.getBalance(operator2.address);
+            await rollup.finalizeBlock(2);
+            expect(await ethers.provider.getBalance(operator2.address)).to.equal(operator2InitialBalance + largerBond);
+            expect(await rollup.getOperatorBond(operator2.address)).to.equal(0);
+            expect(await rollup.getOperatorBond(operator.address)).to.equal(operatorBond);
+            expect(await rollup.getBlockBond(3)).to.equal(operatorBond);
+        });
+
+        it("Should not finalize a block ahead of its parent", async function () {
+            const { transactions, txRoot } = await makeBatch();
+            await rollup.connect(operator).submitRollupBlock(ethers.keccak256(ethers.toUtf8Bytes("new-state-2")), txRoot, transactions, 0, operator.address, { value: operatorBond });
+            await ethers.provider.send("hardhat_mine", ["0xc4e1"]);
+
+            expect(await rollup.canFinalize(2)).to.be.false;
+            await expect(rollup.finalizeBlock(2)).to.be.revertedWith("Parent block not finalized");
+            await rollup.finalizeBlock(blockNum);
+            expect(await rollup.canFinalize(2)).to.be.true;
         });
 
         it("Should reject double finalization", async function () {
@@ -331,64 +1400,69 @@ describe("OptimisticRollup", function () {
     describe("Withdrawal System", function () {
         const operatorBond = ethers.parseEther("1.0");
         const depositAmount = ethers.parseEther("5.0");
+        const withdrawAmount = ethers.parseEther("2.0");
         let blockNum: number;
+        let snapshot: StateSnapshot;
 
         beforeEach(async function () {
             // User deposits
             await rollup.connect(user1).deposit({ value: depositAmount });
 
-            // Operator submits a block
-            const newStateRoot = ethers.keccak256(ethers.toUtf8Bytes("new-state"));
-            const transactions = [ethers.toUtf8Bytes("tx1")];
-            const transactionRoot = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["bytes[]"], [transactions]));
+            // Operator submits a block crediting the deposit, after which user1 sends 2 ETH to their exit address
+            snapshot = new Map([
+                [user1.address, { balance: depositAmount - withdrawAmount - ethers.parseEther("0.01"), nonce: 1n }],
+                [l2ExitAddress(user1.address), { balance: withdrawAmount, nonce: 0n }],
+                [operator.address, { balance: ethers.parseEther("0.01"), nonce: 0n }],
+            ]);
+            const { transactions, txRoot: transactionRoot } = await makeBatch();
 
-            await rollup.connect(operator).submitRollupBlock(newStateRoot, transactionRoot, transactions, { value: operatorBond });
+            await rollup.connect(operator).submitRollupBlock(computeStateRoot(snapshot), transactionRoot, transactions, 1, operator.address, { value: operatorBond });
             blockNum = 1;
         });
 
         it("Should allow users to request withdrawals", async function () {
-            const withdrawAmount = ethers.parseEther("2.0");
-            const tx = await rollup.connect(user1).requestWithdrawal(withdrawAmount);
+            await expect(rollup.connect(user1).requestWithdrawal(blockNum, buildExitProof(snapshot, user1.address))).to.emit(rollup, "WithdrawalRequested");
+
+            // exit balance is claimed immediately
+            expect(await rollup.claimed_exits(user1.address)).to.equal(withdrawAmount);
+        });
 
-            // Check L2 balance was reduced immediately
-            const l2Balance = await rollup.getBalance(user1.address);
-            expect(l2Balance).to.equal(depositAmount - withdrawAmount);
+        it("Should prevent requesting an exit balance twice", async function () {
+            await rollup.connect(user1).requestWithdrawal(blockNum, buildExitProof(snapshot, user1.address));
+            await expect(rollup.connect(user1).requestWithdrawal(blockNum, buildExitProof(snapshot, user1.address))).to.be.revertedWith("Nothing to withdraw");
         });
 
-        it("Should prevent withdrawals exceeding balance", async function () {
-            const withdrawAmount = ethers.parseEther("10.0"); // More than deposited
-            await expect(rollup.connect(user1).requestWithdrawal(withdrawAmount)).to.be.revertedWith("Insufficient balance");
+        it("Should prevent requests against blocks that don't exist", async function () {
+            await expect(rollup.connect(user1).requestWithdrawal(2, buildExitProof(snapshot, user1.address))).to.be.revertedWith("Block does not exist");
         });
 
-        it("Should prevent zero amount withdrawals", async function () {
-            await expect(rollup.connect(user1).requestWithdrawal(0)).to.be.revertedWith("Amount must be positive");
+        it("Should prevent requests with invalid proofs", async function () {
+            const proof = buildExitProof(snapshot, user1.address);
+            proof.accountData = { ...proof.accountData, balance: depositAmount };
+            await expect(rollup.connect(user1).requestWithdrawal(blockNum, proof)).to.be.revertedWith("Invalid state proof");
         });
 
         it("Should create withdrawal request with correct data", async function () {
-            const withdrawAmount = ethers.parseEther("2.0");
-            const tx = await rollup.connect(user1).requestWithdrawal(withdrawAmount);
+            const tx = await rollup.connect(user1).requestWithdrawal(blockNum, buildExitProof(snapshot, user1.address));
             const requestId = await getRequestIdFromTx(tx);
             const request = await rollup.getWithdrawalRequest(requestId);
             expect(request.user).to.equal(user1.address);
             expect(request.amount).to.equal(withdrawAmount);
-            expect(request.rollupBlock).to.equal(blockNum); // References current block
+            expect(request.rollupBlock).to.equal(blockNum); // References proven block
+            expect(request.stateRoot).to.equal(computeStateRoot(snapshot));
             expect(request.processed).to.be.false;
         });
 
         it("Should reject withdrawal processing before finalization", async function () {
-            const withdrawAmount = ethers.parseEther("2.0");
-
-            const tx = await rollup.connect(user1).requestWithdrawal(withdrawAmount);
+            const tx = await rollup.connect(user1).requestWithdrawal(blockNum, buildExitProof(snapshot, user1.address));
             const requestId = await getRequestIdFromTx(tx);
 
             await expect(rollup.connect(user1).processWithdrawal(requestId)).to.be.revertedWith("Rollup block not finalized");
         });
 
         it("Should allow withdrawal processing after finalization", async function () {
-            const withdrawAmount = ethers.parseEther("2.0");
-
             // Request withdrawal
-            const tx = await rollup.connect(user1).requestWithdrawal(withdrawAmount);
+            const tx = await rollup.connect(user1).requestWithdrawal(blockNum, buildExitProof(snapshot, user1.address));
             const requestId = await getRequestIdFromTx(tx);
 
             // Fast forward past challenge period and finalize
@@ -416,9 +1490,7 @@ describe("OptimisticRollup", function () {
         });
 
         it("Should reject double processing of withdrawal", async function () {
-            const withdrawAmount = ethers.parseEther("2.0");
-
-            const tx = await rollup.connect(user1).requestWithdrawal(withdrawAmount);
+            const tx = await rollup.connect(user1).requestWithdrawal(blockNum, buildExitProof(snapshot, user1.address));
             const requestId = await getRequestIdFromTx(tx);
 
             // Finalize block
@@ -433,9 +1505,7 @@ describe("OptimisticRollup", function () {
         });
 
         it("Should reject processing withdrawal of another user", async function () {
-            const withdrawAmount = ethers.parseEther("2.0");
-
-            const tx = await rollup.connect(user1).requestWithdrawal(withdrawAmount);
+            const tx = await rollup.connect(user1).requestWithdrawal(blockNum, buildExitProof(snapshot, user1.address));
             const requestId = await getRequestIdFromTx(tx);
 
             await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
@@ -443,19 +1513,665 @@ describe("OptimisticRollup", function () {
             await expect(rollup.connect(user2).processWithdrawal(requestId)).to.be.revertedWith("Not your withdrawal");
         });
 
-        it("Should handle withdrawal from challenged block", async function () {
-            const withdrawAmount = ethers.parseEther("2.0");
+        it("Should share the claimed exit balance with withdrawFromL2", async function () {
+            await rollup.connect(user1).requestWithdrawal(blockNum, buildExitProof(snapshot, user1.address));
 
-            const tx = await rollup.connect(user1).requestWithdrawal(withdrawAmount);
-            const requestId = await getRequestIdFromTx(tx);
+            await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+            await rollup.finalizeBlock(blockNum);
+            await expect(rollup.connect(user1).withdrawFromL2(blockNum, buildExitProof(snapshot, user1.address))).to.be.revertedWith("Nothing to withdraw");
+        });
 
-            // challenge block & fast forward
-            const fraudProof = ethers.toUtf8Bytes("fraud-proof-data");
-            await rollup.connect(challenger).challengeBlock(blockNum, fraudProof);
+        describe("LP buyouts", function () {
+            const price = ethers.parseEther("1.95");
+            let requestId: string;
+
+            beforeEach(async function () {
+                requestId = await getRequestIdFromTx(await rollup.connect(user1).requestWithdrawal(blockNum, buildExitProof(snapshot, user1.address)));
+            });
+
+            it("Should pay the user now & the buyer at finalization", async function () {
+                await expect(rollup.connect(user1).offerWithdrawal(requestId, price)).to.emit(rollup, "WithdrawalOffered").withArgs(requestId, user1.address, price);
+
+                const userInitialBalance = await ethers.provider.getBalance(user1.address);
+                await expect(rollup.connect(user2).buyWithdrawal(requestId, { value: price }))
+                    .to.emit(rollup, "WithdrawalBought")
+                    .withArgs(requestId, user1.address, user2.address, price);
+                expect(await ethers.provider.getBalance(user1.address)).to.equal(userInitialBalance + price);
+                const request = await rollup.getWithdrawalRequest(requestId);
+                expect([request.user, request.beneficiary, request.price]).to.deep.equal([user1.address, user2.address, 0n]);
+
+                await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+                await rollup.finalizeBlock(blockNum);
+                await expect(rollup.connect(user1).processWithdrawal(requestId)).to.be.revertedWith("Not your withdrawal");
+                await expect(rollup.connect(user2).processWithdrawal(requestId)).to.emit(rollup, "WithdrawalProcessed").withArgs(user2.address, withdrawAmount);
+                expect(await rollup.totalValueLocked()).to.equal(depositAmount - withdrawAmount);
+            });
+
+            it("Should only sell at the beneficiary's asking price", async function () {
+                await expect(rollup.connect(user2).buyWithdrawal(requestId, { value: price })).to.be.revertedWith("Withdrawal not for sale at this price");
+                await expect(rollup.connect(user2).offerWithdrawal(requestId, price)).to.be.revertedWith("Not your withdrawal");
+                await expect(rollup.connect(user1).offerWithdrawal(requestId, withdrawAmount)).to.be.revertedWith("Price above withdrawal amount");
+
+                await rollup.connect(user1).offerWithdrawal(requestId, price);
+                await expect(rollup.connect(user2).buyWithdrawal(requestId, { value: price - 1n })).to.be.revertedWith("Withdrawal not for sale at this price");
+                await rollup.connect(user1).offerWithdrawal(requestId, 0);
+                await expect(rollup.connect(user2).buyWithdrawal(requestId, { value: price })).to.be.revertedWith("Withdrawal not for sale at this price");
+            });
+
+            it("Should let the beneficiary hand the request on, taking it off sale", async function () {
+                await rollup.connect(user1).offerWithdrawal(requestId, price);
+                await expect(rollup.connect(user2).transferWithdrawal(requestId, user2.address)).to.be.revertedWith("Not your withdrawal");
+                await expect(rollup.connect(user1).transferWithdrawal(requestId, ethers.ZeroAddress)).to.be.revertedWith("Invalid beneficiary");
+                await expect(rollup.connect(user1).transferWithdrawal(requestId, user2.address))
+                    .to.emit(rollup, "WithdrawalTransferred")
+                    .withArgs(requestId, user1.address, user2.address);
+                await expect(rollup.connect(challenger).buyWithdrawal(requestId, { value: price })).to.be.revertedWith("Withdrawal not for sale at this price");
+
+                await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+                await rollup.finalizeBlock(blockNum);
+                await rollup.connect(user2).processWithdrawal(requestId);
+                await expect(rollup.connect(user2).buyWithdrawal(requestId, { value: price })).to.be.revertedWith("Withdrawal already processed");
+            });
+        });
+
+    });
+
+    describe("L2 Withdrawals", function () {
+        const operatorBond = ethers.parseEther("1.0");
+        const depositAmount = ethers.parseEther("5.0");
+        let snapshot: StateSnapshot;
+
+        beforeEach(async function () {
+            await rollup.connect(user1).deposit({ value: depositAmount });
+
+            // user1 has sent 2 ETH of their L2 funds to their exit address
+            snapshot = new Map([
+                [user1.address, { balance: ethers.parseEther("2.99"), nonce: 1n }],
+                [user2.address, { balance: ethers.parseEther("3.0"), nonce: 0n }],
+                [l2ExitAddress(user1.address), { balance: ethers.parseEther("2.0"), nonce: 0n }],
+            ]);
+        });
+
+        async function submitAndFinalize(state: StateSnapshot) {
+            const { transactions, txRoot } = await makeBatch();
+            const pending = await rollup.getPendingDeposits();
+            await rollup.connect(operator).submitRollupBlock(computeStateRoot(state), txRoot, transactions, pending, operator.address, { value: operatorBond });
+            const [, blockNum] = await rollup.getCurrentState();
             await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+            await rollup.finalizeBlock(blockNum);
+            return blockNum;
+        }
 
-            await expect(rollup.finalizeBlock(blockNum)).to.be.revertedWith("Block was challenged");
-            await expect(rollup.connect(user1).processWithdrawal(requestId)).to.be.revertedWith("Rollup block not finalized");
+        it("Should derive exit addresses the same way off-chain", async function () {
+            expect(await rollup.getL2ExitAddress(user1.address)).to.equal(l2ExitAddress(user1.address));
+            expect(l2ExitAddress(user1.address)).to.not.equal(l2ExitAddress(user2.address));
+        });
+
+        it("Should compute the same state root as StateLib", async function () {
+            const stateLib = await (await ethers.getContractFactory("StateLibTest")).deploy();
+            const accounts = sortedAccounts(snapshot);
+            const root = await stateLib.computeStateRoot(accounts.map(([account]) => account), accounts.map(([, data]) => ({ ...data, tokenBalances: data.tokenBalances ?? [], nfts: data.nfts ?? [] })));
+            expect(root).to.equal(computeStateRoot(snapshot));
+        });
+
+        it("Should pay out an exit balance proven against a finalized block", async function () {
+            const blockNum = await submitAndFinalize(snapshot);
+            const proof = buildExitProof(snapshot, user1.address);
+
+            const userInitialBalance = await ethers.provider.getBalance(user1.address);
+            await expect(rollup.connect(user1).withdrawFromL2(blockNum, proof))
+                .to.emit(rollup, "L2WithdrawalClaimed")
+                .withArgs(user1.address, ethers.parseEther("2.0"), blockNum);
+
+            const userFinalBalance = await ethers.provider.getBalance(user1.address);
+            expect(userFinalBalance).to.be.gt(userInitialBalance + ethers.parseEther("2.0") - ethers.parseEther("0.01"));
+            expect(await rollup.claimed_exits(user1.address)).to.equal(ethers.parseEther("2.0"));
+            expect(await rollup.totalValueLocked()).to.equal(depositAmount - ethers.parseEther("2.0"));
+        });
+
+        it("Should reject claiming the same exit balance twice", async function () {
+            const blockNum = await submitAndFinalize(snapshot);
+            const proof = buildExitProof(snapshot, user1.address);
+
+            await rollup.connect(user1).withdrawFromL2(blockNum, proof);
+            await expect(rollup.connect(user1).withdrawFromL2(blockNum, proof)).to.be.revertedWith("Nothing to withdraw");
+        });
+
+        it("Should only pay the unclaimed part of a grown exit balance", async function () {
+            const firstBlock = await submitAndFinalize(snapshot);
+            await rollup.connect(user1).withdrawFromL2(firstBlock, buildExitProof(snapshot, user1.address));
+
+            // user1 sends another 0.5 ETH to their exit address
+            const later: StateSnapshot = new Map(snapshot);
+            later.set(user1.address, { balance: ethers.parseEther("2.48"), nonce: 2n });
+            later.set(l2ExitAddress(user1.address), { balance: ethers.parseEther("2.5"), nonce: 0n });
+            const laterBlock = await submitAndFinalize(later);
+
+            await expect(rollup.connect(user1).withdrawFromL2(laterBlock, buildExitProof(later, user1.address)))
+                .to.emit(rollup, "L2WithdrawalClaimed")
+                .withArgs(user1.address, ethers.parseEther("0.5"), laterBlock);
+
+            // the older, smaller balance is spent
+            await expect(rollup.connect(user1).withdrawFromL2(firstBlock, buildExitProof(snapshot, user1.address))).to.be.revertedWith("Nothing to withdraw");
+        });
+
+        it("Should reject proofs against blocks that aren't finalized", async function () {
+            const { transactions, txRoot } = await makeBatch();
+            await rollup.connect(operator).submitRollupBlock(computeStateRoot(snapshot), txRoot, transactions, 0, operator.address, { value: operatorBond });
+
+            await expect(rollup.connect(user1).withdrawFromL2(1, buildExitProof(snapshot, user1.address))).to.be.revertedWith("Rollup block not finalized");
+        });
+
+        it("Should reject claims on someone else's exit balance", async function () {
+            const blockNum = await submitAndFinalize(snapshot);
+            await expect(rollup.connect(user2).withdrawFromL2(blockNum, buildExitProof(snapshot, user1.address))).to.be.revertedWith("Not your exit account");
+        });
+
+        it("Should reject proofs that don't match the state root", async function () {
+            const blockNum = await submitAndFinalize(snapshot);
+            const proof = buildExitProof(snapshot, user1.address);
+            proof.accountData = { ...proof.accountData, balance: ethers.parseEther("4.0") };
+
+            await expect(rollup.connect(user1).withdrawFromL2(blockNum, proof)).to.be.revertedWith("Invalid state proof");
+        });
+    });
+
+    describe("ERC-20 Bridging", function () {
+        const operatorBond = ethers.parseEther("1.0");
+        const amount = ethers.parseEther("10.0");
+        let token: MockERC20;
+
+        beforeEach(async function () {
+            token = await (await ethers.getContractFactory("MockERC20")).deploy("Mock", "MCK");
+            await token.mint(user1.address, amount);
+            await token.connect(user1).approve(await rollup.getAddress(), amount);
+        });
+
+        async function submitAndFinalize(state: StateSnapshot, txs: ReturnType<typeof makeTx>[]) {
+            const { transactions, txRoot } = await makeBatch(txs);
+            const pending = await rollup.getPendingDeposits();
+            await rollup.connect(operator).submitRollupBlock(computeStateRoot(state), txRoot, transactions, pending, operator.address, { value: operatorBond });
+            const [, blockNum] = await rollup.getCurrentState();
+            await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+            await rollup.finalizeBlock(blockNum);
+            return blockNum;
+        }
+
+        it("Should let only the registry owner register tokens, once each", async function () {
+            await expect(rollup.connect(user1).registerToken(await token.getAddress())).to.be.revertedWith("Only registry owner");
+            await expect(rollup.registerToken(ethers.ZeroAddress)).to.be.revertedWith("Invalid token");
+
+            await expect(rollup.registerToken(await token.getAddress())).to.emit(rollup, "TokenRegistered").withArgs(await token.getAddress(), 1);
+            expect(await rollup.tokenIds(await token.getAddress())).to.equal(1);
+            expect(await rollup.tokens(0)).to.equal(await token.getAddress());
+            expect(await rollup.getTokenCount()).to.equal(1);
+            await expect(rollup.registerToken(await token.getAddress())).to.be.revertedWith("Token already registered");
+        });
+
+        it("Should queue deposits of registered tokens in the inbox", async function () {
+            await expect(rollup.connect(user1).depositERC20(await token.getAddress(), amount)).to.be.revertedWith("Token not registered");
+            await rollup.registerToken(await token.getAddress());
+            await expect(rollup.connect(user1).depositERC20(await token.getAddress(), 0)).to.be.revertedWith("Error: No tokens to be deposited");
+
+            await rollup.connect(user1).deposit({ value: ethers.parseEther("1.0") });
+            await expect(rollup.connect(user1).depositERC20(await token.getAddress(), amount))
+                .to.emit(rollup, "ERC20Deposit")
+                .withArgs(user1.address, await token.getAddress(), amount, 1);
+
+            const entry = await rollup.inbox(1);
+            expect([entry.user, entry.token, entry.amount]).to.deep.equal([user1.address, 1n, amount]);
+            expect(await token.balanceOf(await rollup.getAddress())).to.equal(amount);
+            // ETH only
+            expect(await rollup.totalValueLocked()).to.equal(ethers.parseEther("1.0"));
+            expect(await rollup.getInboxAccumulator(2)).to.equal(computeInboxAccumulator([
+                { user: user1.address, amount: ethers.parseEther("1.0") },
+                { user: user1.address, token: 1n, amount },
+            ]));
+        });
+
+        it("Should pay out token exit balances proven against a finalized block", async function () {
+            await rollup.registerToken(await token.getAddress());
+            await rollup.connect(user1).depositERC20(await token.getAddress(), amount);
+
+            // the block credits the deposit, then user1 sends 4 tokens to their exit address, paying the fee in tokens
+            const state: StateSnapshot = new Map([[user1.address, { balance: 0n, nonce: 0n, tokenBalances: [amount] }]]);
+            const txn = await makeSignedTx(user1, l2ExitAddress(user1.address), ethers.parseEther("4.0"), 0n, ethers.parseEther("0.01"), 1n);
+            applyTransaction(state, txn, operator.address, await getRollupDomain(rollup));
+            expect(state.get(operator.address)).to.deep.equal({ balance: 0n, nonce: 0n, tokenBalances: [ethers.parseEther("0.01")] });
+            const blockNum = await submitAndFinalize(state, [txn]);
+
+            const proof = buildExitProof(state, user1.address);
+            await expect(rollup.connect(user1).withdrawERC20FromL2(blockNum, await token.getAddress(), proof))
+                .to.emit(rollup, "L2ERC20WithdrawalClaimed")
+                .withArgs(user1.address, await token.getAddress(), ethers.parseEther("4.0"), blockNum);
+            expect(await token.balanceOf(user1.address)).to.equal(ethers.parseEther("4.0"));
+            expect(await rollup.claimed_token_exits(user1.address, 1)).to.equal(ethers.parseEther("4.0"));
+
+            await expect(rollup.connect(user1).withdrawERC20FromL2(blockNum, await token.getAddress(), proof)).to.be.revertedWith("Nothing to withdraw");
+            // the exit account holds no ETH
+            await expect(rollup.connect(user1).withdrawFromL2(blockNum, proof)).to.be.revertedWith("Nothing to withdraw");
+        });
+
+        it("Should reject token withdrawals of unregistered tokens", async function () {
+            const state: StateSnapshot = new Map([[l2ExitAddress(user1.address), { balance: 0n, nonce: 0n, tokenBalances: [amount] }]]);
+            const blockNum = await submitAndFinalize(state, [makeTx(user1.address, user2.address, 1n, 0n, 0n)]);
+
+            await expect(rollup.connect(user1).withdrawERC20FromL2(blockNum, await token.getAddress(), buildExitProof(state, user1.address))).to.be.revertedWith("Token not registered");
+        });
+
+        it("Should challenge a block that moves tokens wrongly", async function () {
+            const domain = await getRollupDomain(rollup);
+            const preState: StateSnapshot = new Map([[user1.address, { balance: ethers.parseEther("1.0"), nonce: 0n, tokenBalances: [0n, amount] }]]);
+            const parentBatch = await makeBatch();
+            await rollup.connect(operator).submitRollupBlock(computeStateRoot(preState), parentBatch.txRoot, parentBatch.transactions, 0, operator.address, { value: operatorBond });
+
+            // the transfer moves token 2, but the operator charged the fee in ETH
+            const txn = await makeSignedTx(user1, user2.address, ethers.parseEther("3.0"), 0n, ethers.parseEther("0.01"), 2n);
+            const wrongRoot = computeStateRoot(new Map([
+                [user1.address, { balance: ethers.parseEther("0.99"), nonce: 1n, tokenBalances: [0n, ethers.parseEther("7.0")] }],
+                [user2.address, { balance: 0n, nonce: 0n, tokenBalances: [0n, ethers.parseEther("3.0")] }],
+                [operator.address, { balance: ethers.parseEther("0.01"), nonce: 0n }],
+            ]));
+            const { transactions, txRoot } = await makeBatch([txn]);
+            await rollup.connect(operator).submitRollupBlock(wrongRoot, txRoot, transactions, 0, operator.address, { value: operatorBond });
+
+            const proof = buildFraudProof([txn], 0, preState, wrongRoot, operator.address, domain);
+            await expect(rollup.connect(challenger).challengeBlock(2, encodeFraudProof(proof)))
+                .to.emit(rollup, "Challenge")
+                .withArgs(2, challenger.address, 0, "Operator computed incorrect post-state");
+        });
+    });
+
+    describe("ERC-721 Bridging", function () {
+        const operatorBond = ethers.parseEther("1.0");
+        const tokenId = 42n;
+        let collection: MockERC721;
+        let nft: bigint;
+
+        beforeEach(async function () {
+            collection = await (await ethers.getContractFactory("MockERC721")).deploy("Mock", "MCK");
+            await collection.mint(user1.address, tokenId);
+            await collection.connect(user1).approve(await rollup.getAddress(), tokenId);
+            nft = l2NftId(await collection.getAddress(), tokenId, 0n);
+        });
+
+        async function submitAndFinalize(state: StateSnapshot, txs: ReturnType<typeof makeTx>[]) {
+            const { transactions, txRoot } = await makeBatch(txs);
+            const pending = await rollup.getPendingDeposits();
+            await rollup.connect(operator).submitRollupBlock(computeStateRoot(state), txRoot, transactions, pending, operator.address, { value: operatorBond });
+            const [, blockNum] = await rollup.getCurrentState();
+            await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+            await rollup.finalizeBlock(blockNum);
+            return blockNum;
+        }
+
+        // user1's deposit credited, then the NFT sent to their exit address with the fee paid in ETH
+        async function transferToExit() {
+            const state: StateSnapshot = new Map([[user1.address, { balance: ethers.parseEther("1.0"), nonce: 0n, nfts: [nft] }]]);
+            const txn = await signTransaction(user1, { from: user1.address, to: l2ExitAddress(user1.address), nft, amount: 0n, nonce: 0n, fee: ethers.parseEther("0.01") }, await getRollupDomain(rollup));
+            applyTransaction(state, txn, operator.address, await getRollupDomain(rollup));
+            return { state, txn };
+        }
+
+        it("Should queue NFT deposits in the inbox under a fresh L2 id", async function () {
+            await expect(rollup.connect(user1).depositERC721(await collection.getAddress(), tokenId))
+                .to.emit(rollup, "ERC721Deposit")
+                .withArgs(user1.address, await collection.getAddress(), tokenId, nft, 0);
+
+            const entry = await rollup.inbox(0);
+            expect([entry.user, entry.token, entry.nft, entry.amount]).to.deep.equal([user1.address, ETH, nft, 0n]);
+            expect(await rollup.getL2NftId(await collection.getAddress(), tokenId, 0)).to.equal(nft);
+            expect(await collection.ownerOf(tokenId)).to.equal(await rollup.getAddress());
+            expect(await rollup.getInboxAccumulator(1)).to.equal(computeInboxAccumulator([{ user: user1.address, nft, amount: 0n }]));
+            // the same NFT deposited again gets another id
+            expect(l2NftId(await collection.getAddress(), tokenId, 1n)).to.not.equal(nft);
+        });
+
+        it("Should reject deposits of NFTs the sender can't move", async function () {
+            await expect(rollup.connect(user2).depositERC721(await collection.getAddress(), tokenId)).to.be.reverted;
+            expect(await rollup.getInboxLength()).to.equal(0);
+        });
+
+        it("Should hand out an NFT proven in a finalized exit account, once", async function () {
+            await rollup.connect(user1).deposit({ value: ethers.parseEther("1.0") });
+            await rollup.connect(user1).depositERC721(await collection.getAddress(), tokenId);
+            nft = l2NftId(await collection.getAddress(), tokenId, 1n);
+            const { state, txn } = await transferToExit();
+            expect(state.get(l2ExitAddress(user1.address))).to.deep.equal({ balance: 0n, nonce: 0n, nfts: [nft] });
+            const blockNum = await submitAndFinalize(state, [txn]);
+
+            const proof = buildExitProof(state, user1.address);
+            await expect(rollup.connect(user2).withdrawERC721FromL2(blockNum, await collection.getAddress(), tokenId, 1, proof)).to.be.revertedWith("Not your exit account");
+            await expect(rollup.connect(user1).withdrawERC721FromL2(blockNum, await collection.getAddress(), tokenId, 0, proof)).to.be.revertedWith("Unknown NFT");
+            await expect(rollup.connect(user1).withdrawERC721FromL2(blockNum, await collection.getAddress(), tokenId, 1, proof))
+                .to.emit(rollup, "L2ERC721WithdrawalClaimed")
+                .withArgs(user1.address, await collection.getAddress(), tokenId, blockNum);
+            expect(await collection.ownerOf(tokenId)).to.equal(user1.address);
+            expect(await rollup.claimed_nfts(nft)).to.be.true;
+
+            await expect(rollup.connect(user1).withdrawERC721FromL2(blockNum, await collection.getAddress(), tokenId, 1, proof)).to.be.revertedWith("NFT already withdrawn");
+        });
+
+        it("Should reject NFTs the exit account doesn't hold", async function () {
+            await rollup.connect(user1).depositERC721(await collection.getAddress(), tokenId);
+            const state: StateSnapshot = new Map([
+                [user1.address, { balance: 0n, nonce: 0n, nfts: [nft] }],
+                [l2ExitAddress(user1.address), { balance: ethers.parseEther("1.0"), nonce: 0n }],
+            ]);
+            const blockNum = await submitAndFinalize(state, [makeTx(user1.address, user2.address, 1n, 0n, 0n)]);
+
+            await expect(rollup.connect(user1).withdrawERC721FromL2(blockNum, await collection.getAddress(), tokenId, 0, buildExitProof(state, user1.address))).to.be.revertedWith("NFT not in exit account");
+        });
+
+        it("Should challenge a block that hands an NFT to the wrong account", async function () {
+            const domain = await getRollupDomain(rollup);
+            const preState: StateSnapshot = new Map([[user1.address, { balance: ethers.parseEther("1.0"), nonce: 0n, nfts: [nft] }]]);
+            const parentBatch = await makeBatch();
+            await rollup.connect(operator).submitRollupBlock(computeStateRoot(preState), parentBatch.txRoot, parentBatch.transactions, 0, operator.address, { value: operatorBond });
+
+            // the transfer is to user2, but the operator left the NFT with user1
+            const txn = await signTransaction(user1, { from: user1.address, to: user2.address, nft, amount: 0n, nonce: 0n, fee: ethers.parseEther("0.01") }, domain);
+            const wrongRoot = computeStateRoot(new Map([
+                [user1.address, { balance: ethers.parseEther("0.99"), nonce: 1n, nfts: [nft] }],
+                [operator.address, { balance: ethers.parseEther("0.01"), nonce: 0n }],
+            ]));
+            const { transactions, txRoot } = await makeBatch([txn]);
+            await rollup.connect(operator).submitRollupBlock(wrongRoot, txRoot, transactions, 0, operator.address, { value: operatorBond });
+
+            const proof = buildFraudProof([txn], 0, preState, wrongRoot, operator.address, domain);
+            await expect(rollup.connect(challenger).challengeBlock(2, encodeFraudProof(proof)))
+                .to.emit(rollup, "Challenge")
+                .withArgs(2, challenger.address, 0, "Operator computed incorrect post-state");
+        });
+    });
+
+    describe("Escape Hatch", function () {
+        const operatorBond = ethers.parseEther("1.0");
+        const depositAmount = ethers.parseEther("5.0");
+        let snapshot: StateSnapshot;
+
+        beforeEach(async function () {
+            await rollup.connect(user1).deposit({ value: depositAmount });
+            snapshot = new Map([
+                [user1.address, { balance: ethers.parseEther("2.99"), nonce: 1n }],
+                [user2.address, { balance: ethers.parseEther("2.0"), nonce: 0n }],
+            ]);
+        });
+
+        async function submitBlock(state: StateSnapshot) {
+            const { transactions, txRoot } = await makeBatch();
+            const pending = await rollup.getPendingDeposits();
+            await rollup.connect(operator).submitRollupBlock(computeStateRoot(state), txRoot, transactions, pending, operator.address, { value: operatorBond });
+            return (await rollup.getCurrentState())[1];
+        }
+
+        async function submitAndFinalize(state: StateSnapshot) {
+            const blockNum = await submitBlock(state);
+            await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+            await rollup.finalizeBlock(blockNum);
+            return blockNum;
+        }
+
+        async function freeze() {
+            await ethers.provider.send("hardhat_mine", [ethers.toQuantity((await rollup.ESCAPE_DELAY()) + 1n)]);
+        }
+
+        it("Should freeze once nothing was submitted or finalized for the escape delay", async function () {
+            const delay = await rollup.ESCAPE_DELAY();
+            expect(delay).to.be.gt(await registry.UNSTAKE_DELAY());
+            const blockNum = await submitBlock(snapshot);
+            expect(await rollup.lastProgressBlock()).to.equal(await ethers.provider.getBlockNumber());
+
+            // finalizing counts as progress too
+            await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+            await rollup.finalizeBlock(blockNum);
+            expect(await rollup.lastFinalizedBlock()).to.equal(blockNum);
+            await ethers.provider.send("hardhat_mine", [ethers.toQuantity(delay)]);
+            expect(await rollup.frozen()).to.be.false;
+
+            await ethers.provider.send("hardhat_mine", ["0x1"]);
+            expect(await rollup.frozen()).to.be.true;
+            const { transactions, txRoot } = await makeBatch();
+            await expect(rollup.connect(operator).submitRollupBlock(computeStateRoot(snapshot), txRoot, transactions, 0, operator.address, { value: operatorBond })).to.be.revertedWith("Rollup frozen");
+            await expect(rollup.connect(user1).deposit({ value: depositAmount })).to.be.revertedWith("Rollup frozen");
+        });
+
+        it("Should stop finalizing blocks once frozen", async function () {
+            const blockNum = await submitBlock(snapshot);
+            await freeze();
+            expect(await rollup.canFinalize(blockNum)).to.be.false;
+            await expect(rollup.finalizeBlock(blockNum)).to.be.revertedWith("Rollup frozen");
+        });
+
+        it("Should pay out an account's ETH & tokens under the last finalized root, once", async function () {
+            const token = await (await ethers.getContractFactory("MockERC20")).deploy("Mock", "MCK");
+            await token.mint(user1.address, ethers.parseEther("10.0"));
+            await token.connect(user1).approve(await rollup.getAddress(), ethers.parseEther("10.0"));
+            await rollup.registerToken(await token.getAddress());
+            await rollup.connect(user1).depositERC20(await token.getAddress(), ethers.parseEther("10.0"));
+            snapshot.set(user1.address, { balance: ethers.parseEther("2.99"), nonce: 1n, tokenBalances: [ethers.parseEther("10.0")] });
+            const blockNum = await submitAndFinalize(snapshot);
+            const proof = buildEscapeProof(snapshot, user1.address);
+            await expect(rollup.connect(user1).escapeExit(proof)).to.be.revertedWith("Rollup not frozen");
+
+            // user1 spent it all in a block that never finalizes
+            const later: StateSnapshot = new Map(snapshot);
+            later.set(user1.address, { balance: 0n, nonce: 2n });
+            await submitBlock(later);
+            await freeze();
+
+            await expect(rollup.connect(user2).escapeExit(proof)).to.be.revertedWith("Not your account");
+            await expect(rollup.connect(user1).escapeExit(buildEscapeProof(later, user1.address))).to.be.revertedWith("Invalid state proof");
+            await expect(rollup.connect(user1).escapeExit(proof))
+                .to.emit(rollup, "EscapeExit")
+                .withArgs(user1.address, ethers.parseEther("2.99"), blockNum);
+            expect(await token.balanceOf(user1.address)).to.equal(ethers.parseEther("10.0"));
+            expect(await rollup.totalValueLocked()).to.equal(depositAmount - ethers.parseEther("2.99"));
+            expect(await rollup.hasEscaped(user1.address)).to.be.true;
+            expect(await rollup.hasEscaped(user2.address)).to.be.false;
+            await expect(rollup.connect(user1).escapeExit(proof)).to.be.revertedWith("Already escaped");
+
+            // everyone has their own bit
+            await rollup.connect(user2).escapeExit(buildEscapeProof(snapshot, user2.address));
+            expect(await rollup.hasEscaped(user2.address)).to.be.true;
+        });
+
+        it("Should hand out NFTs in an account under the last finalized root", async function () {
+            const collection = await (await ethers.getContractFactory("MockERC721")).deploy("Mock", "MCK");
+            await collection.mint(user1.address, 42n);
+            await collection.connect(user1).approve(await rollup.getAddress(), 42n);
+            await rollup.connect(user1).depositERC721(await collection.getAddress(), 42n);
+            const nft = l2NftId(await collection.getAddress(), 42n, 1n);
+            snapshot.set(user1.address, { balance: ethers.parseEther("2.99"), nonce: 1n, nfts: [nft] });
+            const blockNum = await submitAndFinalize(snapshot);
+            await freeze();
+
+            const proof = buildEscapeProof(snapshot, user1.address);
+            await expect(rollup.connect(user2).escapeERC721(await collection.getAddress(), 42n, 1, buildEscapeProof(snapshot, user2.address))).to.be.revertedWith("NFT not in account");
+            await expect(rollup.connect(user1).escapeERC721(await collection.getAddress(), 42n, 1, proof))
+                .to.emit(rollup, "L2ERC721WithdrawalClaimed")
+                .withArgs(user1.address, await collection.getAddress(), 42n, blockNum);
+            expect(await collection.ownerOf(42n)).to.equal(user1.address);
+            await expect(rollup.connect(user1).escapeERC721(await collection.getAddress(), 42n, 1, proof)).to.be.revertedWith("NFT already withdrawn");
+
+            // the NFT doesn't stand in the way of the rest of the account
+            await rollup.connect(user1).escapeExit(proof);
+        });
+
+        it("Should refund deposits the last finalized block didn't consume", async function () {
+            const token = await (await ethers.getContractFactory("MockERC20")).deploy("Mock", "MCK");
+            const collection = await (await ethers.getContractFactory("MockERC721")).deploy("Mock", "MCK");
+            await rollup.registerToken(await token.getAddress());
+            await token.mint(user1.address, ethers.parseEther("10.0"));
+            await token.connect(user1).approve(await rollup.getAddress(), ethers.parseEther("10.0"));
+            await collection.mint(user1.address, 42n);
+            await collection.connect(user1).approve(await rollup.getAddress(), 42n);
+            await submitAndFinalize(snapshot);
+
+            // consumed by a block that never finalizes, or by none at all
+            await rollup.connect(user1).deposit({ value: ethers.parseEther("1.0") });
+            await rollup.connect(user1).depositERC20(await token.getAddress(), ethers.parseEther("10.0"));
+            await submitBlock(snapshot);
+            await rollup.connect(user1).depositERC721(await collection.getAddress(), 42n);
+            await expect(rollup.connect(user1).refundDeposit(1, ethers.ZeroAddress, 0)).to.be.revertedWith("Rollup not frozen");
+            await freeze();
+
+            await expect(rollup.connect(user1).refundDeposit(0, ethers.ZeroAddress, 0)).to.be.revertedWith("Deposit not refundable");
+            await expect(rollup.connect(user1).refundDeposit(4, ethers.ZeroAddress, 0)).to.be.revertedWith("Deposit not refundable");
+            await expect(rollup.connect(user2).refundDeposit(1, ethers.ZeroAddress, 0)).to.be.revertedWith("Not your deposit");
+            await expect(rollup.connect(user1).refundDeposit(1, ethers.ZeroAddress, 0)).to.emit(rollup, "DepositRefunded").withArgs(user1.address, 1);
+            expect(await rollup.totalValueLocked()).to.equal(depositAmount);
+            await expect(rollup.connect(user1).refundDeposit(1, ethers.ZeroAddress, 0)).to.be.revertedWith("Deposit already refunded");
+
+            await rollup.connect(user1).refundDeposit(2, ethers.ZeroAddress, 0);
+            expect(await token.balanceOf(user1.address)).to.equal(ethers.parseEther("10.0"));
+            await expect(rollup.connect(user1).refundDeposit(3, await collection.getAddress(), 43n)).to.be.revertedWith("Unknown NFT");
+            await rollup.connect(user1).refundDeposit(3, await collection.getAddress(), 42n);
+            expect(await collection.ownerOf(42n)).to.equal(user1.address);
+        });
+
+        it("Should let withdrawal requests on blocks that never finalize be cancelled", async function () {
+            snapshot.set(l2ExitAddress(user1.address), { balance: ethers.parseEther("1.0"), nonce: 0n });
+            const blockNum = await submitBlock(snapshot);
+            const requestId = await getRequestIdFromTx(await rollup.connect(user1).requestWithdrawal(blockNum, buildExitProof(snapshot, user1.address)));
+            await expect(rollup.connect(user1).cancelWithdrawal(requestId)).to.be.revertedWith("Withdrawal block not dropped");
+            await freeze();
+
+            await expect(rollup.connect(user1).cancelWithdrawal(requestId)).to.emit(rollup, "WithdrawalCancelled");
+            expect(await rollup.claimed_exits(user1.address)).to.equal(0);
+        });
+    });
+
+    describe("L2 to L1 Messages", function () {
+        const operatorBond = ethers.parseEther("1.0");
+        const depositAmount = ethers.parseEther("5.0");
+        let target: MockMessageTarget;
+        let preState: StateSnapshot;
+
+        beforeEach(async function () {
+            target = await (await ethers.getContractFactory("MockMessageTarget")).deploy();
+            await rollup.connect(user1).deposit({ value: depositAmount });
+            preState = new Map([[user1.address, { balance: depositAmount, nonce: 0n }]]);
+        });
+
+        // user1 sends target.receiveMessage(value) along with value wei
+        async function sendMessage(value: bigint, nonce = 0n) {
+            return sendCall(await target.getAddress(), target.interface.encodeFunctionData("receiveMessage", [value]), value, nonce);
+        }
+
+        async function sendCall(to: string, data: string, value: bigint, nonce = 0n) {
+            return signTransaction(user1, { from: user1.address, to, amount: value, nonce, fee: ethers.parseEther("0.01"), data }, await getRollupDomain(rollup));
+        }
+
+        async function submitAndFinalize(txs: Awaited<ReturnType<typeof sendMessage>>[]) {
+            const state: StateSnapshot = new Map(preState);
+            for (const txn of txs) applyTransaction(state, txn, operator.address, await getRollupDomain(rollup));
+            const { transactions, txRoot } = await makeBatch(txs);
+            const pending = await rollup.getPendingDeposits();
+            await rollup.connect(operator).submitRollupBlock(computeStateRoot(state), txRoot, transactions, pending, operator.address, { value: operatorBond });
+            const [, blockNum] = await rollup.getCurrentState();
+            await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+            await rollup.finalizeBlock(blockNum);
+            return { blockNum, state };
+        }
+
+        it("Should commit each block to the messages its txs send", async function () {
+            const txs = [await sendMessage(ethers.parseEther("1.0")), await makeSignedTx(user1, user2.address, ethers.parseEther("1.0"), 1n, 0n), await sendMessage(0n, 2n)];
+            const { blockNum, state } = await submitAndFinalize(txs);
+
+            expect((await rollup.getRollupBlock(blockNum)).messageRoot).to.equal(computeMessageRoot(txs));
+            expect(batchMessages(txs).map(({ value }) => value)).to.deep.equal([ethers.parseEther("1.0"), 0n]);
+            // the message's value left L2, nothing was credited to its target there
+            expect(state.get(user1.address)!.balance).to.equal(ethers.parseEther("2.98"));
+            expect(state.get(await target.getAddress())?.balance ?? 0n).to.equal(0n);
+
+            const plain = await submitAndFinalize([makeTx(user2.address, user1.address, 1n, 0n, 0n)]);
+            expect((await rollup.getRollupBlock(plain.blockNum)).messageRoot).to.equal(HashZero);
+        });
+
+        it("Should relay a finalized message once, with its L2 sender & value", async function () {
+            const txs = [await sendMessage(ethers.parseEther("1.0")), await sendMessage(ethers.parseEther("0.5"), 1n)];
+            const { transactions, txRoot } = await makeBatch(txs);
+            await rollup.connect(operator).submitRollupBlock(computeStateRoot(preState), txRoot, transactions, 1, operator.address, { value: operatorBond });
+            const { message, proof } = buildMessageProof(txs, 1);
+            await expect(rollup.relayMessage(1, message, proof)).to.be.revertedWith("Rollup block not finalized");
+            await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+            await rollup.finalizeBlock(1);
+
+            await expect(rollup.relayMessage(1, { ...message, value: ethers.parseEther("1.0") }, proof)).to.be.revertedWith("Invalid message proof");
+            await expect(rollup.connect(challenger).relayMessage(1, message, proof))
+                .to.emit(rollup, "MessageRelayed")
+                .withArgs(getMessageLeaf(message), user1.address, await target.getAddress(), 1);
+            expect(await target.l2Sender()).to.equal(user1.address);
+            expect(await target.received()).to.equal(ethers.parseEther("0.5"));
+            expect(await target.lastValue()).to.equal(ethers.parseEther("0.5"));
+            expect(await rollup.totalValueLocked()).to.equal(depositAmount - ethers.parseEther("0.5"));
+            expect(await rollup.relayed_messages(getMessageLeaf(message))).to.be.true;
+
+            await expect(rollup.relayMessage(1, message, proof)).to.be.revertedWith("Message already relayed");
+            const messenger = await ethers.getContractAt("Messenger", await rollup.messenger());
+            await expect(messenger.l2MessageSender()).to.be.revertedWith("No message being relayed");
+        });
+
+        it("Should only relay through the messenger, which holds none of the rollup's assets", async function () {
+            const messenger = await ethers.getContractAt("Messenger", await rollup.messenger());
+            expect(await messenger.rollup()).to.equal(await rollup.getAddress());
+            await expect(messenger.relay(user1.address, await target.getAddress(), "0x")).to.be.revertedWith("Only rollup");
+
+            const token = await (await ethers.getContractFactory("MockERC20")).deploy("Mock", "MCK");
+            await rollup.registerToken(await token.getAddress());
+            await token.mint(user2.address, 100n);
+            await token.connect(user2).approve(await rollup.getAddress(), 100n);
+            await rollup.connect(user2).depositERC20(await token.getAddress(), 100n);
+            const collection = await (await ethers.getContractFactory("MockERC721")).deploy("Mock", "MCK");
+            await collection.mint(user2.address, 42n);
+            await collection.connect(user2).approve(await rollup.getAddress(), 42n);
+            await rollup.connect(user2).depositERC721(await collection.getAddress(), 42n);
+
+            // user1 tries to take the bridged token & NFT, and to eject an operator, through messages
+            const txs = [
+                await sendCall(await token.getAddress(), token.interface.encodeFunctionData("transfer", [user1.address, 100n]), 0n),
+                await sendCall(await collection.getAddress(), collection.interface.encodeFunctionData("transferFrom", [await rollup.getAddress(), user1.address, 42n]), 0n, 1n),
+                await sendCall(await registry.getAddress(), registry.interface.encodeFunctionData("eject", [operator.address]), 0n, 2n),
+            ];
+            const { blockNum } = await submitAndFinalize(txs);
+            for (let i = 0; i < txs.length; i++) {
+                const { message, proof } = buildMessageProof(txs, i);
+                await expect(rollup.relayMessage(blockNum, message, proof)).to.be.revertedWith("Message call failed");
+            }
+
+            expect(await token.balanceOf(await rollup.getAddress())).to.equal(100n);
+            expect(await collection.ownerOf(42n)).to.equal(await rollup.getAddress());
+            expect(await registry.isActive(operator.address)).to.be.true;
+        });
+
+        it("Should let a message whose call reverted be relayed later", async function () {
+            const txs = [await sendMessage(ethers.parseEther("1.0"))];
+            const { blockNum } = await submitAndFinalize(txs);
+            const { message, proof } = buildMessageProof(txs, 0);
+
+            await target.setPaused(true);
+            await expect(rollup.relayMessage(blockNum, message, proof)).to.be.revertedWith("Message call failed");
+            expect(await rollup.relayed_messages(getMessageLeaf(message))).to.be.false;
+
+            await target.setPaused(false);
+            await rollup.relayMessage(blockNum, message, proof);
+            expect(await target.received()).to.equal(ethers.parseEther("1.0"));
+        });
+
+        it("Should challenge a block with a message its sender never signed", async function () {
+            const parentBatch = await makeBatch();
+            await rollup.connect(operator).submitRollupBlock(computeStateRoot(preState), parentBatch.txRoot, parentBatch.transactions, 1, operator.address, { value: operatorBond });
+
+            // the operator forges a message from user1
+            const forged = { ...(await sendMessage(ethers.parseEther("1.0"))), signature: "0x" };
+            const { transactions, txRoot } = await makeBatch([forged]);
+            await rollup.connect(operator).submitRollupBlock(computeStateRoot(preState), txRoot, transactions, 0, operator.address, { value: operatorBond });
+
+            const proof = buildFraudProof([forged], 0, preState, computeStateRoot(preState), operator.address, await getRollupDomain(rollup));
+            await expect(rollup.connect(challenger).challengeBlock(2, encodeFraudProof(proof)))
+                .to.emit(rollup, "Challenge")
+                .withArgs(2, challenger.address, 1, "Transaction should have failed but was included"); // INVALID_TRANSACTION
         });
     });
 
@@ -465,10 +2181,9 @@ describe("OptimisticRollup", function () {
             await rollup.connect(user1).deposit({ value: ethers.parseEther("5.0") });
 
             const newStateRoot = ethers.keccak256(ethers.toUtf8Bytes("new-state"));
-            const transactions = [ethers.toUtf8Bytes("tx1")];
-            const transactionRoot = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["bytes[]"], [transactions]));
+            const { transactions, txRoot: transactionRoot } = await makeBatch();
 
-            await rollup.connect(operator).submitRollupBlock(newStateRoot, transactionRoot, transactions, { value: operatorBond });
+            await rollup.connect(operator).submitRollupBlock(newStateRoot, transactionRoot, transactions, 0, operator.address, { value: operatorBond });
 
             // initially can challenge, cannot finalize
             expect(await rollup.canChallenge(1)).to.be.true;
@@ -490,21 +2205,23 @@ describe("OptimisticRollup", function () {
 
             // user deposits
             await rollup.connect(user1).deposit({ value: depositAmount });
-            expect(await rollup.getBalance(user1.address)).to.equal(depositAmount);
+            expect(await rollup.getPendingDeposits()).to.equal(1);
 
-            // operator submits batch
-            const newStateRoot = ethers.keccak256(ethers.toUtf8Bytes("new-state"));
-            const transactions = [ethers.toUtf8Bytes("tx1")];
-            const transactionRoot = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["bytes[]"], [transactions]));
+            // operator submits batch crediting the deposit, in which user1 moves 3 ETH to their exit address
+            const state: StateSnapshot = new Map([
+                [user1.address, { balance: depositAmount - withdrawAmount - ethers.parseEther("0.01"), nonce: 1n }],
+                [l2ExitAddress(user1.address), { balance: withdrawAmount, nonce: 0n }],
+                [operator.address, { balance: ethers.parseEther("0.01"), nonce: 0n }],
+            ]);
+            const { transactions, txRoot: transactionRoot } = await makeBatch([makeTx(user1.address, l2ExitAddress(user1.address), withdrawAmount, 0n, ethers.parseEther("0.01"))]);
 
-            await rollup.connect(operator).submitRollupBlock(newStateRoot, transactionRoot, transactions, { value: operatorBond });
+            await rollup.connect(operator).submitRollupBlock(computeStateRoot(state), transactionRoot, transactions, 1, operator.address, { value: operatorBond });
+            expect(await rollup.getPendingDeposits()).to.equal(0);
 
             // user requests withdrawal
-            const tx = await rollup.connect(user1).requestWithdrawal(withdrawAmount);
+            const tx = await rollup.connect(user1).requestWithdrawal(1, buildExitProof(state, user1.address));
             const requestId = await getRequestIdFromTx(tx);
 
-            expect(await rollup.getBalance(user1.address)).to.equal(depositAmount - withdrawAmount);
-
             // wait for finalization
             await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
             await rollup.finalizeBlock(1);
@@ -520,6 +2237,29 @@ describe("OptimisticRollup", function () {
             // bond was returned during finalization
             expect(await rollup.totalValueLocked()).to.equal(depositAmount - withdrawAmount);
         });
+
+        it("Should let operators withdraw the fees their blocks collected", async function () {
+            const operatorBond = ethers.parseEther("1.0");
+            const fee = ethers.parseEther("0.05");
+            await rollup.connect(user1).deposit({ value: ethers.parseEther("5.0") });
+
+            // fees go straight to the operator's exit address, so they leave like any exit balance
+            const feeRecipient = l2ExitAddress(operator.address);
+            const txs = [
+                await makeSignedTx(user1, user2.address, ethers.parseEther("1.0"), 0n, fee),
+                await makeSignedTx(user1, user2.address, ethers.parseEther("1.0"), 1n, fee),
+            ];
+            const state: StateSnapshot = new Map([[user1.address, { balance: ethers.parseEther("5.0"), nonce: 0n }]]);
+            for (const txn of txs) applyTransaction(state, txn, feeRecipient, await getRollupDomain(rollup));
+            const { transactions, txRoot } = await makeBatch(txs);
+            await rollup.connect(operator).submitRollupBlock(computeStateRoot(state), txRoot, transactions, 1, feeRecipient, { value: operatorBond });
+
+            await ethers.provider.send("hardhat_mine", ["0xc4e0"]);
+            await rollup.finalizeBlock(1);
+            await expect(rollup.connect(operator).withdrawFromL2(1, buildExitProof(state, operator.address)))
+                .to.emit(rollup, "L2WithdrawalClaimed")
+                .withArgs(operator.address, fee * 2n, 1);
+        });
     });
 
 });
\ No newline at end of file
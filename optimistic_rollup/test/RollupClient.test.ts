@@ -0,0 +1,223 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { OptimisticRollup } from "../typechain-types";
+import { computeStateRoot, EMPTY_STATE_ROOT, StateSnapshot } from "../src/lib/state";
+import { ETH, getMerkleLeaf, Transaction, verifySignature } from "../src/lib/transaction";
+import { encodeBatch } from "../src/lib/batch";
+import { computeRoot } from "../src/lib/merkle";
+import { buildEscapeProof, buildExitProof, l2ExitAddress, quoteBuyout } from "../src/withdrawals";
+import { getRollupDomain, RollupClient } from "../src/sdk";
+import { buildMessageProof } from "../src/messages";
+
+describe("RollupClient", function () {
+    let rollup: OptimisticRollup;
+    let client: RollupClient;
+    let operator: SignerWithAddress;
+    let user1: SignerWithAddress;
+    let challenger: SignerWithAddress;
+    let snapshot: StateSnapshot;
+
+    this.beforeEach(async function () {
+        [, operator, user1, challenger] = await ethers.getSigners();
+        const registry = await (await ethers.getContractFactory("OperatorRegistry")).deploy();
+        rollup = await (await ethers.getContractFactory("OptimisticRollup")).deploy(await registry.getAddress(), ethers.parseEther("1.0"), 50400, EMPTY_STATE_ROOT);
+        await registry.setRollup(await rollup.getAddress());
+        await registry.approveOperator(operator.address, true);
+        await registry.connect(operator).registerOperator({ value: await registry.MIN_STAKE() });
+
+        client = RollupClient.connect(await rollup.getAddress(), user1);
+
+        // user1 deposited 5 ETH & sent 2 of it to their exit address
+        snapshot = new Map([
+            [user1.address, { balance: ethers.parseEther("2.99"), nonce: 1n }],
+            [l2ExitAddress(user1.address), { balance: ethers.parseEther("2.0"), nonce: 0n }],
+        ]);
+    });
+
+    // only the roots matter here, nobody checks the txs against the state
+    async function submitBlock(state: StateSnapshot, txCount = 1) {
+        const txs: Transaction[] = [...Array(txCount).keys()].map((i) => (
+            { from: user1.address, to: l2ExitAddress(user1.address), token: ETH, nft: 0n, amount: ethers.parseEther("1.0"), nonce: BigInt(i), fee: ethers.parseEther("0.01"), data: "0x", signature: "0x" }
+        ));
+        const pending = await rollup.getPendingDeposits();
+        await rollup.connect(operator).submitRollupBlock(computeStateRoot(state), computeRoot(txs.map(getMerkleLeaf)), encodeBatch(txs), pending, operator.address, { value: await (await client.getConfig()).operatorBond() });
+        return (await rollup.getCurrentState())[1];
+    }
+
+    async function mineChallengePeriod() {
+        await ethers.provider.send("hardhat_mine", [ethers.toQuantity((await (await client.getConfig()).challengePeriod()) + 1n)]);
+    }
+
+    it("Should sign txs from its signer for this rollup", async function () {
+        const txn = await client.signTransaction({ to: challenger.address, amount: ethers.parseEther("1.0"), nonce: 0n, fee: ethers.parseEther("0.01") });
+        expect(txn.from).to.equal(user1.address);
+        expect(verifySignature(txn, await getRollupDomain(rollup))).to.be.true;
+        expect(verifySignature(txn, { ...(await getRollupDomain(rollup)), verifyingContract: challenger.address })).to.be.false;
+    });
+
+    it("Should return the inbox index of each deposit", async function () {
+        expect((await client.deposit(ethers.parseEther("5.0"))).inboxIndex).to.equal(0n);
+        expect((await client.deposit(ethers.parseEther("1.0"))).inboxIndex).to.equal(1n);
+        expect(await rollup.getInboxLength()).to.equal(2);
+    });
+
+    it("Should return the request id of a withdrawal request", async function () {
+        await client.deposit(ethers.parseEther("5.0"));
+        const blockNum = await submitBlock(snapshot);
+
+        const { requestId, amount } = await client.requestWithdrawal(blockNum, buildExitProof(snapshot, user1.address));
+        expect(amount).to.equal(ethers.parseEther("2.0"));
+        const request = await rollup.getWithdrawalRequest(requestId);
+        expect(request.user).to.equal(user1.address);
+        expect(request.rollupBlock).to.equal(blockNum);
+    });
+
+    it("Should quote buyouts by the time left in the challenge period", async function () {
+        const terms = { feeBps: 100n, baseFee: 5n };
+        expect(quoteBuyout(10_000n, 100n, 100n, terms)).to.deep.equal({ price: 9_895n, discount: 105n, blocksLeft: 100n });
+        expect(quoteBuyout(10_000n, 25n, 100n, terms)).to.deep.equal({ price: 9_970n, discount: 30n, blocksLeft: 25n });
+        expect(quoteBuyout(10_000n, -3n, 100n, terms)).to.deep.equal({ price: 9_995n, discount: 5n, blocksLeft: 0n });
+        expect(quoteBuyout(6n, 0n, 100n, terms)).to.deep.equal({ price: 1n, discount: 5n, blocksLeft: 0n });
+        expect(() => quoteBuyout(5n, 0n, 100n, terms)).to.throw("Withdrawal too small for the LP's fee");
+        expect(() => quoteBuyout(3n, 100n, 100n, terms)).to.throw("Withdrawal too small for the LP's fee");
+    });
+
+    it("Should sell a pending withdrawal to an LP at its quote", async function () {
+        await client.deposit(ethers.parseEther("5.0"));
+        const blockNum = await submitBlock(snapshot);
+        const { requestId } = await client.requestWithdrawal(blockNum, buildExitProof(snapshot, user1.address));
+
+        const lp = RollupClient.connect(await rollup.getAddress(), challenger);
+        const quote = await lp.quoteBuyout(requestId, { feeBps: 50n });
+        // one block in since the submission, finalizable in the first block past the period
+        expect(quote.blocksLeft).to.equal(await (await client.getConfig()).challengePeriod());
+        expect(quote.price).to.equal(ethers.parseEther("2.0") - quote.discount);
+        await expect(lp.quoteBuyout(ethers.ZeroHash, { feeBps: 50n })).to.be.rejectedWith("Unknown withdrawal request");
+
+        await client.offerWithdrawal(requestId, quote.price);
+        const balanceBefore = await ethers.provider.getBalance(user1.address);
+        await lp.buyWithdrawal(requestId, quote.price);
+        expect(await ethers.provider.getBalance(user1.address)).to.equal(balanceBefore + quote.price);
+
+        await mineChallengePeriod();
+        await lp.finalizeBlock(blockNum);
+        const receipt = await lp.processWithdrawal(requestId);
+        expect(receipt.logs.length).to.equal(1);
+        expect((await rollup.getWithdrawalRequest(requestId)).beneficiary).to.equal(challenger.address);
+    });
+
+    it("Should approve & deposit tokens, then claim their exit balance", async function () {
+        const token = await (await ethers.getContractFactory("MockERC20")).deploy("Mock", "MCK");
+        await rollup.registerToken(await token.getAddress());
+        await token.mint(user1.address, ethers.parseEther("5.0"));
+
+        expect((await client.depositERC20(await token.getAddress(), ethers.parseEther("5.0"))).inboxIndex).to.equal(0n);
+        expect(await token.balanceOf(await rollup.getAddress())).to.equal(ethers.parseEther("5.0"));
+
+        const state: StateSnapshot = new Map([[l2ExitAddress(user1.address), { balance: 0n, nonce: 0n, tokenBalances: [ethers.parseEther("2.0")] }]]);
+        const blockNum = await submitBlock(state);
+        await mineChallengePeriod();
+        await client.finalizeBlock(blockNum);
+
+        expect((await client.withdrawERC20(blockNum, await token.getAddress(), buildExitProof(state, user1.address))).amount).to.equal(ethers.parseEther("2.0"));
+        expect(await token.balanceOf(user1.address)).to.equal(ethers.parseEther("2.0"));
+    });
+
+    it("Should track a block through its lifecycle", async function () {
+        await client.deposit(ethers.parseEther("5.0"));
+        expect(await client.getBlockStatus(1n)).to.equal("missing");
+
+        await submitBlock(snapshot);
+        await submitBlock(snapshot);
+        expect(await client.getBlockStatus(2n)).to.equal("challengeable");
+
+        await mineChallengePeriod();
+        expect(await client.getBlockStatus(1n)).to.equal("finalizable");
+        expect(await client.getBlockStatus(2n)).to.equal("awaiting-finalization"); // parent goes first
+
+        await client.finalizeBlock(1n);
+        expect(await client.getBlockStatus(1n)).to.equal("finalized");
+        expect(await client.getBlockStatus(2n)).to.equal("finalizable");
+    });
+
+    it("Should finalize a block & its ancestors, then pay out the withdrawal", async function () {
+        await client.deposit(ethers.parseEther("5.0"));
+        await submitBlock(snapshot);
+        const blockNum = await submitBlock(snapshot);
+        const { requestId } = await client.requestWithdrawal(blockNum, buildExitProof(snapshot, user1.address));
+        expect(await client.canProcessWithdrawal(requestId)).to.be.false;
+
+        const finalized = client.waitForFinalization(blockNum, { pollInterval: 10 });
+        await mineChallengePeriod();
+        await finalized;
+
+        expect((await rollup.getRollupBlock(1)).finalized).to.be.true;
+        expect(await client.canProcessWithdrawal(requestId)).to.be.true;
+        const balanceBefore = await ethers.provider.getBalance(user1.address);
+        const receipt = await client.processWithdrawal(requestId);
+        expect(await ethers.provider.getBalance(user1.address)).to.equal(balanceBefore + ethers.parseEther("2.0") - receipt.gasUsed * receipt.gasPrice);
+    });
+
+    it("Should only wait when asked not to finalize", async function () {
+        await client.deposit(ethers.parseEther("5.0"));
+        const blockNum = await submitBlock(snapshot);
+        await mineChallengePeriod();
+
+        let done = false;
+        const finalized = client.waitForFinalization(blockNum, { pollInterval: 10, finalize: false }).then(() => (done = true));
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(done).to.be.false;
+
+        await rollup.finalizeBlock(blockNum);
+        await finalized;
+    });
+
+    it("Should stop waiting on a block that gets dropped", async function () {
+        await client.deposit(ethers.parseEther("5.0"));
+        await submitBlock(snapshot);
+        const blockNum = await submitBlock(snapshot, 2);
+
+        // operator never answers the dispute
+        await rollup.connect(challenger).openDispute(blockNum, { value: await rollup.DISPUTE_BOND() });
+        await ethers.provider.send("hardhat_mine", [ethers.toQuantity(await rollup.MOVE_TIMEOUT())]);
+        await rollup.connect(challenger).timeoutDispute(await rollup.disputeCount());
+
+        expect(await client.getBlockStatus(blockNum)).to.equal("challenged");
+        await expect(client.waitForFinalization(blockNum, { pollInterval: 10 })).to.be.rejectedWith(`Block ${blockNum} is challenged`);
+    });
+
+    it("Should escape with the last finalized balance once the rollup freezes", async function () {
+        await client.deposit(ethers.parseEther("5.0"));
+        await submitBlock(snapshot);
+        await mineChallengePeriod();
+        await client.finalizeBlock(1n);
+        // spends user1's balance, but never finalizes
+        const blockNum = await submitBlock(new Map([[user1.address, { balance: 0n, nonce: 2n }]]));
+        expect(await client.isFrozen()).to.be.false;
+
+        await ethers.provider.send("hardhat_mine", [ethers.toQuantity((await rollup.ESCAPE_DELAY()) + 1n)]);
+        expect(await client.isFrozen()).to.be.true;
+        expect(await client.getBlockStatus(blockNum)).to.equal("frozen");
+        await expect(client.waitForFinalization(blockNum, { pollInterval: 10 })).to.be.rejectedWith(`Block ${blockNum} is frozen`);
+
+        const { amount } = await client.escapeExit(buildEscapeProof(snapshot, user1.address));
+        expect(amount).to.equal(ethers.parseEther("2.99"));
+    });
+
+    it("Should relay a finalized block's message", async function () {
+        const target = await (await ethers.getContractFactory("MockMessageTarget")).deploy();
+        await client.deposit(ethers.parseEther("5.0"));
+        const data = target.interface.encodeFunctionData("receiveMessage", [7n]);
+        const txs: Transaction[] = [{ from: user1.address, to: await target.getAddress(), token: ETH, nft: 0n, amount: ethers.parseEther("1.0"), nonce: 0n, fee: 0n, data, signature: "0x" }];
+        await rollup.connect(operator).submitRollupBlock(computeStateRoot(snapshot), computeRoot(txs.map(getMerkleLeaf)), encodeBatch(txs), 1, operator.address, { value: ethers.parseEther("1.0") });
+        await mineChallengePeriod();
+        await client.finalizeBlock(1n);
+
+        const { message, proof } = buildMessageProof(txs, 0);
+        expect(await client.isMessageRelayed(message)).to.be.false;
+        await client.relayMessage(1n, message, proof);
+        expect(await client.isMessageRelayed(message)).to.be.true;
+        expect([await target.l2Sender(), await target.received(), await target.lastValue()]).to.deep.equal([user1.address, ethers.parseEther("1.0"), 7n]);
+    });
+});
@@ -0,0 +1,97 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { OperatorRegistry, RollupConfig } from "../typechain-types";
+
+// RollupConfig.Param
+const OPERATOR_BOND = 0;
+const CHALLENGE_PERIOD = 1;
+const CHALLENGER_REWARD_BPS = 2;
+
+describe("RollupConfig", function () {
+    let registry: OperatorRegistry;
+    let config: RollupConfig;
+    let owner: SignerWithAddress;
+    let stranger: SignerWithAddress;
+    let delay: bigint;
+
+    this.beforeEach(async function () {
+        [owner, stranger] = await ethers.getSigners();
+        registry = await (await ethers.getContractFactory("OperatorRegistry")).deploy();
+        config = await (await ethers.getContractFactory("RollupConfig")).deploy(await registry.getAddress(), ethers.parseEther("1.0"), 50400);
+        delay = await config.TIMELOCK_DELAY();
+    });
+
+    it("Should start from the constructor's bond & challenge period, and half the slashed funds", async function () {
+        expect(await config.operatorBond()).to.equal(ethers.parseEther("1.0"));
+        expect(await config.challengePeriod()).to.equal(50400);
+        expect(await config.challengerRewardBps()).to.equal(5000);
+        expect(await config.registry()).to.equal(await registry.getAddress());
+    });
+
+    it("Should apply a change only once its timelock is over", async function () {
+        const tx = await config.scheduleChange(OPERATOR_BOND, ethers.parseEther("2.0"));
+        const eta = BigInt(await time.latest()) + delay;
+        await expect(tx).to.emit(config, "ParamChangeScheduled").withArgs(OPERATOR_BOND, ethers.parseEther("2.0"), eta);
+        expect(await config.pendingChanges(OPERATOR_BOND)).to.deep.equal([ethers.parseEther("2.0"), eta]);
+
+        await time.increaseTo(eta - 2n);
+        await expect(config.executeChange(OPERATOR_BOND)).to.be.revertedWith("Timelock not expired");
+        expect(await config.operatorBond()).to.equal(ethers.parseEther("1.0"));
+
+        await time.increaseTo(eta);
+        await expect(config.executeChange(OPERATOR_BOND)).to.emit(config, "ParamChanged").withArgs(OPERATOR_BOND, ethers.parseEther("1.0"), ethers.parseEther("2.0"));
+        expect(await config.operatorBond()).to.equal(ethers.parseEther("2.0"));
+        expect(await config.pendingChanges(OPERATOR_BOND)).to.deep.equal([0n, 0n]);
+        await expect(config.executeChange(OPERATOR_BOND)).to.be.revertedWith("No change scheduled");
+    });
+
+    it("Should keep each parameter's change separate", async function () {
+        await config.scheduleChange(CHALLENGE_PERIOD, 100);
+        await config.scheduleChange(CHALLENGER_REWARD_BPS, 8000);
+        await time.increase(delay);
+
+        await config.executeChange(CHALLENGER_REWARD_BPS);
+        expect(await config.challengerRewardBps()).to.equal(8000);
+        expect(await config.challengePeriod()).to.equal(50400);
+        await config.executeChange(CHALLENGE_PERIOD);
+        expect(await config.challengePeriod()).to.equal(100);
+    });
+
+    it("Should restart the timelock when a change is rescheduled & drop cancelled ones", async function () {
+        await config.scheduleChange(CHALLENGE_PERIOD, 100);
+        await time.increase(delay - 10n);
+        await config.scheduleChange(CHALLENGE_PERIOD, 200);
+        await time.increase(10n);
+        await expect(config.executeChange(CHALLENGE_PERIOD)).to.be.revertedWith("Timelock not expired");
+
+        await expect(config.cancelChange(CHALLENGE_PERIOD)).to.emit(config, "ParamChangeCancelled").withArgs(CHALLENGE_PERIOD);
+        await time.increase(delay);
+        await expect(config.executeChange(CHALLENGE_PERIOD)).to.be.revertedWith("No change scheduled");
+        await expect(config.cancelChange(CHALLENGE_PERIOD)).to.be.revertedWith("No change scheduled");
+        expect(await config.challengePeriod()).to.equal(50400);
+    });
+
+    it("Should only take changes from the registry owner", async function () {
+        await expect(config.connect(stranger).scheduleChange(OPERATOR_BOND, 1)).to.be.revertedWith("Only registry owner");
+        await config.scheduleChange(OPERATOR_BOND, 1);
+        await time.increase(delay);
+        await expect(config.connect(stranger).executeChange(OPERATOR_BOND)).to.be.revertedWith("Only registry owner");
+        await expect(config.connect(stranger).cancelChange(OPERATOR_BOND)).to.be.revertedWith("Only registry owner");
+
+        // governance moves with the registry
+        await registry.transferOwnership(stranger.address);
+        await expect(config.executeChange(OPERATOR_BOND)).to.be.revertedWith("Only registry owner");
+        await config.connect(stranger).executeChange(OPERATOR_BOND);
+        expect(await config.operatorBond()).to.equal(1);
+    });
+
+    it("Should reject values the rollup can't run with", async function () {
+        await expect(config.scheduleChange(OPERATOR_BOND, 0)).to.be.revertedWith("Invalid operator bond");
+        await expect(config.scheduleChange(CHALLENGE_PERIOD, 0)).to.be.revertedWith("Invalid challenge period");
+        await expect(config.scheduleChange(CHALLENGE_PERIOD, await registry.UNSTAKE_DELAY())).to.be.revertedWith("Invalid challenge period");
+        await expect(config.scheduleChange(CHALLENGER_REWARD_BPS, 10_001)).to.be.revertedWith("Invalid challenger reward");
+        await config.scheduleChange(CHALLENGER_REWARD_BPS, 10_000);
+    });
+});
@@ -0,0 +1,149 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { calldataGas, decodeBatch, encodeBatch } from "../../src/lib/batch";
+import { ETH, getMerkleLeaf, serialize, signTransaction, Transaction } from "../../src/lib/transaction";
+
+describe("BatchLib", function () {
+  let contract: any;
+  let user1: any, user2: any, user3: any;
+
+  beforeEach(async function () {
+    [user1, user2, user3] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory("BatchLibTest");
+    contract = await factory.deploy();
+    await contract.waitForDeployment();
+  });
+
+  function makeTx(from: string, to: string, amount: bigint, nonce: bigint, fee: bigint, token = ETH): Transaction {
+    return { from, to, token, nft: 0n, amount, nonce, fee, data: "0x", signature: "0x" };
+  }
+
+  // the domain doesn't matter here, only the signature's bytes do
+  async function signTx(from: any, to: string, amount: bigint, nonce: bigint, fee: bigint, token = ETH) {
+    const domain = { name: "OptimisticRollup", version: "1", chainId: 1n, verifyingContract: await contract.getAddress() };
+    return signTransaction(from, { from: from.address, to, token, amount, nonce, fee }, domain);
+  }
+
+  async function decodeOnchain(batch: string): Promise<Transaction[]> {
+    const txs = await contract.decode(batch);
+    return txs.map(([from, to, token, nft, amount, nonce, fee, data, signature]: any) => ({ from, to, token, nft, amount, nonce, fee, data, signature }));
+  }
+
+  describe("round trips", function () {
+    it("decodes what the encoder produces, signed or not", async function () {
+      const txs = [
+        await signTx(user1, user2.address, ethers.parseEther("1"), 0n, ethers.parseEther("0.01")),
+        makeTx(user2.address, user3.address, ethers.parseEther("0.5"), 3n, 0n),
+        await signTx(user1, user3.address, 123456789n, 1n, ethers.parseEther("0.001")),
+      ];
+      const batch = encodeBatch(txs);
+
+      expect(await decodeOnchain(batch)).to.deep.equal(txs);
+      expect(decodeBatch(batch)).to.deep.equal(txs);
+      expect([...(await contract.getMerkleLeaves(batch))]).to.deep.equal(txs.map(getMerkleLeaf));
+    });
+
+    it("leaves out nonces that follow the sender's previous tx", async function () {
+      const txs = [0n, 1n, 2n, 5n].map((nonce) => makeTx(user1.address, user2.address, ethers.parseEther("1"), nonce, 0n));
+      const batch = encodeBatch(txs);
+
+      // 2-account table, 8 bytes per tx without its nonce (1 ETH is 3 bytes, a zero fee 2),
+      // then the explicit nonces 0 & 5 at 2 & 3 bytes
+      expect(ethers.dataLength(batch)).to.equal(2 + 2 * 20 + 2 + 4 * 8 + 2 + 3);
+      expect(await decodeOnchain(batch)).to.deep.equal(txs);
+    });
+
+    it("carries token ids only for txs that move a token", async function () {
+      const txs = [
+        await signTx(user1, user2.address, ethers.parseEther("1"), 0n, ethers.parseEther("0.01"), 2n),
+        makeTx(user2.address, user3.address, ethers.parseEther("0.5"), 0n, 0n),
+        makeTx(user2.address, user3.address, 7n, 1n, 1n, 1n),
+      ];
+      const batch = encodeBatch(txs);
+
+      expect(await decodeOnchain(batch)).to.deep.equal(txs);
+      expect(decodeBatch(batch)).to.deep.equal(txs);
+      // the ETH tx costs exactly what it did before tokens existed
+      expect(ethers.dataLength(encodeBatch(txs.slice(1, 2)))).to.equal(2 + 2 * 20 + 2 + 8 + 2);
+    });
+
+    it("carries nft ids only for nft transfers", async function () {
+      const nft = BigInt(ethers.keccak256("0x01"));
+      const txs = [
+        { ...makeTx(user1.address, user2.address, 0n, 0n, ethers.parseEther("0.01")), nft },
+        { ...makeTx(user2.address, user3.address, 0n, 0n, 1n, 1n), nft: 5n },
+        makeTx(user2.address, user3.address, ethers.parseEther("0.5"), 1n, 0n),
+      ];
+      const batch = encodeBatch(txs);
+
+      expect(await decodeOnchain(batch)).to.deep.equal(txs);
+      expect(decodeBatch(batch)).to.deep.equal(txs);
+      // flags & indexes, the raw 32-byte id, then a zero amount, the 0.01 ETH fee & nonce 0
+      expect(ethers.dataLength(encodeBatch(txs.slice(0, 1)))).to.equal(2 + 2 * 20 + 2 + 3 + 32 + 2 + 3 + 2);
+    });
+
+    it("carries data only for messages", async function () {
+      const txs = [
+        { ...makeTx(user1.address, user2.address, 0n, 0n, ethers.parseEther("0.01")), data: "0xdeadbeef" },
+        makeTx(user2.address, user3.address, ethers.parseEther("0.5"), 0n, 0n),
+        { ...makeTx(user2.address, user3.address, 7n, 1n, 0n), data: ethers.hexlify(ethers.randomBytes(300)) },
+      ];
+      const batch = encodeBatch(txs);
+
+      expect(await decodeOnchain(batch)).to.deep.equal(txs);
+      expect(decodeBatch(batch)).to.deep.equal(txs);
+      // flags & indexes, the 2-byte length & 4 data bytes, then a zero amount, the 0.01 ETH fee & nonce 0
+      expect(ethers.dataLength(encodeBatch(txs.slice(0, 1)))).to.equal(2 + 2 * 20 + 2 + 3 + 2 + 4 + 2 + 3 + 2);
+      // a length past the end of the batch
+      await expect(contract.decode(ethers.concat(["0x0002", user1.address, user2.address, "0x0001", "0x12", "0x0001", "0x0005", "0xdeadbeef"]))).to.be.revertedWith("Batch truncated");
+    });
+
+    it("switches to 2-byte indexes past 256 accounts", async function () {
+      const txs = [...Array(129).keys()].map((i) => makeTx(ethers.Wallet.createRandom().address, ethers.Wallet.createRandom().address, BigInt(i + 1), 0n, 0n));
+      const batch = encodeBatch(txs);
+
+      expect(await decodeOnchain(batch)).to.deep.equal(txs);
+      expect(decodeBatch(batch)).to.deep.equal(txs);
+    });
+  });
+
+  describe("malformed batches", function () {
+    const header = () => ethers.concat(["0x0002", user1.address, user2.address, "0x0001"]);
+    const oneEth = "0x1201" + "01"; // 1 * 10^18
+    const zero = "0x0000";
+
+    it("rejects unknown flags & account indexes", async function () {
+      await expect(contract.decode(ethers.concat([header(), "0x20", "0x0001", oneEth, zero, zero]))).to.be.revertedWith("Invalid tx flags");
+      await expect(contract.decode(ethers.concat([header(), "0x02", "0x0002", oneEth, zero, zero]))).to.be.revertedWith("Invalid account index");
+      expect(() => decodeBatch(ethers.concat([header(), "0x02", "0x0002", oneEth, zero, zero]))).to.throw("Invalid account index");
+    });
+
+    it("rejects values that don't fit", async function () {
+      await expect(contract.decode(ethers.concat([header(), "0x02", "0x0001", "0x4e01" + "01", zero, zero]))).to.be.revertedWith("Invalid value encoding");
+      await expect(contract.decode(ethers.concat([header(), "0x02", "0x0001", "0x0021", zero, zero]))).to.be.revertedWith("Invalid value encoding");
+      // 10^77 * 100 overflows
+      await expect(contract.decode(ethers.concat([header(), "0x02", "0x0001", "0x4d01" + "64", zero, zero]))).to.be.reverted;
+      expect(() => decodeBatch(ethers.concat([header(), "0x02", "0x0001", "0x4d01" + "64", zero, zero]))).to.throw("Invalid value encoding");
+    });
+
+    it("rejects signatures that aren't 65 bytes", async function () {
+      const txn = { ...makeTx(user1.address, user2.address, 1n, 0n, 0n), signature: "0x1234" };
+      expect(() => encodeBatch([txn])).to.throw("signature isn't 65 bytes");
+    });
+  });
+
+  describe("calldata cost", function () {
+    it("costs a fraction of the abi-encoded txs", async function () {
+      const txs: Transaction[] = [];
+      for (let nonce = 0n; nonce < 10n; nonce++) {
+        txs.push(await signTx(user1, user2.address, ethers.parseEther("1"), nonce, ethers.parseEther("0.01")));
+        txs.push(await signTx(user2, user3.address, ethers.parseEther("0.25"), nonce, ethers.parseEther("0.01")));
+      }
+      const coder = ethers.AbiCoder.defaultAbiCoder();
+      const legacy = calldataGas(coder.encode(["bytes[]"], [txs.map(serialize)]));
+      const compressed = calldataGas(coder.encode(["bytes"], [encodeBatch(txs)]));
+
+      expect(compressed * 2n).to.be.lessThan(legacy);
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { TypedDataDomain } from "ethers";
+import { decodeBatch, encodeBatch } from "../../src/lib/batch";
+import { computeRoot, generateProof, getLeafPath, verifyProof } from "../../src/lib/merkle";
+import { Account, computeStateRoot, computeUpdatedRoot, generateAccountProof, hashAccount, sortedAccounts, StateSnapshot } from "../../src/lib/state";
+import {
+  canExecute,
+  deserialize,
+  execute,
+  getMerkleLeaf,
+  getMessageLeaf,
+  hashTransaction,
+  rollupDomain,
+  serialize,
+  signTransaction,
+  toMessage,
+  Transaction,
+  transactionDigest,
+  validate,
+  verifySignature,
+} from "../../src/lib/transaction";
+
+// runs the same random inputs through src/lib & the *LibTest harnesses. DIFF_SEED reproduces a failing run
+describe("Differential: TS libs vs Solidity libs", function () {
+  const seed = process.env.DIFF_SEED ?? "optimistic-rollup";
+  const rounds = 20;
+  let counter = 0;
+  let merkle: any, state: any, txLib: any, batchLib: any;
+  let domain: TypedDataDomain; // txLib's, it verifies signatures as if it were the rollup
+
+  before(async function () {
+    merkle = await (await ethers.getContractFactory("MerkleLibTest")).deploy();
+    state = await (await ethers.getContractFactory("StateLibTest")).deploy();
+    txLib = await (await ethers.getContractFactory("TransactionLibTest")).deploy();
+    batchLib = await (await ethers.getContractFactory("BatchLibTest")).deploy();
+    domain = rollupDomain((await ethers.provider.getNetwork()).chainId, await txLib.getAddress());
+  });
+
+  // deterministic randomness: keccak over the seed & a counter
+  function randomBytes32(): string {
+    return ethers.keccak256(ethers.toUtf8Bytes(`${seed}:${counter++}`));
+  }
+
+  function randomInt(max: number): number {
+    return Number(BigInt(randomBytes32()) % BigInt(max));
+  }
+
+  function randomAddress(): string {
+    return ethers.getAddress(ethers.dataSlice(randomBytes32(), 12));
+  }
+
+  // a multiple of unit below max, or now & then a value at the top of uint256, where amount + fee overflows
+  function randomValue(unit: bigint, max: number): bigint {
+    if (randomInt(6) > 0) return BigInt(randomInt(max)) * unit;
+    return [ethers.MaxUint256, ethers.MaxUint256 - 1n, ethers.MaxUint256 - unit, ethers.MaxUint256 / 2n + 1n][randomInt(4)];
+  }
+
+  // small values so balances, nonces, costs & nft ids collide often enough to hit every branch.
+  // token balances come trimmed & nfts sorted, the way both libs keep them
+  function randomAccount(): Required<Account> {
+    const tokenBalances = [...Array(randomInt(3))].map(() => randomValue(ethers.parseEther("1"), 6));
+    while (tokenBalances.length > 0 && tokenBalances[tokenBalances.length - 1] === 0n) tokenBalances.pop();
+    const nfts = [1n, 2n, 3n].filter(() => randomInt(2) === 0);
+    return { balance: randomValue(ethers.parseEther("1"), 6), nonce: BigInt(randomInt(3)), tokenBalances, nfts };
+  }
+
+  // a token's L2 balances add up to at most what was bridged, itself a uint256. caps to's balances so they do with from's
+  function withinSupply(to: Required<Account>, from: Required<Account>): Required<Account> {
+    const cap = (balance: bigint, other: bigint) => (balance > ethers.MaxUint256 - other ? ethers.MaxUint256 - other : balance);
+    const tokenBalances = to.tokenBalances.map((balance, i) => cap(balance, from.tokenBalances[i] ?? 0n));
+    while (tokenBalances.length > 0 && tokenBalances[tokenBalances.length - 1] === 0n) tokenBalances.pop();
+    return { ...to, balance: cap(to.balance, from.balance), tokenBalances };
+  }
+
+  // the TS lib leaves out empty tokenBalances & nfts, the contracts always return them
+  function normalize({ balance, nonce, tokenBalances, nfts }: Account): Required<Account> {
+    return { balance, nonce, tokenBalances: [...(tokenBalances ?? [])], nfts: [...(nfts ?? [])] };
+  }
+
+  function randomTx(from: string, to: string): Transaction {
+    return {
+      from: randomInt(10) === 0 ? ethers.ZeroAddress : from,
+      to: randomInt(10) === 0 ? from : to,
+      token: BigInt(randomInt(3)),
+      nft: randomInt(3) === 0 ? BigInt(1 + randomInt(3)) : 0n,
+      amount: randomValue(ethers.parseEther("1"), 4),
+      nonce: BigInt(randomInt(3)),
+      fee: randomValue(ethers.parseEther("0.01"), 3),
+      data: randomInt(4) === 0 ? ethers.dataSlice(randomBytes32(), 0, 1 + randomInt(32)) : "0x",
+      signature: "0x",
+    };
+  }
+
+  // signed by a random key, except now & then, so every result is reachable
+  async function randomSignedTx(): Promise<Transaction> {
+    const signer = new ethers.Wallet(randomBytes32());
+    const txn = randomTx(signer.address, randomAddress());
+    return randomInt(5) === 0 ? txn : signTransaction(signer, txn, domain);
+  }
+
+  function randomSnapshot(size: number): StateSnapshot {
+    const snapshot: StateSnapshot = new Map();
+    for (let i = 0; i < size; i++) {
+      // some empty accounts, which the tree treats as absent
+      snapshot.set(randomAddress(), randomInt(5) === 0 ? { balance: 0n, nonce: 0n, tokenBalances: [], nfts: [] } : randomAccount());
+    }
+    return snapshot;
+  }
+
+  describe("TransactionLib", function () {
+    async function expectSameExecution(txn: Transaction, fromAccount: Required<Account>, toAccount: Required<Account>) {
+      const [newFrom, newTo, result] = await txLib.execute(txn, fromAccount, toAccount);
+      const expected = execute(txn, fromAccount, toAccount, domain);
+      expect(Number(result)).to.equal(expected.result);
+      expect(normalize(newFrom)).to.deep.equal(normalize(expected.from));
+      expect(normalize(newTo)).to.deep.equal(normalize(expected.to));
+      expect(await txLib.validate(txn)).to.equal(validate(txn));
+      expect(await txLib.canExecute(txn, fromAccount)).to.equal(canExecute(txn, fromAccount, domain));
+    }
+
+    it("executes txs identically", async function () {
+      for (let i = 0; i < rounds; i++) {
+        const fromAccount = randomAccount();
+        await expectSameExecution(await randomSignedTx(), fromAccount, withinSupply(randomAccount(), fromAccount));
+      }
+    });
+
+    it("executes txs whose amount & fee add up around 2^256 identically", async function () {
+      for (let i = 0; i < rounds; i++) {
+        // valid apart from maybe the balance, with amount + fee just below, at or past the top of uint256
+        const signer = new ethers.Wallet(randomBytes32());
+        const fromAccount = { ...randomAccount(), nonce: 0n };
+        const txn = await signTransaction(signer, {
+          ...randomTx(signer.address, randomAddress()),
+          from: signer.address,
+          nft: 0n,
+          amount: ethers.MaxUint256 - BigInt(randomInt(3)),
+          nonce: 0n,
+          fee: BigInt(randomInt(4)),
+        }, domain);
+        await expectSameExecution(txn, fromAccount, withinSupply(randomAccount(), fromAccount));
+      }
+    });
+
+    it("hashes & encodes txs identically", async function () {
+      for (let i = 0; i < rounds; i++) {
+        const txn = await randomSignedTx();
+        expect(await txLib.hash(txn)).to.equal(hashTransaction(txn));
+        expect(await txLib.serialize(txn)).to.equal(serialize(txn));
+        expect(await txLib.getMerkleLeaf(txn)).to.equal(getMerkleLeaf(txn));
+
+        const decoded = await txLib.deserialize(serialize(txn));
+        expect([decoded.from, decoded.to, decoded.token, decoded.nft, decoded.amount, decoded.nonce, decoded.fee, decoded.data]).to.deep.equal([txn.from, txn.to, txn.token, txn.nft, txn.amount, txn.nonce, txn.fee, txn.data]);
+        expect(deserialize(serialize(txn))).to.deep.equal(txn);
+        expect(await txLib.getMessageLeaf(txn)).to.equal(getMessageLeaf(toMessage(txn)));
+      }
+    });
+
+    it("agrees on signatures", async function () {
+      for (let i = 0; i < 5; i++) {
+        const signer = new ethers.Wallet(randomBytes32());
+        const signed = await signTransaction(signer, { ...randomTx(signer.address, randomAddress()), from: signer.address }, domain);
+        const tampered = { ...signed, amount: signed.amount ^ 1n };
+        const otherRollup = await signTransaction(signer, signed, { ...domain, verifyingContract: randomAddress() });
+
+        expect(await txLib.digest(signed)).to.equal(transactionDigest(signed, domain));
+        expect(await txLib.verifySignature(signed)).to.equal(verifySignature(signed, domain)).and.to.be.true;
+        expect(await txLib.verifySignature(tampered)).to.equal(verifySignature(tampered, domain)).and.to.be.false;
+        expect(await txLib.verifySignature(otherRollup)).to.equal(verifySignature(otherRollup, domain)).and.to.be.false;
+      }
+    });
+  });
+
+  describe("BatchLib", function () {
+    it("decodes batches identically", async function () {
+      for (let i = 0; i < rounds / 4; i++) {
+        // few accounts, so senders repeat & their nonces sometimes follow on
+        const accounts = [...Array(2 + randomInt(4))].map(() => randomAddress());
+        const txs = [];
+        for (let j = 1 + randomInt(8); j > 0; j--) {
+          txs.push(await randomSignedTx());
+          txs.push(randomTx(accounts[randomInt(accounts.length)], accounts[randomInt(accounts.length)]));
+        }
+        const batch = encodeBatch(txs);
+
+        const decoded = (await batchLib.decode(batch)).map(([from, to, token, nft, amount, nonce, fee, data, signature]: any) => ({ from, to, token, nft, amount, nonce, fee, data, signature }));
+        expect(decoded).to.deep.equal(decodeBatch(batch));
+        expect(decodeBatch(batch)).to.deep.equal(txs.map((txn) => ({ ...txn, from: ethers.getAddress(txn.from), to: ethers.getAddress(txn.to) })));
+        expect([...(await batchLib.getMerkleLeaves(batch))]).to.deep.equal(txs.map(getMerkleLeaf));
+      }
+    });
+  });
+
+  describe("StateLib", function () {
+    it("hashes accounts identically", async function () {
+      for (let i = 0; i < rounds; i++) {
+        const account = randomAddress();
+        const data = randomAccount();
+        expect(await state.hashAccount(account, data)).to.equal(hashAccount(account, data));
+      }
+    });
+
+    it("computes state roots & proofs identically", async function () {
+      for (let i = 0; i < rounds / 2; i++) {
+        const snapshot = randomSnapshot(1 + randomInt(8));
+        const accounts = sortedAccounts(snapshot);
+        const addresses = accounts.map(([account]) => account);
+        const data = accounts.map(([, accountData]) => normalize(accountData));
+
+        const root = await state.computeStateRoot(addresses, data);
+        expect(root).to.equal(computeStateRoot(snapshot));
+
+        // one account in the tree & one outside it
+        for (const target of [addresses[randomInt(addresses.length)], randomAddress()]) {
+          const proof = generateAccountProof(snapshot, target);
+          const [account, accountData, siblings, bitmap] = await state.generateAccountProof(target, addresses, data, root);
+          expect(account).to.equal(proof.account);
+          expect(normalize(accountData)).to.deep.equal(proof.accountData);
+          expect([...siblings]).to.deep.equal(proof.siblings);
+          expect(bitmap).to.equal(proof.bitmap);
+
+          const updated = randomAccount();
+          expect(await state.computeUpdatedRoot(proof, updated)).to.equal(computeUpdatedRoot(proof, updated));
+          expect(await state.verifyAccountProof(proof, root)).to.be.true;
+        }
+      }
+    });
+  });
+
+  describe("MerkleLib", function () {
+    it("computes roots & proofs identically, promoting odd nodes", async function () {
+      for (let size = 1; size <= 17; size++) {
+        const leaves = [...Array(size)].map(() => randomBytes32());
+        const root = await merkle.computeRoot(leaves);
+        expect(root).to.equal(computeRoot(leaves));
+
+        for (let index = 0; index < size; index++) {
+          const proof = generateProof(leaves, index);
+          const [onchainProof, onchainIndex] = await merkle.generateProof(leaves, index);
+          expect([...onchainProof]).to.deep.equal(proof.proof);
+          expect(onchainIndex).to.equal(proof.index);
+
+          const [path, depth] = await merkle.getLeafPath(index, size);
+          expect({ path, depth: Number(depth) }).to.deep.equal(getLeafPath(index, size));
+        }
+      }
+    });
+
+    it("verifies proofs identically", async function () {
+      for (let i = 0; i < rounds; i++) {
+        const leaves = [...Array(1 + randomInt(12))].map(() => randomBytes32());
+        const index = randomInt(leaves.length);
+        const root = computeRoot(leaves);
+        const proof = generateProof(leaves, index);
+
+        // flip to a wrong leaf half the time
+        const leaf = randomInt(2) === 0 ? leaves[index] : randomBytes32();
+        expect(await merkle.verifyProof(leaf, root, proof)).to.equal(verifyProof(leaf, root, proof));
+        expect(verifyProof(leaf, root, proof)).to.equal(leaf === leaves[index]);
+      }
+    });
+  });
+});
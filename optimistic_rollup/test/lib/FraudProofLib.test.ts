@@ -1,5 +1,6 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { getMerkleLeaf, rollupDomain, signTransaction } from "../../src/lib/transaction";
 
 describe("FraudProofLib", function () {
   let contract: any;
@@ -13,11 +14,17 @@ describe("FraudProofLib", function () {
   });
 
   function makeAccount(balance: bigint, nonce: bigint) {
-    return { balance, nonce };
+    return { balance, nonce, tokenBalances: [], nfts: [] };
   }
 
   function makeTx(from: string, to: string, amount: bigint, nonce: bigint, fee: bigint) {
-    return { from, to, amount, nonce, fee, signature: "0x" };
+    return { from, to, token: 0n, nft: 0n, amount, nonce, fee, data: "0x", signature: "0x" };
+  }
+
+  // signed as if the harness were the rollup
+  async function signTx(from: any, to: string, amount: bigint, nonce: bigint, fee: bigint, verifyingContract?: string) {
+    const domain = rollupDomain((await ethers.provider.getNetwork()).chainId, verifyingContract ?? (await contract.getAddress()));
+    return signTransaction(from, { from: from.address, to, amount, nonce, fee }, domain);
   }
 
   async function setupBasicScenario() {
@@ -25,14 +32,17 @@ describe("FraudProofLib", function () {
     const user2Balance = ethers.parseEther("5");
     const transferAmount = ethers.parseEther("2");
     const fee = ethers.parseEther("0.1");
+    const { signature } = await signTx(user1, user2.address, transferAmount, 0n, fee);
 
     return await contract.setupCompleteScenario(
       user1.address,
       user2.address,
+      user3.address,
       user1Balance,
       user2Balance,
       transferAmount,
-      fee
+      fee,
+      signature
     );
   }
 
@@ -48,16 +58,21 @@ describe("FraudProofLib", function () {
         user1.address,
         makeAccount(ethers.parseEther("10"), 0n),
         [ethers.keccak256(ethers.toUtf8Bytes("proof1"))],
-        0,
-        0
+        1n
       );
 
       const toAccountProof = await contract.createStateProof(
         user2.address,
         makeAccount(ethers.parseEther("5"), 0n),
         [ethers.keccak256(ethers.toUtf8Bytes("proof2"))],
-        1,
-        1
+        1n
+      );
+
+      const feeRecipientProof = await contract.createStateProof(
+        user3.address,
+        makeAccount(0n, 0n),
+        [ethers.keccak256(ethers.toUtf8Bytes("proof3"))],
+        1n
       );
 
       const transactionMerkleProof = await contract.createMerkleProof(
@@ -71,11 +86,10 @@ describe("FraudProofLib", function () {
         transactionRoot,
         preStateRoot,
         claimedPostStateRoot,
-        fromAccountProof,
-        toAccountProof,
-        fromAccountProof, // reuse for simplicity
-        toAccountProof,   // reuse for simplicity
-        transactionMerkleProof
+        fromAccountProof.toArray(true),
+        toAccountProof.toArray(true),
+        feeRecipientProof.toArray(true),
+        transactionMerkleProof.toArray(true)
       );
 
       expect(fraudProof.transaction.from).to.equal(user1.address);
@@ -85,9 +99,85 @@ describe("FraudProofLib", function () {
     });
   });
 
+  describe("fraud proof verification", function () {
+    async function buildProof(claimedPostStateRoot: string) {
+      const scenario = await setupBasicScenario();
+      const tx = scenario.transaction;
+      const txLeaf = getMerkleLeaf(tx);
+
+      // returned structs are read-only Results, pass copies back in
+      const user1PreProof = scenario.user1PreProof.toArray(true);
+      const user2PreProof = scenario.user2PreProof.toArray(true);
+
+      // single-tx batch: root is the leaf itself
+      const proof = {
+        transaction: tx.toArray(true),
+        fromAccountProof: user1PreProof,
+        toAccountProof: user2PreProof,
+        feeRecipientProof: scenario.feeRecipientPreProof.toArray(true),
+        claimedPostStateRoot,
+        preStateRoot: scenario.preStateRoot,
+        transactionIndex: 0n,
+        transactionRoot: txLeaf,
+        transactionMerkleProof: { proof: [], index: 0n },
+      };
+      return { proof, correctPostStateRoot: scenario.correctPostStateRoot };
+    }
+
+    it("flags an incorrect post-state root", async function () {
+      const fraudulentRoot = ethers.keccak256(ethers.toUtf8Bytes("fraudulent-state"));
+      const { proof, correctPostStateRoot } = await buildProof(fraudulentRoot);
+
+      const result = await contract.verifyFraudProof(proof);
+      expect(result.isFraud).to.be.true;
+      expect(result.fraudType).to.equal(0); // INVALID_STATE_TRANSITION
+      expect(result.correctPostStateRoot).to.equal(correctPostStateRoot);
+    });
+
+    it("does not flag a correct post-state root", async function () {
+      const { correctPostStateRoot } = await buildProof(ethers.ZeroHash);
+      const { proof } = await buildProof(correctPostStateRoot);
+
+      const result = await contract.verifyFraudProof(proof);
+      expect(result.isFraud).to.be.false;
+    });
+
+    it("ignores transactions outside the batch", async function () {
+      const fraudulentRoot = ethers.keccak256(ethers.toUtf8Bytes("fraudulent-state"));
+      const { proof } = await buildProof(fraudulentRoot);
+      proof.transactionRoot = ethers.keccak256(ethers.toUtf8Bytes("other-batch"));
+
+      const result = await contract.verifyFraudProof(proof);
+      expect(result.isFraud).to.be.false;
+      expect(result.reason).to.equal("Transaction not in claimed batch");
+    });
+
+    it("does not blame the operator for bad pre-state proofs", async function () {
+      const fraudulentRoot = ethers.keccak256(ethers.toUtf8Bytes("fraudulent-state"));
+      const { proof } = await buildProof(fraudulentRoot);
+      const [account, , siblings, bitmap] = proof.fromAccountProof;
+      proof.fromAccountProof = [account, makeAccount(ethers.parseEther("100"), 0n), siblings, bitmap];
+
+      const result = await contract.verifyFraudProof(proof);
+      expect(result.isFraud).to.be.false;
+      expect(result.fraudType).to.equal(2); // INVALID_PRE_STATE
+    });
+
+    it("does not blame the operator for a bad fee recipient proof", async function () {
+      const fraudulentRoot = ethers.keccak256(ethers.toUtf8Bytes("fraudulent-state"));
+      const { proof } = await buildProof(fraudulentRoot);
+      const [account, , siblings, bitmap] = proof.feeRecipientProof;
+      proof.feeRecipientProof = [account, makeAccount(ethers.parseEther("1"), 0n), siblings, bitmap];
+
+      const result = await contract.verifyFraudProof(proof);
+      expect(result.isFraud).to.be.false;
+      expect(result.fraudType).to.equal(2); // INVALID_PRE_STATE
+    });
+  });
+
   describe("transaction execution verification", function () {
     it("verifies correct execution", async function () {
-      const tx = makeTx(user1.address, user2.address, ethers.parseEther("2"), 0n, ethers.parseEther("0.1"));
+      const tx = await signTx(user1, user2.address, ethers.parseEther("2"), 0n, ethers.parseEther("0.1"));
 
       const preFromAccount = makeAccount(ethers.parseEther("10"), 0n);
       const preToAccount = makeAccount(ethers.parseEther("5"), 0n);
@@ -109,7 +199,7 @@ describe("FraudProofLib", function () {
     });
 
     it("detects incorrect from balance", async function () {
-      const tx = makeTx(user1.address, user2.address, ethers.parseEther("2"), 0n, ethers.parseEther("0.1"));
+      const tx = await signTx(user1, user2.address, ethers.parseEther("2"), 0n, ethers.parseEther("0.1"));
 
       const preFromAccount = makeAccount(ethers.parseEther("10"), 0n);
       const preToAccount = makeAccount(ethers.parseEther("5"), 0n);
@@ -131,7 +221,7 @@ describe("FraudProofLib", function () {
     });
 
     it("detects incorrect to balance", async function () {
-      const tx = makeTx(user1.address, user2.address, ethers.parseEther("2"), 0n, ethers.parseEther("0.1"));
+      const tx = await signTx(user1, user2.address, ethers.parseEther("2"), 0n, ethers.parseEther("0.1"));
 
       const preFromAccount = makeAccount(ethers.parseEther("10"), 0n);
       const preToAccount = makeAccount(ethers.parseEther("5"), 0n);
@@ -153,7 +243,7 @@ describe("FraudProofLib", function () {
     });
 
     it("detects failed transactions included as successful", async function () {
-      const tx = makeTx(user1.address, user2.address, ethers.parseEther("15"), 0n, ethers.parseEther("0.1")); // more than user1 has
+      const tx = await signTx(user1, user2.address, ethers.parseEther("15"), 0n, ethers.parseEther("0.1")); // more than user1 has
 
       const preFromAccount = makeAccount(ethers.parseEther("10"), 0n);
       const preToAccount = makeAccount(ethers.parseEther("5"), 0n);
@@ -173,6 +263,28 @@ describe("FraudProofLib", function () {
       expect(isValid).to.be.false;
       expect(reason).to.equal("Transaction should have failed");
     });
+
+    it("detects txs signed for another rollup", async function () {
+      const tx = await signTx(user1, user2.address, ethers.parseEther("2"), 0n, ethers.parseEther("0.1"), user3.address);
+
+      const preFromAccount = makeAccount(ethers.parseEther("10"), 0n);
+      const preToAccount = makeAccount(ethers.parseEther("5"), 0n);
+
+      // applied as if the signature were valid here
+      const claimedFromAccount = makeAccount(ethers.parseEther("7.9"), 1n);
+      const claimedToAccount = makeAccount(ethers.parseEther("7"), 0n);
+
+      const [isValid, reason] = await contract.verifyTransactionExecution(
+        tx,
+        preFromAccount,
+        preToAccount,
+        claimedFromAccount,
+        claimedToAccount
+      );
+
+      expect(isValid).to.be.false;
+      expect(reason).to.equal("Transaction should have failed");
+    });
   });
 
   describe("fraud type descriptions", function () {
@@ -196,11 +308,11 @@ describe("FraudProofLib", function () {
 
   describe("complex fraud scenarios", function () {
     it("handles multiple account fraud", async function () {
-      const accounts = [user1.address, user2.address, user3.address].sort();
+      const accounts = [user1.address, user2.address, user3.address]; // same order as the states below
       
       const transactions = [
-        makeTx(user1.address, user2.address, ethers.parseEther("1"), 0n, ethers.parseEther("0.01")),
-        makeTx(user2.address, user3.address, ethers.parseEther("0.5"), 0n, ethers.parseEther("0.01"))
+        await signTx(user1, user2.address, ethers.parseEther("1"), 0n, ethers.parseEther("0.01")),
+        await signTx(user2, user3.address, ethers.parseEther("0.5"), 0n, ethers.parseEther("0.01"))
       ];
 
       const preAccountStates = [
@@ -222,8 +334,6 @@ describe("FraudProofLib", function () {
       // test with correct states
       const [isValid1] = await contract.verifyBatchExecution(
         transactions,
-        ethers.keccak256(ethers.toUtf8Bytes("pre-state")),
-        ethers.keccak256(ethers.toUtf8Bytes("post-state")),
         accounts,
         preAccountStates,
         correctPostAccountStates
@@ -240,8 +350,6 @@ describe("FraudProofLib", function () {
 
       const [isValid2, fraudIndex] = await contract.verifyBatchExecution(
         transactions,
-        ethers.keccak256(ethers.toUtf8Bytes("pre-state")),
-        ethers.keccak256(ethers.toUtf8Bytes("post-state")),
         accounts,
         preAccountStates,
         fraudulentPostAccountStates
@@ -253,8 +361,8 @@ describe("FraudProofLib", function () {
 
     it("detects fraud in specific transaction", async function () {
       const transactions = [
-        makeTx(user1.address, user2.address, ethers.parseEther("1"), 0n, ethers.parseEther("0.01")),
-        makeTx(user1.address, user2.address, ethers.parseEther("15"), 1n, ethers.parseEther("0.01")) // should fail
+        await signTx(user1, user2.address, ethers.parseEther("1"), 0n, ethers.parseEther("0.01")),
+        await signTx(user1, user2.address, ethers.parseEther("15"), 1n, ethers.parseEther("0.01")) // should fail
       ];
 
       const accounts = [user1.address, user2.address].sort();
@@ -270,8 +378,6 @@ describe("FraudProofLib", function () {
 
       const [isValid, fraudIndex] = await contract.verifyBatchExecution(
         transactions,
-        ethers.keccak256(ethers.toUtf8Bytes("pre-state")),
-        ethers.keccak256(ethers.toUtf8Bytes("post-state")),
         accounts,
         preAccountStates,
         postAccountStates
@@ -353,20 +459,20 @@ describe("FraudProofLib", function () {
   describe("performance", function () {
     it("handles larger account sets", async function () {
       const numAccounts = 10;
-      const accounts = [];
+      const wallets = [];
       const preAccountStates = [];
       
       for (let i = 0; i < numAccounts; i++) {
-        const wallet = ethers.Wallet.createRandom();
-        accounts.push(wallet.address);
+        wallets.push(ethers.Wallet.createRandom());
         preAccountStates.push(makeAccount(ethers.parseEther("10"), 0n));
       }
       
-      const sortedAccounts = accounts.sort();
+      wallets.sort((a, b) => (a.address < b.address ? -1 : 1));
+      const sortedAccounts = wallets.map(wallet => wallet.address);
       
       const transactions = [
-        makeTx(
-          sortedAccounts[0],
+        await signTx(
+          wallets[0],
           sortedAccounts[numAccounts - 1],
           ethers.parseEther("1"),
           0n,
@@ -380,8 +486,6 @@ describe("FraudProofLib", function () {
 
       const [isValid] = await contract.verifyBatchExecution(
         transactions,
-        ethers.keccak256(ethers.toUtf8Bytes("pre-state")),
-        ethers.keccak256(ethers.toUtf8Bytes("post-state")),
         sortedAccounts,
         preAccountStates,
         postAccountStates
@@ -399,32 +503,15 @@ describe("FraudProofLib", function () {
         correctPostStateRoot,
         transaction,
         user1PreProof,
-        user2PreProof
+        user2PreProof,
+        feeRecipientPreProof
       } = await setupBasicScenario();
 
       // operator claims a different (fraudulent) post-state
-      const fraudulentBalance = ethers.parseEther("8.5"); // user1 should have 7.9, operator claims 8.5
       const fraudulentPostStateRoot = ethers.keccak256(
         ethers.solidityPacked(["string"], ["fraudulent-state"])
       );
 
-      // create fraudulent post-state proofs
-      const fraudulentUser1Proof = await contract.createStateProof(
-        user1.address,
-        makeAccount(fraudulentBalance, 1n),
-        [ethers.keccak256(ethers.toUtf8Bytes("fraud-proof1"))],
-        0,
-        0
-      );
-
-      const fraudulentUser2Proof = await contract.createStateProof(
-        user2.address,
-        makeAccount(ethers.parseEther("7"), 0n),
-        [ethers.keccak256(ethers.toUtf8Bytes("fraud-proof2"))],
-        1,
-        1
-      );
-
       // create transaction merkle proof (simplified)
       const transactionRoot = ethers.keccak256(ethers.toUtf8Bytes("tx-root"));
       const transactionMerkleProof = await contract.createMerkleProof(
@@ -434,16 +521,15 @@ describe("FraudProofLib", function () {
 
       // create complete fraud proof
       const fraudProof = await contract.createFraudProof(
-        transaction,
+        transaction.toArray(true),
         0,
         transactionRoot,
         preStateRoot,
         fraudulentPostStateRoot,
-        user1PreProof,
-        user2PreProof,
-        fraudulentUser1Proof,
-        fraudulentUser2Proof,
-        transactionMerkleProof
+        user1PreProof.toArray(true),
+        user2PreProof.toArray(true),
+        feeRecipientPreProof.toArray(true),
+        transactionMerkleProof.toArray(true)
       );
 
       // verify the fraud proof detects the fraud
@@ -1,5 +1,6 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { generateProof, getLeafPath } from "../../src/lib/merkle";
 
 describe("MerkleLib", function () {
   let contract: any;
@@ -10,6 +11,12 @@ describe("MerkleLib", function () {
     await contract.waitForDeployment();
   });
 
+  // generateProof returns a read-only Result, copy it so it can be passed back in
+  async function proveLeaf(leaves: string[], index: number) {
+    const proof = await contract.generateProof(leaves, index);
+    return { proof: [...proof.proof], index: proof.index };
+  }
+
   function makeLeaves(count: number): string[] {
     const leaves: string[] = [];
     for (let i = 0; i < count; i++) {
@@ -67,7 +74,7 @@ describe("MerkleLib", function () {
       const leaves = [ethers.keccak256(ethers.toUtf8Bytes("single-leaf"))];
       const root = await contract.computeRoot(leaves);
       
-      const proof = await contract.generateProof(leaves, 0);
+      const proof = await proveLeaf(leaves, 0);
       const isValid = await contract.verifyProof(leaves[0], root, proof);
       
       expect(isValid).to.be.true;
@@ -79,14 +86,14 @@ describe("MerkleLib", function () {
       const root = await contract.computeRoot(leaves);
       
       // test proof for first leaf
-      const proof0 = await contract.generateProof(leaves, 0);
+      const proof0 = await proveLeaf(leaves, 0);
       const isValid0 = await contract.verifyProof(leaves[0], root, proof0);
       expect(isValid0).to.be.true;
       expect(proof0.proof.length).to.equal(1);
       expect(proof0.proof[0]).to.equal(leaves[1]); // sibling is leaves[1]
       
       // test proof for second leaf
-      const proof1 = await contract.generateProof(leaves, 1);
+      const proof1 = await proveLeaf(leaves, 1);
       const isValid1 = await contract.verifyProof(leaves[1], root, proof1);
       expect(isValid1).to.be.true;
       expect(proof1.proof.length).to.equal(1);
@@ -99,7 +106,7 @@ describe("MerkleLib", function () {
       
       // test proofs for all leaves
       for (let i = 0; i < 4; i++) {
-        const proof = await contract.generateProof(leaves, i);
+        const proof = await proveLeaf(leaves, i);
         const isValid = await contract.verifyProof(leaves[i], root, proof);
         expect(isValid).to.be.true;
         expect(proof.proof.length).to.equal(2); // tree depth is 2
@@ -112,7 +119,7 @@ describe("MerkleLib", function () {
       
       // test proofs for all leaves
       for (let i = 0; i < 8; i++) {
-        const proof = await contract.generateProof(leaves, i);
+        const proof = await proveLeaf(leaves, i);
         const isValid = await contract.verifyProof(leaves[i], root, proof);
         expect(isValid).to.be.true;
         expect(proof.proof.length).to.equal(3); // tree depth is 3
@@ -123,7 +130,7 @@ describe("MerkleLib", function () {
       const leaves = makeLeaves(4);
       const root = await contract.computeRoot(leaves);
       
-      const validProof = await contract.generateProof(leaves, 0);
+      const validProof = await proveLeaf(leaves, 0);
       
       // test with wrong leaf
       const wrongLeaf = ethers.keccak256(ethers.toUtf8Bytes("wrong-leaf"));
@@ -142,7 +149,7 @@ describe("MerkleLib", function () {
       
       // test proofs for all leaves
       for (let i = 0; i < 5; i++) {
-        const proof = await contract.generateProof(leaves, i);
+        const proof = await proveLeaf(leaves, i);
         const isValid = await contract.verifyProof(leaves[i], root, proof);
         expect(isValid).to.be.true;
       }
@@ -188,6 +195,20 @@ describe("MerkleLib", function () {
       expect(await contract.getTreeDepth(5)).to.equal(3); // non-power-of-2
     });
 
+    it("pins leaf positions to proof paths", async function () {
+      for (let count = 1; count <= 7; count++) {
+        const leaves = makeLeaves(count);
+        for (let i = 0; i < count; i++) {
+          const { proof, index } = generateProof(leaves, i);
+          const [path, depth] = await contract.getLeafPath(i, count);
+          expect(path).to.equal(index);
+          expect(depth).to.equal(proof.length);
+          expect(getLeafPath(i, count)).to.deep.equal({ path, depth: Number(depth) });
+        }
+      }
+      await expect(contract.getLeafPath(3, 3)).to.be.revertedWith("Leaf index out of bounds");
+    });
+
     it("counts internal nodes", async function () {
       expect(await contract.getInternalNodeCount(1)).to.equal(0);
       expect(await contract.getInternalNodeCount(2)).to.equal(1);
@@ -230,7 +251,7 @@ describe("MerkleLib", function () {
       // generate proofs for all leaves
       const proofs = [];
       for (let i = 0; i < 4; i++) {
-        const proof = await contract.generateProof(leaves, i);
+        const proof = await proveLeaf(leaves, i);
         proofs.push(proof);
       }
       
@@ -245,7 +266,7 @@ describe("MerkleLib", function () {
       // generate valid proofs
       const proofs = [];
       for (let i = 0; i < 4; i++) {
-        const proof = await contract.generateProof(leaves, i);
+        const proof = await proveLeaf(leaves, i);
         proofs.push(proof);
       }
       
@@ -263,7 +284,7 @@ describe("MerkleLib", function () {
       
       const proofs = [];
       for (let i = 0; i < 2; i++) { // only 2 proofs for 4 leaves
-        const proof = await contract.generateProof(leaves, i);
+        const proof = await proveLeaf(leaves, i);
         proofs.push(proof);
       }
       
@@ -280,7 +301,7 @@ describe("MerkleLib", function () {
       // test a few random proofs
       const testIndices = [0, 15, 31];
       for (const index of testIndices) {
-        const proof = await contract.generateProof(leaves, index);
+        const proof = await proveLeaf(leaves, index);
         const isValid = await contract.verifyProof(leaves[index], root, proof);
         expect(isValid).to.be.true;
         expect(proof.proof.length).to.equal(5); // tree depth for 32 leaves
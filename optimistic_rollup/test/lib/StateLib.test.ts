@@ -1,5 +1,6 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { rollupDomain, signTransaction } from "../../src/lib/transaction";
 
 describe("StateLib", function () {
     let contract: any;
@@ -13,11 +14,17 @@ describe("StateLib", function () {
     });
 
     function makeAccount(balance: bigint, nonce: bigint) {
-        return { balance, nonce };
+        return { balance, nonce, tokenBalances: [], nfts: [] };
     }
 
     function makeTx(from: string, to: string, amount: bigint, nonce: bigint, fee: bigint) {
-        return { from, to, amount, nonce, fee, signature: "0x" };
+        return { from, to, token: 0n, nft: 0n, amount, nonce, fee, data: "0x", signature: "0x" };
+    }
+
+    // signed as if the harness were the rollup
+    async function signTx(from: any, to: string, amount: bigint, nonce: bigint, fee: bigint) {
+        const domain = rollupDomain((await ethers.provider.getNetwork()).chainId, await contract.getAddress());
+        return signTransaction(from, { from: from.address, to, amount, nonce, fee }, domain);
     }
 
     describe("state root computation", function () {
@@ -60,7 +67,7 @@ describe("StateLib", function () {
         });
 
         it("rejects unsorted accounts", async function () {
-            const accounts = [user2.address, user1.address]; // unsorted
+            const accounts = [user1.address, user2.address].sort().reverse(); // unsorted
             const accountData = [
                 makeAccount(ethers.parseEther("10"), 0n),
                 makeAccount(ethers.parseEther("5"), 0n)
@@ -122,10 +129,11 @@ describe("StateLib", function () {
         });
 
         it("applies valid transactions", async function () {
-            const tx = makeTx(user1.address, user2.address, ethers.parseEther("2"), 0n, ethers.parseEther("0.1"));
+            const tx = await signTx(user1, user2.address, ethers.parseEther("2"), 0n, ethers.parseEther("0.1"));
 
-            const result = await contract.applyTransaction(tx);
-            expect(result).to.equal(0); // success
+            // applyTransaction writes state, so read the result off a static call first
+            expect(await contract.applyTransaction.staticCall(tx, user3.address)).to.equal(0); // success
+            await contract.applyTransaction(tx, user3.address);
 
             const user1Account = await contract.getTestAccount(user1.address);
             const user2Account = await contract.getTestAccount(user2.address);
@@ -134,13 +142,14 @@ describe("StateLib", function () {
             expect(user1Account.nonce).to.equal(1n);
             expect(user2Account.balance).to.equal(ethers.parseEther("7")); // 5 + 2
             expect(user2Account.nonce).to.equal(0n);
+            expect((await contract.getTestAccount(user3.address)).balance).to.equal(ethers.parseEther("0.1")); // the fee
         });
 
         it("rejects insufficient balance", async function () {
-            const tx = makeTx(user1.address, user2.address, ethers.parseEther("15"), 0n, ethers.parseEther("0.1"));
+            const tx = await signTx(user1, user2.address, ethers.parseEther("15"), 0n, ethers.parseEther("0.1"));
 
-            const result = await contract.applyTransaction(tx);
-            expect(result).to.equal(1); // INSUFFICIENT_BALANCE
+            expect(await contract.applyTransaction.staticCall(tx, user3.address)).to.equal(1); // INSUFFICIENT_BALANCE
+            await contract.applyTransaction(tx, user3.address);
 
             const user1Account = await contract.getTestAccount(user1.address);
             expect(user1Account.balance).to.equal(ethers.parseEther("10"));
@@ -148,10 +157,10 @@ describe("StateLib", function () {
         });
 
         it("rejects wrong nonce", async function () {
-            const tx = makeTx(user1.address, user2.address, ethers.parseEther("2"), 5n, ethers.parseEther("0.1"));
+            const tx = await signTx(user1, user2.address, ethers.parseEther("2"), 5n, ethers.parseEther("0.1"));
 
-            const result = await contract.applyTransaction(tx);
-            expect(result).to.equal(2); // INVALID_NONCE
+            expect(await contract.applyTransaction.staticCall(tx, user3.address)).to.equal(2); // INVALID_NONCE
+            await contract.applyTransaction(tx, user3.address);
 
             const user1Account = await contract.getTestAccount(user1.address);
             expect(user1Account.balance).to.equal(ethers.parseEther("10"));
@@ -160,11 +169,12 @@ describe("StateLib", function () {
 
         it("applies transaction batches", async function () {
             const transactions = [
-                makeTx(user1.address, user2.address, ethers.parseEther("1"), 0n, ethers.parseEther("0.05")),
-                makeTx(user1.address, user2.address, ethers.parseEther("2"), 1n, ethers.parseEther("0.05"))
+                await signTx(user1, user2.address, ethers.parseEther("1"), 0n, ethers.parseEther("0.05")),
+                await signTx(user1, user2.address, ethers.parseEther("2"), 1n, ethers.parseEther("0.05"))
             ];
 
-            const [successCount, failureCount] = await contract.applyTransactionBatch(transactions);
+            const [successCount, failureCount] = await contract.applyTransactionBatch.staticCall(transactions, user3.address);
+            await contract.applyTransactionBatch(transactions, user3.address);
 
             expect(successCount).to.equal(2);
             expect(failureCount).to.equal(0);
@@ -175,6 +185,7 @@ describe("StateLib", function () {
             expect(user1Account.balance).to.equal(ethers.parseEther("6.9")); // 10 - 1 - 2 - 0.05 - 0.05
             expect(user1Account.nonce).to.equal(2n);
             expect(user2Account.balance).to.equal(ethers.parseEther("8")); // 5 + 1 + 2
+            expect((await contract.getTestAccount(user3.address)).balance).to.equal(ethers.parseEther("0.1"));
         });
     });
 
@@ -197,7 +208,7 @@ describe("StateLib", function () {
             expect(proof.accountData.balance).to.equal(ethers.parseEther("10"));
             expect(proof.accountData.nonce).to.equal(0n);
 
-            const isValid = await contract.verifyAccountProof(proof, stateRoot);
+            const isValid = await contract.verifyAccountProof(proof.toArray(true), stateRoot);
             expect(isValid).to.be.true;
         });
 
@@ -207,15 +218,79 @@ describe("StateLib", function () {
             const stateRoot = await contract.computeStateRoot(accounts, accountData);
             const proof = await contract.generateAccountProof(user1.address, accounts, accountData, stateRoot);
             const wrongStateRoot = ethers.keccak256(ethers.toUtf8Bytes("wrong"));
-            const isValid = await contract.verifyAccountProof(proof, wrongStateRoot);
+            const isValid = await contract.verifyAccountProof(proof.toArray(true), wrongStateRoot);
             expect(isValid).to.be.false;
         });
 
-        it("rejects non-existent accounts", async function () {
+        it("proves non-existent accounts are empty", async function () {
             const accounts = [user1.address];
             const accountData = [makeAccount(ethers.parseEther("10"), 0n)];
             const stateRoot = await contract.computeStateRoot(accounts, accountData);
-            await expect(contract.generateAccountProof(user2.address, accounts, accountData, stateRoot)).to.be.revertedWith("Account not found");
+            const proof = await contract.generateAccountProof(user2.address, accounts, accountData, stateRoot);
+
+            expect(proof.accountData.balance).to.equal(0n);
+            expect(await contract.verifyAccountProof(proof.toArray(true), stateRoot)).to.be.true;
+
+            // can't pass the missing account off as funded
+            const [account, , siblings, bitmap] = proof.toArray(true);
+            const forged = [account, makeAccount(ethers.parseEther("1"), 0n), siblings, bitmap];
+            expect(await contract.verifyAccountProof(forged, stateRoot)).to.be.false;
+        });
+
+        it("rejects proofs with unused siblings", async function () {
+            const accounts = [user1.address];
+            const accountData = [makeAccount(ethers.parseEther("10"), 0n)];
+            const stateRoot = await contract.computeStateRoot(accounts, accountData);
+            const [account, data, siblings, bitmap] = (await contract.generateAccountProof(user1.address, accounts, accountData, stateRoot)).toArray(true);
+
+            expect(await contract.verifyAccountProof([account, data, [...siblings, ethers.ZeroHash], bitmap], stateRoot)).to.be.false;
+        });
+    });
+
+    describe("sparse tree", function () {
+        function sortByKey(entries: [string, ReturnType<typeof makeAccount>][]) {
+            return entries.sort(([a], [b]) => (BigInt(a) < BigInt(b) ? -1 : 1));
+        }
+
+        it("treats empty accounts as absent", async function () {
+            const entries = sortByKey([
+                [user1.address, makeAccount(ethers.parseEther("10"), 0n)],
+                [user2.address, makeAccount(0n, 0n)],
+            ]);
+            const withEmpty = await contract.computeStateRoot(entries.map(([a]) => a), entries.map(([, d]) => d));
+            const without = await contract.computeStateRoot([user1.address], [makeAccount(ethers.parseEther("10"), 0n)]);
+            expect(withEmpty).to.equal(without);
+            expect(await contract.computeStateRoot([user2.address], [makeAccount(0n, 0n)])).to.equal(await contract.emptyRoot());
+        });
+
+        it("updates a single leaf to the recomputed root", async function () {
+            const entries = sortByKey([
+                [user1.address, makeAccount(ethers.parseEther("10"), 0n)],
+                [user2.address, makeAccount(ethers.parseEther("5"), 1n)],
+                [user3.address, makeAccount(ethers.parseEther("15"), 2n)],
+            ]);
+            const accounts = entries.map(([a]) => a);
+            const stateRoot = await contract.computeStateRoot(accounts, entries.map(([, d]) => d));
+            const proof = (await contract.generateAccountProof(user2.address, accounts, entries.map(([, d]) => d), stateRoot)).toArray(true);
+
+            const updated = makeAccount(ethers.parseEther("7"), 1n);
+            const expected = await contract.computeStateRoot(accounts, entries.map(([a, d]) => (a === user2.address ? updated : d)));
+            expect(await contract.computeUpdatedRoot(proof, updated)).to.equal(expected);
+        });
+
+        it("inserts new accounts through a non-inclusion proof", async function () {
+            const entries = sortByKey([
+                [user1.address, makeAccount(ethers.parseEther("10"), 0n)],
+                [user2.address, makeAccount(ethers.parseEther("5"), 1n)],
+            ]);
+            const accounts = entries.map(([a]) => a);
+            const stateRoot = await contract.computeStateRoot(accounts, entries.map(([, d]) => d));
+            const proof = (await contract.generateAccountProof(user3.address, accounts, entries.map(([, d]) => d), stateRoot)).toArray(true);
+
+            const created = makeAccount(ethers.parseEther("1"), 0n);
+            const withNew = sortByKey([...entries, [user3.address, created]]);
+            const expected = await contract.computeStateRoot(withNew.map(([a]) => a), withNew.map(([, d]) => d));
+            expect(await contract.computeUpdatedRoot(proof, created)).to.equal(expected);
         });
     });
 
@@ -230,7 +305,7 @@ describe("StateLib", function () {
 
             const [sortedAccounts, sortedAccountData] = await contract.sortAccounts(accounts, accountData);
 
-            expect(await contract.isAccountsSorted(sortedAccounts)).to.be.true;
+            expect(await contract.isAccountsSorted([...sortedAccounts])).to.be.true;
 
             // check data moved with accounts
             for (let i = 0; i < sortedAccounts.length; i++) {
@@ -328,7 +403,7 @@ describe("StateLib", function () {
             const user1Proof = await contract.generateAccountProof(user1.address, accounts, sortedData, initialStateRoot);
 
             // verify the proof
-            const isValidProof = await contract.verifyAccountProof(user1Proof, initialStateRoot);
+            const isValidProof = await contract.verifyAccountProof(user1Proof.toArray(true), initialStateRoot);
             expect(isValidProof).to.be.true;
 
             // create transaction
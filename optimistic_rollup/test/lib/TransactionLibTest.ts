@@ -1,5 +1,6 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { rollupDomain, signTransaction, transactionDigest } from "../../src/lib/transaction";
 
 describe("TransactionLib", function () {
   let contract: any;
@@ -13,11 +14,20 @@ describe("TransactionLib", function () {
   });
 
   function makeTx(from: string, to: string, amount: bigint, nonce: bigint, fee: bigint) {
-    return { from, to, amount, nonce, fee, signature: "0x" };
+    return { from, to, token: 0n, nft: 0n, amount, nonce, fee, data: "0x", signature: "0x" };
+  }
+
+  // signed as if the harness were the rollup
+  async function signTx(from: any, to: string, amount: bigint, nonce: bigint, fee: bigint, verifyingContract?: string, token = 0n) {
+    return signTransaction(from, { from: from.address, to, token, amount, nonce, fee }, await domain(verifyingContract));
+  }
+
+  async function domain(verifyingContract?: string) {
+    return rollupDomain((await ethers.provider.getNetwork()).chainId, verifyingContract ?? (await contract.getAddress()));
   }
 
   function makeAccount(balance: bigint, nonce: bigint) {
-    return { balance, nonce };
+    return { balance, nonce, tokenBalances: [], nfts: [] };
   }
 
   describe("basic validation", function () {
@@ -40,6 +50,20 @@ describe("TransactionLib", function () {
       const tx = makeTx(user1.address, user2.address, 0n, 0n, ethers.parseEther("0.01"));
       expect(await contract.validate(tx)).to.be.false;
     });
+
+    it("wants nft transfers to move nothing else", async function () {
+      const tx = { ...makeTx(user1.address, user2.address, 0n, 0n, ethers.parseEther("0.01")), nft: 7n };
+      expect(await contract.validate(tx)).to.be.true;
+      expect(await contract.validate({ ...tx, amount: 1n })).to.be.false;
+    });
+
+    it("wants messages to carry ETH only, if anything", async function () {
+      const tx = { ...makeTx(user1.address, user2.address, 0n, 0n, ethers.parseEther("0.01")), data: "0x1234" };
+      expect(await contract.validate(tx)).to.be.true;
+      expect(await contract.validate({ ...tx, amount: 1n })).to.be.true;
+      expect(await contract.validate({ ...tx, token: 1n })).to.be.false;
+      expect(await contract.validate({ ...tx, nft: 7n })).to.be.false;
+    });
   });
 
   describe("serialization", function () {
@@ -76,7 +100,7 @@ describe("TransactionLib", function () {
 
   describe("executing transactions", function () {
     it("works for normal transfers", async function () {
-      const tx = makeTx(user1.address, user2.address, ethers.parseEther("1"), 0n, ethers.parseEther("0.01"));
+      const tx = await signTx(user1, user2.address, ethers.parseEther("1"), 0n, ethers.parseEther("0.01"));
       const user1Account = makeAccount(ethers.parseEther("5"), 0n);
       const user2Account = makeAccount(ethers.parseEther("2"), 0n);
 
@@ -90,7 +114,7 @@ describe("TransactionLib", function () {
     });
 
     it("fails when not enough money", async function () {
-      const tx = makeTx(user1.address, user2.address, ethers.parseEther("10"), 0n, ethers.parseEther("0.01"));
+      const tx = await signTx(user1, user2.address, ethers.parseEther("10"), 0n, ethers.parseEther("0.01"));
       const user1Account = makeAccount(ethers.parseEther("1"), 0n);
       const user2Account = makeAccount(ethers.parseEther("2"), 0n);
 
@@ -101,8 +125,21 @@ describe("TransactionLib", function () {
       expect(newUser2.balance).to.equal(user2Account.balance);
     });
 
+    it("fails when amount + fee overflows instead of reverting", async function () {
+      const tx = await signTx(user1, user2.address, ethers.MaxUint256, 0n, 1n);
+      const user1Account = makeAccount(ethers.MaxUint256, 0n);
+      const user2Account = makeAccount(ethers.parseEther("2"), 0n);
+
+      const [newUser1, newUser2, result] = await contract.execute(tx, user1Account, user2Account);
+
+      expect(result).to.equal(1); // INSUFFICIENT_BALANCE
+      expect(newUser1.balance).to.equal(user1Account.balance);
+      expect(newUser2.balance).to.equal(user2Account.balance);
+      expect(await contract.canExecute(tx, user1Account)).to.be.false;
+    });
+
     it("fails on wrong nonce", async function () {
-      const tx = makeTx(user1.address, user2.address, ethers.parseEther("1"), 5n, ethers.parseEther("0.01"));
+      const tx = await signTx(user1, user2.address, ethers.parseEther("1"), 5n, ethers.parseEther("0.01"));
       const user1Account = makeAccount(ethers.parseEther("5"), 0n); // nonce is 0, not 5
       const user2Account = makeAccount(ethers.parseEther("2"), 0n);
 
@@ -119,8 +156,80 @@ describe("TransactionLib", function () {
       expect(cost).to.equal(ethers.parseEther("1.01"));
     });
 
+    it("moves tokens & takes the fee in them, leaving ETH alone", async function () {
+      const tx = await signTx(user1, user2.address, ethers.parseEther("1"), 0n, ethers.parseEther("0.01"), undefined, 2n);
+      const user1Account = { ...makeAccount(ethers.parseEther("5"), 0n), tokenBalances: [0n, ethers.parseEther("1.01")] };
+      const user2Account = makeAccount(ethers.parseEther("2"), 0n);
+
+      const [newUser1, newUser2, result] = await contract.execute(tx, user1Account, user2Account);
+
+      expect(result).to.equal(0);
+      // spent down to nothing, so both trailing zeros are dropped
+      expect([newUser1.balance, newUser1.nonce, [...newUser1.tokenBalances]]).to.deep.equal([ethers.parseEther("5"), 1n, []]);
+      expect([newUser2.balance, [...newUser2.tokenBalances]]).to.deep.equal([ethers.parseEther("2"), [0n, ethers.parseEther("1")]]);
+      expect(await contract.canExecute(tx, { ...user1Account, tokenBalances: [0n, ethers.parseEther("1")] })).to.be.false;
+    });
+
+    it("keeps token balances trimmed", async function () {
+      const account = { ...makeAccount(1n, 0n), tokenBalances: [5n, 0n, 7n] };
+      expect(await contract.balanceOf(account, 0n)).to.equal(1n);
+      expect(await contract.balanceOf(account, 3n)).to.equal(7n);
+      expect(await contract.balanceOf(account, 9n)).to.equal(0n);
+
+      expect([...(await contract.withBalance(account, 3n, 0n)).tokenBalances]).to.deep.equal([5n]);
+      expect([...(await contract.withBalance(account, 5n, 2n)).tokenBalances]).to.deep.equal([5n, 0n, 7n, 0n, 2n]);
+      expect([...(await contract.withBalance(account, 5n, 0n)).tokenBalances]).to.deep.equal([5n, 0n, 7n]);
+      expect((await contract.withBalance(account, 0n, 3n)).balance).to.equal(3n);
+    });
+
+    it("moves nfts & takes the fee in the tx's token", async function () {
+      const tx = await signTransaction(user1, { from: user1.address, to: user2.address, nft: 7n, amount: 0n, nonce: 0n, fee: ethers.parseEther("0.01") }, await domain());
+      const user1Account = { ...makeAccount(ethers.parseEther("1"), 0n), nfts: [3n, 7n] };
+      const user2Account = { ...makeAccount(0n, 0n), nfts: [5n, 9n] };
+
+      const [newUser1, newUser2, result] = await contract.execute(tx, user1Account, user2Account);
+
+      expect(result).to.equal(0);
+      expect([newUser1.balance, newUser1.nonce, [...newUser1.nfts]]).to.deep.equal([ethers.parseEther("0.99"), 1n, [3n]]);
+      expect([newUser2.balance, [...newUser2.nfts]]).to.deep.equal([0n, [5n, 7n, 9n]]);
+    });
+
+    it("fails on nfts the sender doesn't own", async function () {
+      const tx = await signTransaction(user1, { from: user1.address, to: user2.address, nft: 7n, amount: 0n, nonce: 0n, fee: 0n }, await domain());
+      const user1Account = { ...makeAccount(ethers.parseEther("1"), 0n), nfts: [3n] };
+
+      const [newUser1, , result] = await contract.execute(tx, user1Account, makeAccount(0n, 0n));
+
+      expect(result).to.equal(4); // NFT_NOT_OWNED
+      expect([...newUser1.nfts]).to.deep.equal([3n]);
+      expect(await contract.canExecute(tx, user1Account)).to.be.false;
+      expect(await contract.canExecute(tx, { ...user1Account, nfts: [7n] })).to.be.true;
+    });
+
+    it("takes a message's amount off L2 without crediting its target", async function () {
+      const tx = await signTransaction(user1, { from: user1.address, to: user2.address, amount: ethers.parseEther("1"), nonce: 0n, fee: ethers.parseEther("0.01"), data: "0x1234" }, await domain());
+
+      const [newUser1, newUser2, result] = await contract.execute(tx, makeAccount(ethers.parseEther("2"), 0n), makeAccount(ethers.parseEther("3"), 0n));
+
+      expect(result).to.equal(0);
+      expect([newUser1.balance, newUser1.nonce]).to.deep.equal([ethers.parseEther("0.99"), 1n]);
+      expect(newUser2.balance).to.equal(ethers.parseEther("3"));
+      // the data is signed over
+      expect(await contract.verifySignature({ ...tx, data: "0x1235" })).to.be.false;
+    });
+
+    it("keeps nfts sorted & unique", async function () {
+      expect(await contract.ownsNft({ ...makeAccount(0n, 0n), nfts: [2n, 4n] }, 4n)).to.be.true;
+      expect(await contract.ownsNft({ ...makeAccount(0n, 0n), nfts: [2n, 4n] }, 3n)).to.be.false;
+      expect([...(await contract.withNft([2n, 4n], 3n))]).to.deep.equal([2n, 3n, 4n]);
+      expect([...(await contract.withNft([2n, 4n], 5n))]).to.deep.equal([2n, 4n, 5n]);
+      expect([...(await contract.withNft([2n, 4n], 2n))]).to.deep.equal([2n, 4n]);
+      expect([...(await contract.withoutNft([2n, 3n, 4n], 3n))]).to.deep.equal([2n, 4n]);
+      expect([...(await contract.withoutNft([2n], 2n))]).to.deep.equal([]);
+    });
+
     it("checks if tx can execute", async function () {
-      const tx = makeTx(user1.address, user2.address, ethers.parseEther("1"), 0n, ethers.parseEther("0.01"));
+      const tx = await signTx(user1, user2.address, ethers.parseEther("1"), 0n, ethers.parseEther("0.01"));
       const richAccount = makeAccount(ethers.parseEther("5"), 0n);
       const poorAccount = makeAccount(ethers.parseEther("0.5"), 0n);
 
@@ -129,6 +238,36 @@ describe("TransactionLib", function () {
     });
   });
 
+  describe("signatures", function () {
+    it("accepts the sender's eip-712 signature", async function () {
+      const tx = await signTx(user1, user2.address, ethers.parseEther("1"), 0n, ethers.parseEther("0.01"));
+      expect(await contract.digest(tx)).to.equal(transactionDigest(tx, await domain()));
+      expect(await contract.verifySignature(tx)).to.be.true;
+    });
+
+    it("rejects unsigned & tampered transactions", async function () {
+      const unsigned = makeTx(user1.address, user2.address, ethers.parseEther("1"), 0n, ethers.parseEther("0.01"));
+      const signed = await signTx(user1, user2.address, ethers.parseEther("1"), 0n, ethers.parseEther("0.01"));
+      expect(await contract.verifySignature(unsigned)).to.be.false;
+      expect(await contract.verifySignature({ ...signed, amount: ethers.parseEther("2") })).to.be.false;
+      expect(await contract.verifySignature({ ...signed, from: user2.address })).to.be.false;
+
+      const [, , result] = await contract.execute(unsigned, makeAccount(ethers.parseEther("5"), 0n), makeAccount(0n, 0n));
+      expect(result).to.equal(3); // INVALID_SIGNATURE
+    });
+
+    it("rejects signatures made for another rollup or chain", async function () {
+      const otherRollup = await signTx(user1, user2.address, ethers.parseEther("1"), 0n, ethers.parseEther("0.01"), user3.address);
+      const otherChain = await signTransaction(
+        user1,
+        { from: user1.address, to: user2.address, amount: ethers.parseEther("1"), nonce: 0n, fee: ethers.parseEther("0.01") },
+        { ...(await domain()), chainId: 1n }
+      );
+      expect(await contract.verifySignature(otherRollup)).to.be.false;
+      expect(await contract.verifySignature(otherChain)).to.be.false;
+    });
+  });
+
   describe("merkle stuff", function () {
     it("makes merkle leaves", async function () {
       const tx = makeTx(user1.address, user2.address, ethers.parseEther("1"), 0n, ethers.parseEther("0.01"));
@@ -0,0 +1,164 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { TypedDataDomain } from "ethers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { OptimisticRollup } from "../../typechain-types";
+import { EMPTY_STATE_ROOT } from "../../src/lib/state";
+import { getMerkleLeaf, signTransaction, Transaction } from "../../src/lib/transaction";
+import { L2RpcServer } from "../../src/rpc/server";
+import { getRollupDomain } from "../../src/sdk";
+import { Sequencer } from "../../src/sequencer/sequencer";
+
+describe("L2RpcServer", function () {
+    let rollup: OptimisticRollup;
+    let operator: SignerWithAddress;
+    let user1: SignerWithAddress;
+    let user2: SignerWithAddress;
+    let sequencer: Sequencer;
+    let server: L2RpcServer;
+    let url: string;
+    let domain: TypedDataDomain;
+    const amount = ethers.parseEther("1.0");
+    const fee = ethers.parseEther("0.01");
+
+    this.beforeEach(async function () {
+        [, operator, user1, user2] = await ethers.getSigners();
+        const registry = await (await ethers.getContractFactory("OperatorRegistry")).deploy();
+        rollup = await (await ethers.getContractFactory("OptimisticRollup")).deploy(await registry.getAddress(), ethers.parseEther("1.0"), 50400, EMPTY_STATE_ROOT);
+        await registry.setRollup(await rollup.getAddress());
+        await registry.approveOperator(operator.address, true);
+        await registry.connect(operator).registerOperator({ value: await registry.MIN_STAKE() });
+
+        domain = await getRollupDomain(rollup);
+        sequencer = new Sequencer(rollup.connect(operator), { maxBatchSize: 2, batchInterval: 50 });
+        server = new L2RpcServer(sequencer, { port: 0 });
+        url = await server.start();
+        await rollup.connect(user1).deposit({ value: ethers.parseEther("5.0") });
+    });
+
+    this.afterEach(async function () {
+        await server.stop();
+        await sequencer.stop();
+    });
+
+    async function post(body: unknown): Promise<any> {
+        const response = await fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+        return response.json();
+    }
+
+    async function call(method: string, ...params: unknown[]): Promise<any> {
+        const response = await post({ jsonrpc: "2.0", id: 1, method, params });
+        if (response.error) throw new Error(response.error.message);
+        return response.result;
+    }
+
+    function transfer(nonce: bigint) {
+        return signTransaction(user1, { from: user1.address, to: user2.address, amount, nonce, fee }, domain);
+    }
+
+    // bigints don't go through JSON.stringify
+    function toJson(txn: Transaction) {
+        return { ...txn, token: ethers.toQuantity(txn.token), nft: ethers.toQuantity(txn.nft), amount: ethers.toQuantity(txn.amount), nonce: txn.nonce.toString(), fee: ethers.toQuantity(txn.fee) };
+    }
+
+    describe("State", function () {
+        it("Should serve balances & nonces from the sequencer's L2 state", async function () {
+            expect(await call("l2_getBalance", user1.address)).to.equal("0x0");
+
+            await sequencer.submitTransaction(await transfer(0n));
+            await sequencer.produceBlock();
+
+            expect(await call("l2_blockNumber")).to.equal("0x1");
+            expect(BigInt(await call("l2_getBalance", user1.address))).to.equal(ethers.parseEther("5.0") - amount - fee);
+            expect(BigInt(await call("l2_getBalance", user2.address.toLowerCase()))).to.equal(amount);
+            expect(await call("l2_getNonce", user1.address)).to.equal("0x1");
+            // nothing bridged in token 1
+            expect(await call("l2_getBalance", user1.address, "0x1")).to.equal("0x0");
+        });
+
+        it("Should count queued txs in the pending nonce only", async function () {
+            await sequencer.submitTransaction(await transfer(0n));
+
+            expect(await call("l2_getNonce", user1.address)).to.equal("0x0");
+            expect(await call("l2_getNonce", user1.address, "pending")).to.equal("0x1");
+        });
+    });
+
+    describe("Transactions", function () {
+        it("Should queue sent txs & return receipts once they're in a block", async function () {
+            const first = await transfer(0n);
+            const hash = await call("l2_sendTransaction", toJson(first));
+            expect(hash).to.equal(getMerkleLeaf(first));
+            expect(await call("l2_getTransactionReceipt", hash)).to.equal(null);
+
+            // fills the batch, the block goes out after the response. produceBlock waits for it
+            await call("l2_sendTransaction", toJson(await transfer(1n)));
+            await sequencer.produceBlock();
+            expect(await call("l2_getTransactionReceipt", hash)).to.deep.equal({
+                transactionHash: hash,
+                blockNumber: "0x1",
+                transactionIndex: "0x0",
+                from: user1.address,
+                to: user2.address,
+                status: "0x1",
+            });
+
+            const block = await call("l2_getBlock", "latest");
+            expect(block.number).to.equal("0x1");
+            expect(block.depositCount).to.equal("0x1");
+            expect(block.transactions).to.deep.equal([hash, getMerkleLeaf(await transfer(1n))]);
+            expect((await call("l2_getBlock", 1, true)).transactions[0]).to.deep.equal({ hash, ...toJson(first), nonce: "0x0" });
+            expect(await call("l2_getBlock", "0x2")).to.equal(null);
+        });
+
+        it("Should reject txs the mempool turns away", async function () {
+            const txn = await transfer(0n);
+            await expect(call("l2_sendTransaction", toJson({ ...txn, amount: amount * 2n }))).to.be.rejectedWith("Invalid signature");
+
+            await call("l2_sendTransaction", toJson(txn));
+            await expect(call("l2_sendTransaction", toJson(txn))).to.be.rejectedWith("Nonce already queued");
+        });
+
+        it("Should return the hash of a tx that filled the batch even if submitting the block fails", async function () {
+            const errors: unknown[] = [];
+            await server.stop();
+            server = new L2RpcServer(sequencer, { port: 0, onError: (error) => errors.push(error) });
+            url = await server.start();
+            // an operator that's unstaking can't submit
+            await (await ethers.getContractAt("OperatorRegistry", await rollup.registry())).connect(operator).unstake();
+
+            const txs = [await transfer(0n), await transfer(1n)];
+            for (const txn of txs) expect(await call("l2_sendTransaction", toJson(txn))).to.equal(getMerkleLeaf(txn));
+            await sequencer.stop();
+
+            expect(errors).to.have.length(1);
+            expect((errors[0] as Error).message).to.include("Operator not registered");
+            expect(sequencer.mempool.size).to.equal(2);
+            expect(await call("l2_getNonce", user1.address, "pending")).to.equal("0x2");
+        });
+    });
+
+    describe("Protocol", function () {
+        it("Should answer batches in order", async function () {
+            const responses = await post([
+                { jsonrpc: "2.0", id: 1, method: "l2_getNonce", params: [user1.address] },
+                { jsonrpc: "2.0", id: "two", method: "l2_blockNumber" },
+            ]);
+            expect(responses).to.deep.equal([
+                { jsonrpc: "2.0", id: 1, result: "0x0" },
+                { jsonrpc: "2.0", id: "two", result: "0x0" },
+            ]);
+        });
+
+        it("Should return json-rpc errors", async function () {
+            expect((await post({ jsonrpc: "2.0", id: 1, method: "eth_chainId" })).error.code).to.equal(-32601);
+            expect((await post({ jsonrpc: "2.0", id: 1, method: "l2_getBalance", params: ["0x1234"] })).error.code).to.equal(-32602);
+            expect((await post({ jsonrpc: "2.0", id: 1, method: "l2_getNonce", params: [user1.address, "safe"] })).error.code).to.equal(-32602);
+            expect((await post({ id: 1, method: "l2_blockNumber" })).error.code).to.equal(-32600);
+
+            const response = await fetch(url, { method: "POST", body: "{" });
+            expect((await response.json()).error.code).to.equal(-32700);
+            expect((await fetch(url)).status).to.equal(405);
+        });
+    });
+});
@@ -0,0 +1,233 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { TypedDataDomain } from "ethers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { OptimisticRollup } from "../../typechain-types";
+import { computeStateRoot, EMPTY_STATE_ROOT } from "../../src/lib/state";
+import { getMerkleLeaf, hashTransaction, rollupDomain, serialize, signTransaction, transactionDigest, verifySignature } from "../../src/lib/transaction";
+import { l2NftId } from "../../src/inbox";
+import { getRollupDomain } from "../../src/sdk";
+import { Sequencer, SubmittedBlock } from "../../src/sequencer/sequencer";
+
+describe("Sequencer", function () {
+    let rollup: OptimisticRollup;
+    let operator: SignerWithAddress;
+    let user1: SignerWithAddress;
+    let user2: SignerWithAddress;
+    let sequencer: Sequencer;
+    let domain: TypedDataDomain;
+    const amount = ethers.parseEther("1.0");
+    const fee = ethers.parseEther("0.01");
+
+    this.beforeEach(async function () {
+        [, operator, user1, user2] = await ethers.getSigners();
+        const registry = await (await ethers.getContractFactory("OperatorRegistry")).deploy();
+        rollup = await (await ethers.getContractFactory("OptimisticRollup")).deploy(await registry.getAddress(), ethers.parseEther("1.0"), 50400, EMPTY_STATE_ROOT);
+        await registry.setRollup(await rollup.getAddress());
+        await registry.approveOperator(operator.address, true);
+        await registry.connect(operator).registerOperator({ value: await registry.MIN_STAKE() });
+
+        domain = await getRollupDomain(rollup);
+        sequencer = new Sequencer(rollup.connect(operator), { maxBatchSize: 3, batchInterval: 50 });
+    });
+
+    this.afterEach(async function () {
+        await sequencer.stop();
+    });
+
+    function transfer(from: SignerWithAddress, to: SignerWithAddress, nonce: bigint, value = amount, txDomain = domain) {
+        return signTransaction(from, { from: from.address, to: to.address, amount: value, nonce, fee }, txDomain);
+    }
+
+    describe("Transactions", function () {
+        it("Should sign txs the way TransactionLib verifies them", async function () {
+            const txLib = await (await ethers.getContractFactory("TransactionLibTest")).deploy();
+            const txLibDomain = rollupDomain(domain.chainId as bigint, await txLib.getAddress());
+            const txn = await transfer(user1, user2, 0n, amount, txLibDomain);
+
+            expect(await txLib.hash(txn)).to.equal(hashTransaction(txn));
+            expect(await txLib.serialize(txn)).to.equal(serialize(txn));
+            expect(await txLib.getMerkleLeaf(txn)).to.equal(getMerkleLeaf(txn));
+            expect(await txLib.digest(txn)).to.equal(transactionDigest(txn, txLibDomain));
+            expect(await txLib.verifySignature(txn)).to.be.true;
+            expect(verifySignature(txn, txLibDomain)).to.be.true;
+        });
+
+        it("Should match the rollup's domain separator", async function () {
+            expect(await rollup.DOMAIN_SEPARATOR()).to.equal(ethers.TypedDataEncoder.hashDomain(domain));
+        });
+
+        it("Should reject txs not signed by the sender", async function () {
+            const txn = await transfer(user1, user2, 0n);
+            await expect(sequencer.submitTransaction({ ...txn, from: user2.address, to: user1.address })).to.be.rejectedWith("Invalid signature");
+            await sequencer.submitTransaction(txn);
+            await expect(sequencer.submitTransaction(txn)).to.be.rejectedWith("Nonce already queued");
+        });
+
+        it("Should reject txs signed for another rollup or chain", async function () {
+            const otherRollup = await transfer(user1, user2, 0n, amount, { ...domain, verifyingContract: user2.address });
+            const otherChain = await transfer(user1, user2, 0n, amount, { ...domain, chainId: 1n });
+            await expect(sequencer.submitTransaction(otherRollup)).to.be.rejectedWith("Invalid signature");
+            await expect(sequencer.submitTransaction(otherChain)).to.be.rejectedWith("Invalid signature");
+        });
+    });
+
+    describe("Block production", function () {
+        beforeEach(async function () {
+            await rollup.connect(user1).deposit({ value: ethers.parseEther("5.0") });
+        });
+
+        it("Should credit deposits & submit a block with matching roots", async function () {
+            await sequencer.submitTransaction(await transfer(user1, user2, 0n));
+            const block = (await sequencer.produceBlock())!;
+
+            expect(block.blockNumber).to.equal(1n);
+            expect(block.depositCount).to.equal(1n);
+            const stored = await rollup.getRollupBlock(1);
+            expect(stored.stateRoot).to.equal(computeStateRoot(sequencer.state));
+            expect(stored.txRoot).to.equal(block.txRoot);
+            expect(stored.inboxIndex).to.equal(1n);
+            expect(await rollup.getPendingDeposits()).to.equal(0);
+
+            expect(sequencer.state.get(user1.address)).to.deep.equal({ balance: ethers.parseEther("5.0") - amount - fee, nonce: 1n });
+            expect(sequencer.state.get(user2.address)).to.deep.equal({ balance: amount, nonce: 0n });
+            expect(sequencer.mempool.size).to.equal(0);
+        });
+
+        it("Should credit the fees to the operator unless told otherwise", async function () {
+            await sequencer.submitTransaction(await transfer(user1, user2, 0n));
+            await sequencer.produceBlock();
+            expect(sequencer.state.get(operator.address)).to.deep.equal({ balance: fee, nonce: 0n });
+            expect((await rollup.getRollupBlock(1)).feeRecipient).to.equal(operator.address);
+            expect((await rollup.getRollupBlock(1)).fees).to.equal(fee);
+        });
+
+        it("Should credit the fees to the configured fee recipient", async function () {
+            const feeRecipient = ethers.Wallet.createRandom().address;
+            const other = new Sequencer(rollup.connect(operator), { maxBatchSize: 3, batchInterval: 50, feeRecipient });
+            await other.submitTransaction(await transfer(user1, user2, 0n));
+            const block = (await other.produceBlock())!;
+
+            expect(block.feeRecipient).to.equal(feeRecipient);
+            expect(other.state.get(feeRecipient)).to.deep.equal({ balance: fee, nonce: 0n });
+            expect((await rollup.getRollupBlock(1)).stateRoot).to.equal(computeStateRoot(other.state));
+        });
+
+        it("Should credit token deposits & move tokens, fees included", async function () {
+            const token = await (await ethers.getContractFactory("MockERC20")).deploy("Mock", "MCK");
+            await rollup.registerToken(await token.getAddress());
+            await token.mint(user1.address, amount * 2n);
+            await token.connect(user1).approve(await rollup.getAddress(), amount * 2n);
+            await rollup.connect(user1).depositERC20(await token.getAddress(), amount * 2n);
+
+            await sequencer.submitTransaction(await signTransaction(user1, { from: user1.address, to: user2.address, token: 1n, amount, nonce: 0n, fee }, domain));
+            const block = (await sequencer.produceBlock())!;
+
+            expect(block.depositCount).to.equal(2n);
+            expect(sequencer.state.get(user1.address)).to.deep.equal({ balance: ethers.parseEther("5.0"), nonce: 1n, tokenBalances: [amount - fee] });
+            expect(sequencer.state.get(user2.address)).to.deep.equal({ balance: 0n, nonce: 0n, tokenBalances: [amount] });
+            expect(sequencer.state.get(operator.address)).to.deep.equal({ balance: 0n, nonce: 0n, tokenBalances: [fee] });
+            expect((await rollup.getRollupBlock(1)).stateRoot).to.equal(computeStateRoot(sequencer.state));
+        });
+
+        it("Should credit NFT deposits & move NFTs", async function () {
+            const collection = await (await ethers.getContractFactory("MockERC721")).deploy("Mock", "MCK");
+            await collection.mint(user1.address, 7n);
+            await collection.connect(user1).approve(await rollup.getAddress(), 7n);
+            await rollup.connect(user1).depositERC721(await collection.getAddress(), 7n);
+            const nft = l2NftId(await collection.getAddress(), 7n, 1n);
+
+            // nobody owns the id user2 sends, so theirs stays pending
+            await sequencer.submitTransaction(await signTransaction(user2, { from: user2.address, to: user1.address, nft: nft + 1n, amount: 0n, nonce: 0n, fee: 0n }, domain));
+            await sequencer.submitTransaction(await signTransaction(user1, { from: user1.address, to: user2.address, nft, amount: 0n, nonce: 0n, fee }, domain));
+            const block = (await sequencer.produceBlock())!;
+
+            expect(block.transactions.map((txn) => txn.from)).to.deep.equal([user1.address]);
+            expect(sequencer.state.get(user1.address)).to.deep.equal({ balance: ethers.parseEther("5.0") - fee, nonce: 1n });
+            expect(sequencer.state.get(user2.address)).to.deep.equal({ balance: 0n, nonce: 0n, nfts: [nft] });
+            expect((await rollup.getRollupBlock(1)).stateRoot).to.equal(computeStateRoot(sequencer.state));
+            expect(sequencer.mempool.size).to.equal(1);
+        });
+
+        it("Should leave out txs that would fail", async function () {
+            await sequencer.submitTransaction(await transfer(user1, user2, 0n, ethers.parseEther("10.0"))); // more than deposited
+            await sequencer.submitTransaction(await transfer(user1, user2, 2n)); // nonce gap
+            expect(await sequencer.produceBlock()).to.be.null;
+            expect(sequencer.mempool.size).to.equal(2); // either could still go through later
+
+            // zero-amount txs never pass TransactionLib.validate
+            expect(await sequencer.submitTransaction(await transfer(user2, user1, 0n, 0n))).to.be.null;
+            expect(sequencer.mempool.size).to.equal(2);
+            expect((await rollup.getCurrentState())[1]).to.equal(0);
+        });
+
+        it("Should order txs by nonce & pick up txs funded earlier in the batch", async function () {
+            await sequencer.submitTransaction(await transfer(user2, user1, 0n, ethers.parseEther("0.5"))); // funded by user1's tx
+            await sequencer.submitTransaction(await transfer(user1, user2, 1n));
+            const block = (await sequencer.submitTransaction(await transfer(user1, user2, 0n)))!;
+
+            expect(block.transactions.map((txn) => [txn.from, txn.nonce])).to.deep.equal([
+                [user1.address, 0n],
+                [user2.address, 0n],
+                [user1.address, 1n],
+            ]);
+            expect((await rollup.getCurrentState())[0]).to.equal(computeStateRoot(sequencer.state));
+        });
+
+        it("Should submit a block once the batch is full", async function () {
+            await sequencer.submitTransaction(await transfer(user1, user2, 0n));
+            await sequencer.submitTransaction(await transfer(user1, user2, 1n));
+            expect((await rollup.getCurrentState())[1]).to.equal(0);
+
+            const block = await sequencer.submitTransaction(await transfer(user1, user2, 2n));
+            expect(block!.transactions.length).to.equal(3);
+            expect((await rollup.getCurrentState())[1]).to.equal(1);
+        });
+
+        it("Should submit blocks on an interval while running", async function () {
+            const blocks: SubmittedBlock[] = [];
+            sequencer = new Sequencer(rollup.connect(operator), { maxBatchSize: 10, batchInterval: 50, onBlockSubmitted: (block) => blocks.push(block) });
+            sequencer.start();
+
+            await sequencer.submitTransaction(await transfer(user1, user2, 0n));
+            while (blocks.length === 0) await new Promise((resolve) => setTimeout(resolve, 50));
+            await sequencer.submitTransaction(await transfer(user1, user2, 1n));
+            while (blocks.length === 1) await new Promise((resolve) => setTimeout(resolve, 50));
+            await sequencer.stop();
+
+            expect(blocks.map((block) => block.blockNumber)).to.deep.equal([1n, 2n]);
+            expect(blocks[1].depositCount).to.equal(0n);
+            expect((await rollup.getCurrentState())[0]).to.equal(blocks[1].stateRoot);
+        });
+
+        it("Should refuse to build on a chain it didn't produce", async function () {
+            await sequencer.submitTransaction(await transfer(user1, user2, 0n));
+            await sequencer.produceBlock();
+
+            const other = new Sequencer(rollup.connect(operator), { maxBatchSize: 3, batchInterval: 50 });
+            await other.submitTransaction(await transfer(user1, user2, 1n));
+            await expect(other.produceBlock()).to.be.rejectedWith("Sequencer state out of sync with rollup");
+        });
+
+        it("Should build on the genesis state it's given", async function () {
+            const genesisState = new Map([[user1.address, { balance: ethers.parseEther("5.0"), nonce: 0n }]]);
+            const registry = await (await ethers.getContractFactory("OperatorRegistry")).deploy();
+            rollup = await (await ethers.getContractFactory("OptimisticRollup")).deploy(await registry.getAddress(), ethers.parseEther("1.0"), 50400, computeStateRoot(genesisState));
+            await registry.setRollup(await rollup.getAddress());
+            await registry.approveOperator(operator.address, true);
+            await registry.connect(operator).registerOperator({ value: await registry.MIN_STAKE() });
+            domain = await getRollupDomain(rollup);
+
+            const empty = new Sequencer(rollup.connect(operator), { maxBatchSize: 3, batchInterval: 50 });
+            await empty.submitTransaction(await transfer(user1, user2, 0n));
+            await expect(empty.produceBlock()).to.be.rejectedWith("Sequencer state out of sync with rollup");
+
+            sequencer = new Sequencer(rollup.connect(operator), { maxBatchSize: 3, batchInterval: 50, genesisState });
+            await sequencer.submitTransaction(await transfer(user1, user2, 0n));
+            const block = await sequencer.produceBlock();
+            expect(block!.transactions).to.have.length(1);
+            expect((await rollup.getCurrentState())[0]).to.equal(block!.stateRoot);
+            expect(sequencer.state.get(user2.address)!.balance).to.equal(amount);
+        });
+    });
+});
@@ -0,0 +1,115 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { OptimisticRollup } from "../../typechain-types";
+import { buildFraudProof } from "../../src/lib/fraudProof";
+import { computeStateRoot, EMPTY_STATE_ROOT, StateSnapshot } from "../../src/lib/state";
+import { signTransaction } from "../../src/lib/transaction";
+import { getRollupConfig, getRollupDomain } from "../../src/sdk";
+import { buildExitProof, l2ExitAddress } from "../../src/withdrawals";
+
+describe("Rollup tasks", function () {
+    let rollup: OptimisticRollup;
+    let operator: SignerWithAddress;
+    let user1: SignerWithAddress;
+    let dir: string;
+    let output: string[];
+    const log = console.log;
+    const amount = ethers.parseEther("2.0");
+    const fee = ethers.parseEther("0.01");
+    // signer indexes: operator is 1, user1 is 2
+    const asOperator = { signer: 1 };
+    const asUser1 = { signer: 2 };
+
+    this.beforeEach(async function () {
+        [, operator, user1] = await ethers.getSigners();
+        const registry = await (await ethers.getContractFactory("OperatorRegistry")).deploy();
+        rollup = await (await ethers.getContractFactory("OptimisticRollup")).deploy(await registry.getAddress(), ethers.parseEther("1.0"), 50400, EMPTY_STATE_ROOT);
+        await registry.setRollup(await rollup.getAddress());
+        await registry.approveOperator(operator.address, true);
+        await registry.connect(operator).registerOperator({ value: await registry.MIN_STAKE() });
+
+        process.env.ROLLUP_ADDRESS = await rollup.getAddress();
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "rollup-tasks-"));
+        output = [];
+        console.log = (...args: unknown[]) => output.push(args.join(" "));
+    });
+
+    this.afterEach(function () {
+        console.log = log;
+        delete process.env.ROLLUP_ADDRESS;
+    });
+
+    function writeJson(name: string, value: unknown): string {
+        const file = path.join(dir, name);
+        fs.writeFileSync(file, JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v)));
+        return file;
+    }
+
+    // user1 deposits 5 ETH & sends 2 of it to their exit address
+    async function depositAndExit(): Promise<StateSnapshot> {
+        await hre.run("rollup:deposit", { amount: "5.0", ...asUser1 });
+        const txs = [await signTransaction(user1, { from: user1.address, to: l2ExitAddress(user1.address), amount, nonce: 0n, fee }, await getRollupDomain(rollup))];
+        const state: StateSnapshot = new Map([
+            [user1.address, { balance: ethers.parseEther("5.0") - amount - fee, nonce: 1n }],
+            [l2ExitAddress(user1.address), { balance: amount, nonce: 0n }],
+            [operator.address, { balance: fee, nonce: 0n }],
+        ]);
+        await hre.run("rollup:submit-batch", { file: writeJson("batch.json", { stateRoot: computeStateRoot(state), txs }), ...asOperator });
+        return state;
+    }
+
+    it("Should print the decoded events of a deposit", async function () {
+        expect(await hre.run("rollup:deposit", { amount: "1.5", ...asUser1 })).to.equal(0n);
+        expect(output).to.deep.equal([`Deposit(user=${user1.address}, amount=${ethers.parseEther("1.5")}, inboxIndex=0)`]);
+    });
+
+    it("Should submit a batch file, consuming the pending deposits", async function () {
+        await depositAndExit();
+        const block = await rollup.getRollupBlock(1);
+        expect(block.operator).to.equal(operator.address);
+        expect(block.inboxIndex).to.equal(1n);
+        expect(output[1]).to.match(/^RollupBlockSubmitted\(blockNumber=1, /);
+    });
+
+    it("Should report the head and each block's status", async function () {
+        await depositAndExit();
+        expect(await hre.run("rollup:status", asUser1)).to.equal(1n);
+        expect(await hre.run("rollup:status", { block: 1n, ...asUser1 })).to.equal("challengeable");
+        expect(await hre.run("rollup:status", { block: 2n, ...asUser1 })).to.equal("missing");
+        expect(output).to.include("Block 1: challengeable");
+    });
+
+    it("Should finalize a block and pay out a withdrawal against it", async function () {
+        const state = await depositAndExit();
+        const requestId = await hre.run("rollup:withdraw", { block: 1n, proof: writeJson("proof.json", buildExitProof(state, user1.address)), ...asUser1 });
+
+        await ethers.provider.send("hardhat_mine", [ethers.toQuantity((await (await getRollupConfig(rollup)).challengePeriod()) + 1n)]);
+        await hre.run("rollup:finalize", { block: 1n, ...asUser1 });
+        expect(output).to.include("BlockFinalized(blockNumber=1)");
+
+        await hre.run("rollup:process-withdrawal", { id: requestId, ...asUser1 });
+        expect(output).to.include(`WithdrawalProcessed(user=${user1.address}, amount=${amount})`);
+    });
+
+    it("Should challenge a block with a fraud proof file", async function () {
+        const state = await depositAndExit();
+        // second block claims user1's tx went nowhere
+        const domain = await getRollupDomain(rollup);
+        const txs = [await signTransaction(user1, { from: user1.address, to: l2ExitAddress(user1.address), amount, nonce: 1n, fee }, domain)];
+        await hre.run("rollup:submit-batch", { file: writeJson("fraud.json", { stateRoot: computeStateRoot(state), txs }), ...asOperator });
+
+        const proof = buildFraudProof(txs, 0, state, computeStateRoot(state), operator.address, domain);
+        await hre.run("rollup:challenge", { block: 2n, proof: writeJson("fraud-proof.json", proof), ...asUser1 });
+        expect((await rollup.getRollupBlock(2)).challenged).to.be.true;
+        expect(output.some((line) => line.startsWith("Challenge(blockNumber=2"))).to.be.true;
+    });
+
+    it("Should need a rollup address", async function () {
+        delete process.env.ROLLUP_ADDRESS;
+        await expect(hre.run("rollup:status", asUser1)).to.be.rejectedWith("No rollup address");
+    });
+});
@@ -0,0 +1,269 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { TypedDataDomain } from "ethers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { OptimisticRollup } from "../../typechain-types";
+import { computeRoot } from "../../src/lib/merkle";
+import { computeStateRoot, EMPTY_STATE_ROOT, getAccount, StateSnapshot } from "../../src/lib/state";
+import { encodeBatch } from "../../src/lib/batch";
+import { applyTransaction, ETH, getMerkleLeaf, signTransaction, Transaction } from "../../src/lib/transaction";
+import { creditDeposit } from "../../src/inbox";
+import { getRollupConfig, getRollupDomain } from "../../src/sdk";
+import { Sequencer } from "../../src/sequencer/sequencer";
+import { emptyCheckpoint, loadCheckpoint, saveCheckpoint } from "../../src/watchtower/checkpoint";
+import { BlockCheck, Watchtower } from "../../src/watchtower/watchtower";
+
+describe("Watchtower", function () {
+    let rollup: OptimisticRollup;
+    let operator: SignerWithAddress;
+    let user1: SignerWithAddress;
+    let user2: SignerWithAddress;
+    let challenger: SignerWithAddress;
+    let sequencer: Sequencer;
+    let checks: BlockCheck[];
+    let errors: unknown[];
+    let domain: TypedDataDomain;
+    const amount = ethers.parseEther("1.0");
+    const fee = ethers.parseEther("0.01");
+
+    this.beforeEach(async function () {
+        [, operator, user1, user2, challenger] = await ethers.getSigners();
+        const registry = await (await ethers.getContractFactory("OperatorRegistry")).deploy();
+        rollup = await (await ethers.getContractFactory("OptimisticRollup")).deploy(await registry.getAddress(), ethers.parseEther("1.0"), 50400, EMPTY_STATE_ROOT);
+        await registry.setRollup(await rollup.getAddress());
+        await registry.approveOperator(operator.address, true);
+        await registry.connect(operator).registerOperator({ value: await registry.MIN_STAKE() });
+
+        // block 1: user1 deposits 5 ETH & sends 1 to user2
+        domain = await getRollupDomain(rollup);
+        sequencer = new Sequencer(rollup.connect(operator), { maxBatchSize: 10, batchInterval: 50 });
+        await rollup.connect(user1).deposit({ value: ethers.parseEther("5.0") });
+        await sequencer.submitTransaction(await signTransaction(user1, { from: user1.address, to: user2.address, amount, nonce: 0n, fee }, domain));
+        await sequencer.produceBlock();
+
+        checks = [];
+        errors = [];
+    });
+
+    function watchtower(checkpointPath?: string) {
+        return new Watchtower(rollup.connect(challenger), {
+            pollInterval: 50,
+            checkpointPath,
+            onBlockChecked: (check) => checks.push(check),
+            onError: (error) => errors.push(error),
+        });
+    }
+
+    function transfer(nonce: bigint, value = amount): Promise<Transaction> {
+        return signTransaction(user1, { from: user1.address, to: user2.address, amount: value, nonce, fee }, domain);
+    }
+
+    // state after txs with their fees paid to the operator, the faulty one crediting its recipient twice
+    function run(state: StateSnapshot, txs: Transaction[], faultyTx = -1): StateSnapshot {
+        const next = new Map(state);
+        txs.forEach((txn, i) => {
+            applyTransaction(next, txn, operator.address, domain);
+            const to = getAccount(next, txn.to);
+            if (i === faultyTx) next.set(txn.to, { ...to, balance: to.balance + txn.amount });
+        });
+        return next;
+    }
+
+    async function submitBlock(txs: Transaction[], stateRoot: string, depositCount = 0n) {
+        await rollup.connect(operator).submitRollupBlock(stateRoot, computeRoot(txs.map(getMerkleLeaf)), encodeBatch(txs), depositCount, operator.address, { value: await (await getRollupConfig(rollup)).operatorBond() });
+    }
+
+    async function challenges() {
+        return rollup.queryFilter(rollup.filters.Challenge());
+    }
+
+    it("Should accept blocks that match its own replay", async function () {
+        await sequencer.submitTransaction(await signTransaction(user1, { from: user1.address, to: user2.address, amount, nonce: 1n, fee }, domain));
+        await sequencer.submitTransaction(await signTransaction(user2, { from: user2.address, to: user1.address, amount, nonce: 0n, fee }, domain));
+        await sequencer.produceBlock();
+
+        const tower = watchtower();
+        await tower.poll();
+        expect(checks.map(({ blockNumber, valid }) => [blockNumber, valid])).to.deep.equal([[1n, true], [2n, true]]);
+        expect(computeStateRoot(tower.checkedBlocks.get(2n)!.state!)).to.equal(computeStateRoot(sequencer.state));
+        expect(await challenges()).to.be.empty;
+
+        // nothing new, nothing rechecked
+        await tower.poll();
+        expect(checks).to.have.length(2);
+    });
+
+    it("Should replay from the genesis state it's given", async function () {
+        // a rollup whose genesis already credits user1
+        const genesisState: StateSnapshot = new Map([[user1.address, { balance: ethers.parseEther("5.0"), nonce: 0n }]]);
+        const registry = await (await ethers.getContractFactory("OperatorRegistry")).deploy();
+        rollup = await (await ethers.getContractFactory("OptimisticRollup")).deploy(await registry.getAddress(), ethers.parseEther("1.0"), 50400, computeStateRoot(genesisState));
+        await registry.setRollup(await rollup.getAddress());
+        await registry.approveOperator(operator.address, true);
+        await registry.connect(operator).registerOperator({ value: await registry.MIN_STAKE() });
+        domain = await getRollupDomain(rollup);
+
+        sequencer = new Sequencer(rollup.connect(operator), { maxBatchSize: 10, batchInterval: 50, genesisState });
+        await sequencer.submitTransaction(await transfer(0n));
+        expect(await sequencer.produceBlock()).to.not.be.null;
+
+        // one that assumes an empty genesis refuses to check anything
+        await expect(watchtower().poll()).to.be.rejectedWith("Genesis state doesn't match the rollup's genesis state root");
+        expect(checks).to.be.empty;
+
+        const tower = new Watchtower(rollup.connect(challenger), { pollInterval: 50, genesisState, onBlockChecked: (check) => checks.push(check) });
+        await tower.poll();
+        expect(checks.map(({ blockNumber, valid }) => [blockNumber, valid])).to.deep.equal([[1n, true]]);
+        expect(await challenges()).to.be.empty;
+    });
+
+    it("Should challenge a single-tx block with a wrong state root", async function () {
+        const txs = [await transfer(1n)];
+        await submitBlock(txs, computeStateRoot(run(sequencer.state, txs, 0)));
+
+        let challenged: bigint | undefined;
+        const tower = new Watchtower(rollup.connect(challenger), { pollInterval: 50, onChallenge: (blockNumber) => (challenged = blockNumber) });
+        await tower.poll();
+
+        expect(challenged).to.equal(2n);
+        const [event] = await challenges();
+        expect(event.args.challenger).to.equal(challenger.address);
+        expect(event.args.reason).to.equal("Operator computed incorrect post-state");
+        expect((await rollup.getCurrentState())[1]).to.equal(1n);
+    });
+
+    it("Should challenge a block including a tx that fails", async function () {
+        // user1 only has 3.99 left, the operator claims the overdraft went through untouched
+        await submitBlock([await transfer(1n, ethers.parseEther("10.0"))], computeStateRoot(sequencer.state));
+
+        const tower = watchtower();
+        await tower.poll();
+        expect(checks[1]).to.deep.include({ blockNumber: 2n, valid: false, reason: "Tx 0 fails" });
+        const [event] = await challenges();
+        expect(event.args.fraudType).to.equal(1n); // INVALID_TRANSACTION
+    });
+
+    it("Should narrow a multi-tx block down to the faulty tx through the dispute game", async function () {
+        const txs = await Promise.all([0n, 1n, 2n].map((nonce) => transfer(nonce + 1n)));
+        await submitBlock(txs, computeStateRoot(run(sequencer.state, txs, 1)));
+
+        const tower = watchtower();
+        await tower.poll();
+        const disputeId = await rollup.disputeCount();
+        expect(disputeId).to.equal(1n);
+
+        // operator defends its own roots, the watchtower answers each move on its next poll
+        for (let dispute = await rollup.getDispute(disputeId); dispute.status === 1n && errors.length === 0; dispute = await rollup.getDispute(disputeId)) {
+            if (dispute.hi - dispute.lo > 1n && dispute.midRoot === ethers.ZeroHash) {
+                const mid = Number((dispute.lo + dispute.hi) / 2n);
+                await rollup.connect(operator).bisectDispute(disputeId, computeStateRoot(run(sequencer.state, txs.slice(0, mid), 1)));
+            }
+            await tower.poll();
+        }
+
+        expect((await rollup.getDispute(disputeId)).status).to.equal(2n); // ChallengerWon
+        expect((await rollup.getRollupBlock(2)).challenged).to.be.true;
+        expect(errors).to.be.empty;
+    });
+
+    it("Should dispute a block that credits a deposit wrongly down to the deposit step", async function () {
+        // the operator credits user2 twice what they deposited, then runs the tx correctly on top of that
+        await rollup.connect(user2).deposit({ value: ethers.parseEther("2.0") });
+        const credited = new Map(sequencer.state);
+        creditDeposit(credited, { user: user2.address, token: ETH, nft: 0n, amount: ethers.parseEther("4.0") });
+        const txs = [await transfer(1n)];
+        await submitBlock(txs, computeStateRoot(run(credited, txs)), 1n);
+
+        const tower = watchtower();
+        await tower.poll();
+        expect(checks[1]).to.deep.include({ blockNumber: 2n, valid: false, reason: "Incorrect post-state" });
+        const disputeId = await rollup.disputeCount();
+        expect((await rollup.getDispute(disputeId)).hi).to.equal(2n); // the deposit, then the tx
+
+        await rollup.connect(operator).bisectDispute(disputeId, computeStateRoot(credited));
+        await tower.poll();
+        await tower.poll();
+
+        const [event] = await challenges();
+        expect(event.args.reason).to.equal("Operator credited deposit incorrectly");
+        expect((await rollup.getRollupBlock(2)).challenged).to.be.true;
+        expect(errors).to.be.empty;
+    });
+
+    it("Should keep parent states until the chain finalizes past them", async function () {
+        await sequencer.submitTransaction(await transfer(1n));
+        await sequencer.produceBlock();
+        const tower = watchtower();
+        await tower.poll();
+
+        // long past every challenge period, but a dispute could still be holding block 2 open
+        await ethers.provider.send("hardhat_mine", [ethers.toQuantity(await (await ethers.getContractAt("OperatorRegistry", await rollup.registry())).UNSTAKE_DELAY())]);
+        await tower.poll();
+        expect([...tower.checkedBlocks.keys()]).to.deep.equal([0n, 1n, 2n]);
+
+        await rollup.finalizeBlock(1);
+        await rollup.finalizeBlock(2);
+        await tower.poll();
+        expect([...tower.checkedBlocks.keys()]).to.deep.equal([2n]);
+
+        // the finalized head is all a new block needs
+        await sequencer.submitTransaction(await transfer(2n));
+        await sequencer.produceBlock();
+        await tower.poll();
+        expect(checks.map(({ blockNumber, valid }) => [blockNumber, valid])).to.deep.equal([[1n, true], [2n, true], [3n, true]]);
+        expect(errors).to.be.empty;
+    });
+
+    it("Should resume from its checkpoint after a restart", async function () {
+        const checkpointPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "watchtower-")), "checkpoint.json");
+        await watchtower(checkpointPath).poll();
+        expect(checks).to.have.length(1);
+
+        const txs = [await transfer(1n)];
+        await submitBlock(txs, computeStateRoot(run(sequencer.state, txs, 0)));
+
+        // block 1 isn't replayed again, block 2 is checked against the state saved for it
+        const restarted = watchtower(checkpointPath);
+        expect(computeStateRoot(restarted.checkedBlocks.get(1n)!.state!)).to.equal(computeStateRoot(sequencer.state));
+        await restarted.poll();
+        expect(checks.map(({ blockNumber }) => blockNumber)).to.deep.equal([1n, 2n]);
+        expect(await challenges()).to.have.length(1);
+    });
+
+    it("Should keep token balances & nfts in its checkpoint", async function () {
+        const checkpointPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "watchtower-")), "checkpoint.json");
+        const checkpoint = emptyCheckpoint();
+        const state: StateSnapshot = new Map([
+            [user1.address, { balance: amount, nonce: 1n, tokenBalances: [0n, fee] }],
+            [user2.address, { balance: amount, nonce: 0n, nfts: [1n, 2n ** 255n] }],
+            [operator.address, { balance: fee, nonce: 0n }],
+        ]);
+        checkpoint.blocks.set(1n, { submittedAt: 1, stateRoot: computeStateRoot(state), inboxIndex: 1n, state });
+        saveCheckpoint(checkpointPath, checkpoint);
+
+        expect(loadCheckpoint(checkpointPath).blocks.get(1n)!.state).to.deep.equal(state);
+    });
+
+    it("Should refuse a malformed checkpoint", async function () {
+        const checkpointPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "watchtower-")), "checkpoint.json");
+        saveCheckpoint(checkpointPath, emptyCheckpoint(new Map([[user1.address, { balance: amount, nonce: 0n }]])));
+        const saved = JSON.parse(fs.readFileSync(checkpointPath, "utf8"));
+        const load = (json: unknown) => {
+            fs.writeFileSync(checkpointPath, JSON.stringify(json));
+            return loadCheckpoint(checkpointPath);
+        };
+
+        // checkpoints from before token balances & nfts still load
+        const legacy = { ...saved, blocks: [{ ...saved.blocks[0], state: [saved.blocks[0].state[0].slice(0, 3)] }] };
+        expect(load(legacy).blocks.get(0n)!.state).to.deep.equal(new Map([[user1.address, { balance: amount, nonce: 0n }]]));
+
+        expect(() => load([])).to.throw("Invalid checkpoint: bad checkpoint");
+        expect(() => load({ ...saved, nextL1Block: "1" })).to.throw("Invalid checkpoint: bad nextL1Block");
+        expect(() => load({ ...saved, blocks: [{ ...saved.blocks[0], inboxIndex: -1 }] })).to.throw("Invalid checkpoint: bad inboxIndex");
+        expect(() => load({ ...saved, blocks: [{ ...saved.blocks[0], state: [["0x1234", "1", "0"]] }] })).to.throw("Invalid checkpoint: bad account address");
+        expect(() => load({ ...saved, disputes: [{ id: "1", blockNumber: "2", txHash: "0x12" }] })).to.throw("Invalid checkpoint: bad txHash");
+    });
+});